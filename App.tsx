@@ -1,32 +1,106 @@
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import ChatWindow from './components/ChatWindow';
 import ImageEditor from './components/ImageEditor';
 import ImageViewer from './components/ImageViewer';
 import HistorySidebar from './components/HistorySidebar';
 import ThemeSelector from './components/ThemeSelector';
+import ProviderSettings from './components/ProviderSettings';
+import RequestQueue from './components/RequestQueue';
+import Onboarding from './components/Onboarding';
+import ApiKeySettings from './components/ApiKeySettings';
+import BackupSettings from './components/BackupSettings';
+import MigrationNotice from './components/MigrationNotice';
+import StorageSettings from './components/StorageSettings';
+import StorageNotice from './components/StorageNotice';
 import SettingsIcon from './components/icons/SettingsIcon';
+import ServerIcon from './components/icons/ServerIcon';
+import KeyIcon from './components/icons/KeyIcon';
+import ArchiveIcon from './components/icons/ArchiveIcon';
+import DatabaseIcon from './components/icons/DatabaseIcon';
 import { dbService } from './services/dbService';
-import type { Conversation, ImageEditingConversation } from './types';
+import { canMoveFolder } from './services/folders';
+import { titleService } from './services/titleService';
+import { storageService } from './services/storageService';
+import { syncService } from './services/syncService';
+import { buildSummary } from './services/summaries';
+import { useCredentials } from './hooks/useCredentials';
+import type { ConversationSummary, Folder, ImageEditingConversation, SearchLocation, StoredImage } from './types';
 
 type ActiveView = 'chat' | 'edit';
 
+// A restore in another tab sends one event per session; they are folded into one reload.
+const SYNC_REFRESH_DELAY_MS = 150;
+const SESSION_PAGE_SIZE = 50;
+
 const App: React.FC = () => {
   const [activeView, setActiveView] = useState<ActiveView>('chat');
   const [galleryData, setGalleryData] = useState<{ images: string[]; currentIndex: number } | null>(null);
   const [isThemeSelectorOpen, setIsThemeSelectorOpen] = useState(false);
+  const [isProviderSettingsOpen, setIsProviderSettingsOpen] = useState(false);
+  const [isApiKeySettingsOpen, setIsApiKeySettingsOpen] = useState(false);
+  const [isBackupSettingsOpen, setIsBackupSettingsOpen] = useState(false);
+  const [isStorageSettingsOpen, setIsStorageSettingsOpen] = useState(false);
+  const { status: credentialStatus, needsKey } = useCredentials();
   const [currentConversationId, setCurrentConversationId] = useState<string | null>(null);
-  const [conversations, setConversations] = useState<Conversation[]>([]);
+  // The newest sessions, one page at a time; the sidebar asks for more as it is scrolled.
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [hasMoreConversations, setHasMoreConversations] = useState(false);
+  const loadedCountRef = useRef(0);
+  loadedCountRef.current = conversations.length;
+  const isLoadingMoreRef = useRef(false);
+  const [folders, setFolders] = useState<Folder[]>([]);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const [incomingFiles, setIncomingFiles] = useState<{ conversationId: string; files: File[] } | null>(null);
+  const [searchTarget, setSearchTarget] = useState<{ conversationId: string; location: SearchLocation } | null>(null);
 
   useEffect(() => {
+    // Reloads as many sessions as are shown, so a refresh does not scroll the list back to its first page.
     const fetchConversations = async () => {
-      const allConvos = await dbService.getAllConversations();
-      setConversations(allConvos);
+      const limit = Math.max(SESSION_PAGE_SIZE, loadedCountRef.current);
+      const page = await dbService.getConversationSummaries(limit);
+      setConversations(page);
+      setHasMoreConversations(page.length === limit);
+      setFolders(await dbService.getFolders());
     };
     fetchConversations();
+    storageService.checkQuota().catch(error => console.error("Failed to check storage quota:", error));
   }, [refreshTrigger]);
 
+  const handleLoadMoreConversations = useCallback(async () => {
+    const last = conversations[conversations.length - 1];
+    if (!last || isLoadingMoreRef.current) return;
+    isLoadingMoreRef.current = true;
+    try {
+      const page = await dbService.getConversationSummaries(SESSION_PAGE_SIZE, last);
+      setConversations(prev => {
+        const known = new Set(prev.map(c => c.id));
+        return [...prev, ...page.filter(c => !known.has(c.id))];
+      });
+      setHasMoreConversations(page.length === SESSION_PAGE_SIZE);
+    } finally {
+      isLoadingMoreRef.current = false;
+    }
+  }, [conversations]);
+
+  const currentConversationIdRef = useRef(currentConversationId);
+  currentConversationIdRef.current = currentConversationId;
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = syncService.subscribe(event => {
+      if (event.type === 'conversationDeleted' && event.conversationId === currentConversationIdRef.current) {
+        setCurrentConversationId(null);
+      }
+      clearTimeout(timer);
+      timer = setTimeout(() => setRefreshTrigger(t => t + 1), SYNC_REFRESH_DELAY_MS);
+    });
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, []);
+
   const handleSessionCreated = useCallback((id: string) => {
     setCurrentConversationId(id);
     setRefreshTrigger(t => t + 1);
@@ -52,6 +126,22 @@ const App: React.FC = () => {
     }
   }, []);
 
+  const handleDropFiles = useCallback((id: string, files: File[]) => {
+    setIncomingFiles({ conversationId: id, files });
+    handleSelectConversation(id);
+  }, [handleSelectConversation]);
+
+  const handleOpenSearchResult = useCallback((id: string, location: SearchLocation) => {
+    setSearchTarget({ conversationId: id, location });
+    handleSelectConversation(id);
+  }, [handleSelectConversation]);
+
+  // A replace restore or a storage cleanup may have removed or rewritten the open session, so the view starts fresh.
+  const handleWorkspaceRewritten = useCallback(() => {
+    setCurrentConversationId(null);
+    setRefreshTrigger(t => t + 1);
+  }, []);
+
   const handleNewSession = useCallback(() => {
     setCurrentConversationId(null);
     // When creating a new session, the active view remains the same,
@@ -66,30 +156,81 @@ const App: React.FC = () => {
     }
   }, [currentConversationId]);
   
+  // Changed in place in storage: the list copy misses messages sent since it was loaded, here or in another tab.
   const handleToggleFavorite = useCallback(async (id: string) => {
-    const convo = conversations.find(c => c.id === id);
-    if(convo){
-        const updatedConvo = {...convo, isFavorite: !convo.isFavorite };
-        await dbService.addOrUpdateConversation(updatedConvo);
-        setConversations(convos => convos.map(c => c.id === id ? updatedConvo : c));
+    const updatedConvo = await dbService.updateConversationRecord(id, convo => ({ ...convo, isFavorite: !convo.isFavorite }));
+    if (updatedConvo) {
+        setConversations(convos => convos.map(c => c.id === id ? buildSummary(updatedConvo) : c));
     }
-  }, [conversations]);
+  }, []);
+
+  const handleMoveConversation = useCallback(async (id: string, folderId: string | null) => {
+    const updatedConvo = await dbService.updateConversationRecord(id, convo => {
+        if ((convo.folderId ?? null) === folderId) return null;
+        const { folderId: _previous, ...rest } = convo;
+        return folderId ? { ...rest, folderId } : rest;
+    });
+    if (updatedConvo) {
+        setConversations(convos => convos.map(c => c.id === id ? buildSummary(updatedConvo) : c));
+    }
+  }, []);
 
-  const handleStartEditing = useCallback(async (imageUrl: string) => {
-    const match = imageUrl.match(/^data:(image\/.+);base64,(.+)$/);
-    if (!match) {
-        console.error("Invalid image URL format for editing");
-        return;
+  const handleSetTags = useCallback(async (id: string, tags: string[]) => {
+    const updatedConvo = await dbService.updateConversationRecord(id, convo => ({ ...convo, tags }));
+    if (updatedConvo) {
+        setConversations(convos => convos.map(c => c.id === id ? buildSummary(updatedConvo) : c));
     }
-    const [, mimeType, base64] = match;
+  }, []);
+
+  const handleRenameConversation = useCallback(async (id: string, title: string) => {
+    await titleService.renameConversation(id, title);
+    setConversations(convos => convos.map(c => c.id === id ? { ...c, title } : c));
+  }, []);
+
+  const handleRegenerateTitle = useCallback(async (id: string) => {
+    if (await titleService.generateTitle(id, true)) {
+        setRefreshTrigger(t => t + 1);
+    }
+  }, []);
+
+  const handleTitleChanged = useCallback(() => setRefreshTrigger(t => t + 1), []);
+
+  const handleCreateFolder = useCallback(async (name: string, parentId: string | null) => {
+    await dbService.saveFolder({ id: Date.now().toString(), name, parentId, createdAt: Date.now() });
+    setFolders(await dbService.getFolders());
+  }, []);
 
+  const handleRenameFolder = useCallback(async (id: string, name: string) => {
+    const folder = folders.find(f => f.id === id);
+    if (folder) {
+        await dbService.saveFolder({ ...folder, name });
+        setFolders(await dbService.getFolders());
+    }
+  }, [folders]);
+
+  const handleMoveFolder = useCallback(async (id: string, parentId: string | null) => {
+    const folder = folders.find(f => f.id === id);
+    if (folder && folder.parentId !== parentId && canMoveFolder(folders, id, parentId)) {
+        await dbService.saveFolder({ ...folder, parentId });
+        setFolders(await dbService.getFolders());
+    }
+  }, [folders]);
+
+  // Sessions in the folder are moved up a level, so the list is reloaded too.
+  const handleDeleteFolder = useCallback(async (id: string) => {
+    await dbService.deleteFolder(id);
+    setRefreshTrigger(t => t + 1);
+  }, []);
+
+  // The image store dedupes by content, so the edit session shares the chat's copy of the image.
+  const handleStartEditing = useCallback(async (image: StoredImage) => {
     const newConversation: ImageEditingConversation = {
         id: Date.now().toString(),
         title: `Edit of generated image...`,
         createdAt: Date.now(),
         isFavorite: false,
         type: 'imageEditing',
-        baseImage: { url: imageUrl, base64, mimeType },
+        baseImage: image,
         history: [],
     };
 
@@ -123,12 +264,21 @@ const App: React.FC = () => {
                     conversationId={currentConversationId}
                     onConversationCreated={handleSessionCreated}
                     onEditImage={handleStartEditing}
+                    onNewConversation={handleNewSession}
+                    incomingFiles={incomingFiles}
+                    onIncomingFilesHandled={() => setIncomingFiles(null)}
+                    searchTarget={searchTarget}
+                    onSearchTargetHandled={() => setSearchTarget(null)}
+                    onTitleChanged={handleTitleChanged}
                 />;
       case 'edit':
         return <ImageEditor 
                     onViewImage={handleViewImage} 
                     conversationId={currentConversationId}
                     onSessionCreated={handleSessionCreated}
+                    searchTarget={searchTarget}
+                    onSearchTargetHandled={() => setSearchTarget(null)}
+                    onTitleChanged={handleTitleChanged}
                 />;
       default:
         return <ChatWindow
@@ -136,6 +286,8 @@ const App: React.FC = () => {
                     conversationId={currentConversationId}
                     onConversationCreated={handleSessionCreated}
                     onEditImage={handleStartEditing}
+                    onNewConversation={handleNewSession}
+                    onTitleChanged={handleTitleChanged}
                 />;
     }
   };
@@ -159,6 +311,19 @@ const App: React.FC = () => {
     </button>
   );
 
+  const providerSettingsModal = isProviderSettingsOpen && (
+    <ProviderSettings onClose={() => setIsProviderSettingsOpen(false)} />
+  );
+
+  if (needsKey && credentialStatus !== 'ready') {
+    return (
+      <>
+        <Onboarding status={credentialStatus} onOpenProviderSettings={() => setIsProviderSettingsOpen(true)} />
+        {providerSettingsModal}
+      </>
+    );
+  }
+
   return (
     <div className="h-screen w-screen p-4 flex flex-col gap-4 font-sans">
       <header className="flex-shrink-0 bg-component-bg p-2 rounded-lg border border-border-color flex items-center justify-between">
@@ -167,10 +332,39 @@ const App: React.FC = () => {
             <h1 className="text-xl font-bold text-text-primary">Gemini Creative Suite</h1>
         </div>
         <div className="flex items-center gap-2">
+            <RequestQueue />
             <nav className="flex gap-2 bg-base-bg p-1 rounded-lg">
                 <NavButton view="chat" label="Chatbot" />
                 <NavButton view="edit" label="Edit Image" />
             </nav>
+            <button
+                onClick={() => setIsApiKeySettingsOpen(true)}
+                className="p-2 rounded-lg bg-base-bg hover:bg-border-color transition-colors"
+                aria-label="Open API key settings"
+            >
+                <KeyIcon />
+            </button>
+            <button
+                onClick={() => setIsProviderSettingsOpen(true)}
+                className="p-2 rounded-lg bg-base-bg hover:bg-border-color transition-colors"
+                aria-label="Open model provider settings"
+            >
+                <ServerIcon />
+            </button>
+            <button
+                onClick={() => setIsBackupSettingsOpen(true)}
+                className="p-2 rounded-lg bg-base-bg hover:bg-border-color transition-colors"
+                aria-label="Open backup and restore"
+            >
+                <ArchiveIcon />
+            </button>
+            <button
+                onClick={() => setIsStorageSettingsOpen(true)}
+                className="p-2 rounded-lg bg-base-bg hover:bg-border-color transition-colors"
+                aria-label="Open storage usage"
+            >
+                <DatabaseIcon />
+            </button>
             <button
                 onClick={() => setIsThemeSelectorOpen(true)}
                 className="p-2 rounded-lg bg-base-bg hover:bg-border-color transition-colors"
@@ -180,14 +374,29 @@ const App: React.FC = () => {
             </button>
         </div>
       </header>
+      <MigrationNotice />
+      <StorageNotice onOpenStorage={() => setIsStorageSettingsOpen(true)} />
       <main className="flex-grow min-h-0 flex gap-4">
         <HistorySidebar
             conversations={conversations}
+            hasMoreConversations={hasMoreConversations}
+            onLoadMoreConversations={handleLoadMoreConversations}
             currentConversationId={currentConversationId}
             onSelectConversation={handleSelectConversation}
             onNewConversation={handleNewSession}
             onDeleteConversation={handleDeleteConversation}
             onToggleFavorite={handleToggleFavorite}
+            onDropFiles={handleDropFiles}
+            onOpenSearchResult={handleOpenSearchResult}
+            folders={folders}
+            onMoveConversation={handleMoveConversation}
+            onSetTags={handleSetTags}
+            onRenameConversation={handleRenameConversation}
+            onRegenerateTitle={handleRegenerateTitle}
+            onCreateFolder={handleCreateFolder}
+            onRenameFolder={handleRenameFolder}
+            onMoveFolder={handleMoveFolder}
+            onDeleteFolder={handleDeleteFolder}
         />
         <div className="flex-grow min-h-0">
          {renderView()}
@@ -204,6 +413,23 @@ const App: React.FC = () => {
       {isThemeSelectorOpen && (
         <ThemeSelector onClose={() => setIsThemeSelectorOpen(false)} />
       )}
+      {providerSettingsModal}
+      {isApiKeySettingsOpen && (
+        <ApiKeySettings onClose={() => setIsApiKeySettingsOpen(false)} />
+      )}
+      {isBackupSettingsOpen && (
+        <BackupSettings onClose={() => setIsBackupSettingsOpen(false)} onRestored={handleWorkspaceRewritten} />
+      )}
+      {isStorageSettingsOpen && (
+        <StorageSettings
+          onClose={() => setIsStorageSettingsOpen(false)}
+          onOpenSession={(id) => {
+            setIsStorageSettingsOpen(false);
+            handleSelectConversation(id);
+          }}
+          onCleanedUp={handleWorkspaceRewritten}
+        />
+      )}
     </div>
   );
 };
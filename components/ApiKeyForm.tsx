@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { credentialService } from '../services/credentialService';
+import { toModelError, type ModelError } from '../services/errors';
+import ErrorBubble from './ErrorBubble';
+import SpinnerIcon from './icons/SpinnerIcon';
+
+interface ApiKeyFormProps {
+  onSaved?: () => void;
+}
+
+const ApiKeyForm: React.FC<ApiKeyFormProps> = ({ onSaved }) => {
+  const current = credentialService.getCredentials();
+  const [apiKey, setApiKey] = useState(current?.apiKey ?? '');
+  const [baseUrl, setBaseUrl] = useState(current?.baseUrl ?? '');
+  const [passphrase, setPassphrase] = useState('');
+  const [isValidating, setIsValidating] = useState(false);
+  const [error, setError] = useState<ModelError | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const credentials = { apiKey: apiKey.trim(), baseUrl: baseUrl.trim() || undefined };
+    if (!credentials.apiKey) return;
+
+    setIsValidating(true);
+    setError(null);
+    try {
+      await credentialService.validate(credentials);
+      await credentialService.save(credentials, passphrase || undefined);
+      setPassphrase('');
+      onSaved?.();
+    } catch (err) {
+      setError(toModelError(err));
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const inputClassName = "w-full bg-base-bg border border-border-color rounded-lg py-2 px-3 focus:outline-none focus:ring-2 focus:ring-accent-yellow";
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="flex flex-col gap-1">
+        <label className="text-sm text-text-secondary">Gemini API Key</label>
+        <input
+          type="password"
+          value={apiKey}
+          onChange={(e) => setApiKey(e.target.value)}
+          placeholder="AIza..."
+          autoComplete="off"
+          className={inputClassName}
+        />
+        <p className="text-xs text-text-secondary">
+          Create one in <a href="https://aistudio.google.com/apikey" target="_blank" rel="noreferrer" className="text-accent-yellow hover:underline">Google AI Studio</a>. It is stored only in this browser.
+        </p>
+      </div>
+      <div className="flex flex-col gap-1">
+        <label className="text-sm text-text-secondary">Base URL (optional)</label>
+        <input
+          type="text"
+          value={baseUrl}
+          onChange={(e) => setBaseUrl(e.target.value)}
+          placeholder="https://generativelanguage.googleapis.com"
+          className={inputClassName}
+        />
+        <p className="text-xs text-text-secondary">Set this to route requests through a proxy or gateway.</p>
+      </div>
+      <div className="flex flex-col gap-1">
+        <label className="text-sm text-text-secondary">Passphrase (optional)</label>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          autoComplete="new-password"
+          className={inputClassName}
+        />
+        <p className="text-xs text-text-secondary">Encrypts the stored key. You will be asked for it each time the app starts.</p>
+      </div>
+      {error && <ErrorBubble error={error} onDismiss={() => setError(null)} />}
+      <button
+        type="submit"
+        disabled={isValidating || !apiKey.trim()}
+        className="w-full flex items-center justify-center gap-2 bg-accent-khaki text-white font-bold py-2 px-4 rounded-lg hover:bg-opacity-90 disabled:opacity-50 transition-colors"
+      >
+        {isValidating && <SpinnerIcon className="w-4 h-4" />}
+        {isValidating ? 'Validating...' : 'Validate & Save'}
+      </button>
+    </form>
+  );
+};
+
+export default ApiKeyForm;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { credentialService } from '../services/credentialService';
+import ApiKeyForm from './ApiKeyForm';
+
+const ApiKeySettings: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const hasKey = credentialService.getStatus() === 'ready';
+
+  const handleRemove = () => {
+    credentialService.clear();
+    onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-component-bg rounded-lg shadow-2xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold text-text-primary">API Key</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-border-color">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {hasKey && (
+          <p className="text-sm text-text-secondary mb-4">
+            A key is saved{credentialService.isPassphraseProtected() ? ' and protected with a passphrase' : ''}. Saving again replaces it.
+          </p>
+        )}
+
+        <ApiKeyForm onSaved={onClose} />
+
+        {hasKey && (
+          <button
+            onClick={handleRemove}
+            className="w-full mt-3 bg-base-bg border border-red-500 text-red-400 rounded-lg p-2 text-sm hover:bg-red-500/10 transition-colors"
+          >
+            Remove Key
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ApiKeySettings;
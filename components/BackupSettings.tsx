@@ -0,0 +1,139 @@
+import React, { useState, useRef } from 'react';
+import { backupService } from '../services/backupService';
+import type { BackupProgress, RestoreMode, RestoreReport } from '../types';
+
+const restoreModeLabels: Record<RestoreMode, string> = {
+  merge: 'Merge into current workspace',
+  replace: 'Replace current workspace',
+};
+
+interface BackupSettingsProps {
+  onClose: () => void;
+  // Called after sessions were written, so the history list can reload.
+  onRestored: () => void;
+}
+
+const BackupSettings: React.FC<BackupSettingsProps> = ({ onClose, onRestored }) => {
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+  const [progress, setProgress] = useState<BackupProgress | null>(null);
+  const [report, setReport] = useState<RestoreReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const isBusy = progress !== null;
+
+  const handleBackup = async () => {
+    setError(null);
+    setReport(null);
+    try {
+      await backupService.downloadBackup(setProgress);
+    } catch (e) {
+      setError(`Backup failed: ${(e as Error).message}`);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleRestore = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (restoreMode === 'replace' && !window.confirm('Replace every current session with the backup? This action cannot be undone.')) {
+      return;
+    }
+    setError(null);
+    setReport(null);
+    try {
+      setReport(await backupService.restoreBackup(file, restoreMode, setProgress));
+      onRestored();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50"
+      onClick={() => !isBusy && onClose()}
+    >
+      <div
+        className="bg-component-bg rounded-lg shadow-2xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold text-text-primary">Backup & Restore</h2>
+          <button onClick={onClose} disabled={isBusy} className="p-1 rounded-full hover:bg-border-color disabled:opacity-50">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="mb-6">
+          <h3 className="text-lg font-semibold mb-2 text-text-secondary">Backup</h3>
+          <p className="text-xs text-text-secondary mb-3">
+            Saves every session with its images and folders, plus themes, personas and provider settings, into one file. Your API key is not included.
+          </p>
+          <button
+            onClick={handleBackup}
+            disabled={isBusy}
+            className="w-full bg-accent-khaki text-white font-bold py-2 px-4 rounded-lg disabled:opacity-50 hover:bg-opacity-90 transition-colors"
+          >
+            Download Backup
+          </button>
+        </div>
+
+        <div className="mb-2">
+          <h3 className="text-lg font-semibold mb-2 text-text-secondary">Restore</h3>
+          <p className="text-xs text-text-secondary mb-3">
+            Merging keeps your sessions and settings. An archived session whose id is already used by a different session is added under a new id.
+          </p>
+          <div className="space-y-1 mb-3">
+            {(Object.keys(restoreModeLabels) as RestoreMode[]).map(mode => (
+              <label key={mode} className="flex items-center gap-2 text-sm text-text-primary cursor-pointer">
+                <input type="radio" name="restore-mode" value={mode} checked={restoreMode === mode} onChange={() => setRestoreMode(mode)} disabled={isBusy} />
+                {restoreModeLabels[mode]}
+              </label>
+            ))}
+          </div>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isBusy}
+            className="w-full bg-base-bg border border-border-color rounded-lg p-2 text-sm hover:bg-border-color disabled:opacity-50 transition-colors"
+          >
+            Choose Backup File...
+          </button>
+          <input type="file" ref={fileInputRef} onChange={handleRestore} className="hidden" accept="application/json,.json" />
+        </div>
+
+        {progress && (
+          <div className="mt-4">
+            <div className="flex justify-between text-xs text-text-secondary mb-1">
+              <span>{progress.label}</span>
+              <span>{Math.round(progress.fraction * 100)}%</span>
+            </div>
+            <div className="h-2 bg-base-bg rounded-full overflow-hidden">
+              <div className="h-full bg-accent-yellow transition-all" style={{ width: `${progress.fraction * 100}%` }} />
+            </div>
+          </div>
+        )}
+        {error && <p className="text-red-400 text-sm mt-4">{error}</p>}
+        {report && (
+          <div className="mt-4 bg-base-bg rounded-lg p-3 text-sm text-text-primary space-y-1">
+            <p>{report.added} session{report.added === 1 ? '' : 's'} restored{report.renamed > 0 && `, ${report.renamed} under a new id because of an id conflict`}.</p>
+            {report.skipped > 0 && <p>{report.skipped} already present and skipped.</p>}
+            {report.settingsRestored.length > 0 && (
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-text-secondary">Restored settings apply after a reload.</p>
+                <button onClick={() => window.location.reload()} className="text-accent-orange hover:underline flex-shrink-0">Reload now</button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BackupSettings;
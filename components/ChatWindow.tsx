@@ -1,36 +1,60 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import type { ChatMessage, ChatConversation, GeminiChatModel, MessagePart, AspectRatio, ImagenModel, GenerationEvent } from '../types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import type { AttachmentPart, ImagePart, StoredImage, ChatMessage, ChatConversation, ChatGenerationConfig, ContextSummary, GeminiChatModel, MessagePart, AspectRatio, ImagenModel, GenerationEvent, Persona, SlashCommand, ExportFormat, SearchLocation } from '../types';
 import { Author } from '../types';
 import { geminiService } from '../services/geminiService';
 import { dbService } from '../services/dbService';
+import { personaService } from '../services/personaService';
+import { contextService, CONTEXT_TOKEN_BUDGET } from '../services/contextService';
+import { getActivePath, findLatestLeaf } from '../services/messageTree';
+import { attachmentAccept, fileToBase64, formatBytes, resolveMimeType, validateAttachments } from '../services/attachments';
+import { exportService } from '../services/exportService';
+import { titleService } from '../services/titleService';
+import { syncService } from '../services/syncService';
+import { parseSlashCommand, getSlashSuggestions, unescapeSlash } from '../services/slashCommands';
+import { storeDataUrl, storeImageFile } from '../services/images';
+import { toModelError, type ModelError } from '../services/errors';
+import { usePersonas } from '../hooks/usePersonas';
+import { useFileDrop } from '../hooks/useFileDrop';
+import { useVirtualList } from '../hooks/useVirtualList';
+import { usePasteFiles } from '../hooks/usePasteFiles';
+import ErrorBubble from './ErrorBubble';
+import PersonaEditor from './PersonaEditor';
+import PersonaManager from './PersonaManager';
+import GenerationConfigFields from './GenerationConfigFields';
+import MarkdownContent from './MarkdownContent';
 import SpinnerIcon from './icons/SpinnerIcon';
 import RecallIcon from './icons/RecallIcon';
 import PaperclipIcon from './icons/PaperclipIcon';
 import SparklesIcon from './icons/SparklesIcon';
 import EditIcon from './icons/EditIcon';
-
-const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = () => {
-        const result = reader.result as string;
-        // result is "data:mime/type;base64,the-real-base64"
-        // we want just "the-real-base64"
-        resolve(result.split(',')[1]);
-      };
-      reader.onerror = (error) => reject(error);
-    });
-  };
+import StopIcon from './icons/StopIcon';
+import RegenerateIcon from './icons/RegenerateIcon';
+import ChevronLeftIcon from './icons/ChevronLeftIcon';
+import ChevronRightIcon from './icons/ChevronRightIcon';
+import DocumentIcon from './icons/DocumentIcon';
+import ExportMenu from './ExportMenu';
+import RemovedImage from './RemovedImage';
 
 interface ChatWindowProps {
   conversationId: string | null;
   onConversationCreated: (id: string) => void;
   onViewImage: (images: string[], startIndex: number) => void;
-  onEditImage: (imageUrl: string) => void;
+  onEditImage: (image: StoredImage) => void;
+  onNewConversation: () => void;
+  // Files dropped on this conversation's sidebar entry, attached once the conversation has loaded.
+  incomingFiles?: { conversationId: string; files: File[] } | null;
+  onIncomingFilesHandled?: () => void;
+  // A search result to reveal once its conversation has loaded.
+  searchTarget?: { conversationId: string; location: SearchLocation } | null;
+  onSearchTargetHandled?: () => void;
+  // Called when a generated title was stored, so the history list can show it.
+  onTitleChanged?: () => void;
 }
 
+const SEARCH_HIGHLIGHT_MS = 2500;
+const MESSAGE_HEIGHT_ESTIMATE = 120;
+
 const aspectRatios: AspectRatio[] = ["1:1", "16:9", "9:16", "4:3", "3:4"];
 const imagenModels: ImagenModel[] = ['imagen-3.0-generate-002', 'imagen-4.0-generate-001', 'imagen-4.0-ultra-generate-001', 'imagen-4.0-fast-generate-001'];
 
@@ -41,13 +65,35 @@ const imagenModelDisplayNames: Record<ImagenModel, string> = {
     'imagen-4.0-fast-generate-001': 'Imagen 4.0 Fast',
 };
 
-const ChatWindow: React.FC<ChatWindowProps> = ({ conversationId, onConversationCreated, onViewImage, onEditImage }) => {
+const ChatWindow: React.FC<ChatWindowProps> = ({ conversationId, onConversationCreated, onViewImage, onEditImage, onNewConversation, incomingFiles, onIncomingFilesHandled, searchTarget, onSearchTargetHandled, onTitleChanged }) => {
+  // Every message of every branch; only the active path is shown and sent.
   const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [activeLeafId, setActiveLeafId] = useState<string | null>(null);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [model, setModel] = useState<GeminiChatModel>('gemini-2.5-flash');
-  const [uploadedImage, setUploadedImage] = useState<{ url: string; base64: string; mimeType: string; } | null>(null);
+  const [persona, setPersona] = useState<Persona>(personaService.getDefault());
+  const [generationConfig, setGenerationConfig] = useState<ChatGenerationConfig>(personaService.getDefault().generationConfig);
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [contextSummary, setContextSummary] = useState<ContextSummary | null>(null);
+  const [contextTokens, setContextTokens] = useState<number | null>(null);
+  const [isPersonaEditorOpen, setIsPersonaEditorOpen] = useState(false);
+  const [isPersonaManagerOpen, setIsPersonaManagerOpen] = useState(false);
+  const personas = usePersonas();
+  // Files waiting to be sent with the next message. Images keep their own part type so they render inline.
+  const [attachments, setAttachments] = useState<(ImagePart | AttachmentPart)[]>([]);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [loadedConversationId, setLoadedConversationId] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
   const [showGenerationPanel, setShowGenerationPanel] = useState(false);
+  const [commandError, setCommandError] = useState<string | null>(null);
+  const [suggestionIndex, setSuggestionIndex] = useState(0);
+  // Escape hides the autocomplete until the composer text changes again.
+  const [suggestionsDismissed, setSuggestionsDismissed] = useState(false);
+  // Failures live only in component state; they are never written to the conversation.
+  const [chatError, setChatError] = useState<{ error: ModelError; retry: () => void } | null>(null);
   
   // States for image generation panel
   const [genPrompt, setGenPrompt] = useState('');
@@ -57,186 +103,484 @@ const ChatWindow: React.FC<ChatWindowProps> = ({ conversationId, onConversationC
 
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const highlightedMessageRef = useRef<HTMLDivElement>(null);
   const currentConversationIdRef = useRef<string | null>(conversationId);
+  // Set when saveMessage creates a conversation, so the resulting prop change does not reload over the live reply.
+  const createdConversationIdRef = useRef<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Another tab changed this conversation while a reply was in flight; it is reloaded once the reply is saved.
+  const hasPendingSyncRef = useRef(false);
+  const isLoadingRef = useRef(false);
   const inputRef = useRef<HTMLInputElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     currentConversationIdRef.current = conversationId;
+    if (conversationId && conversationId === createdConversationIdRef.current) {
+      createdConversationIdRef.current = null;
+      setLoadedConversationId(conversationId);
+      return;
+    }
+    // Leaving a conversation stops its in-flight reply; the partial text is saved to the conversation it belongs to.
+    abortControllerRef.current?.abort();
     const loadConversation = async () => {
       if (conversationId) {
         const convo = await dbService.getConversation(conversationId);
         if (convo && convo.type === 'chat') {
-            const migratedMessages = convo.messages.map(msg => {
-                if (msg.parts) return msg;
-                // @ts-expect-error handle old format
-                if (typeof msg.content === 'string') {
-                    // @ts-expect-error handle old format
-                    return { ...msg, parts: [{ type: 'text', text: msg.content }]};
-                }
-                return { ...msg, parts: [{ type: 'text', text: '' }]};
-            });
-            setMessages(migratedMessages as ChatMessage[]);
+            setMessages(convo.messages);
+            setActiveLeafId(convo.activeLeafId ?? null);
             setModel(convo.modelUsed);
+            const convoPersona = convo.persona ?? personaService.getDefault();
+            setPersona(convoPersona);
+            setGenerationConfig(convo.generationConfig ?? convoPersona.generationConfig);
+            setContextSummary(convo.contextSummary ?? null);
         } else {
             setMessages([]);
+            setActiveLeafId(null);
             setModel('gemini-2.5-flash');
+            setPersona(personaService.getDefault());
+            setGenerationConfig(personaService.getDefault().generationConfig);
         }
       } else {
+        const defaultPersona = personaService.getDefault();
         setMessages([{
             id: 'initial',
             author: Author.MODEL,
-            parts: [{ type: 'text', text: "Hello! I'm Gemini. How can I assist you today? You can ask me anything or generate an image!" }]
+            parts: [{ type: 'text', text: `Hello! I'm ${defaultPersona.name}. How can I assist you today? You can ask me anything or generate an image!` }],
+            parentId: null,
         }]);
-        setModel('gemini-2.5-flash');
+        setActiveLeafId(null);
+        setModel(defaultPersona.model);
+        setPersona(defaultPersona);
+        setGenerationConfig(defaultPersona.generationConfig);
       }
+      if (!conversationId) {
+        setContextSummary(null);
+      }
+      setContextTokens(null);
+      setEditingMessageId(null);
       setInput('');
-      setUploadedImage(null);
+      setAttachments([]);
+      setAttachmentError(null);
+      setCommandError(null);
       setShowGenerationPanel(false);
+      setChatError(null);
+      setLoadedConversationId(conversationId);
       inputRef.current?.focus();
     };
     loadConversation();
   }, [conversationId]);
 
+  // Picks up messages and branch switches saved by another tab. Settings being edited here are left alone.
+  const reloadMessages = async (id: string) => {
+    const convo = await dbService.getConversation(id);
+    if (convo?.type !== 'chat' || currentConversationIdRef.current !== id) return;
+    setMessages(convo.messages);
+    setActiveLeafId(convo.activeLeafId ?? null);
+    setContextSummary(convo.contextSummary ?? null);
+  };
+
+  useEffect(() => syncService.subscribe(event => {
+    const id = currentConversationIdRef.current;
+    if (event.type === 'conversationDeleted' || !id || (event.type === 'conversationChanged' && event.conversationId !== id)) return;
+    if (isLoadingRef.current) {
+      hasPendingSyncRef.current = true;
+    } else {
+      reloadMessages(id);
+    }
+  }), []);
+
+  useEffect(() => {
+    isLoadingRef.current = isLoading;
+    if (!isLoading && hasPendingSyncRef.current && currentConversationIdRef.current) {
+      hasPendingSyncRef.current = false;
+      reloadMessages(currentConversationIdRef.current);
+    }
+  }, [isLoading]);
+
+  useEffect(() => {
+    if (incomingFiles && incomingFiles.conversationId === loadedConversationId) {
+      addFiles(incomingFiles.files);
+      onIncomingFilesHandled?.();
+    }
+  }, [incomingFiles, loadedConversationId]);
+
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages, isLoading]);
+
+  // Declared after the scroll-to-bottom effect so the matched message wins the scroll on load.
+  useEffect(() => {
+    if (!searchTarget || searchTarget.conversationId !== loadedConversationId) return;
+    const { location } = searchTarget;
+    onSearchTargetHandled?.();
+    if (location.kind !== 'message' || !messages.some(msg => msg.id === location.messageId)) return;
+    // A match on another branch switches to that branch.
+    if (!getActivePath(messages, activeLeafId).some(msg => msg.id === location.messageId)) {
+      setActiveLeafId(findLatestLeaf(messages, location.messageId));
+    }
+    setHighlightedMessageId(location.messageId);
+  }, [searchTarget, loadedConversationId]);
+
   
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-        const base64 = await fileToBase64(file);
-        setUploadedImage({
-            url: URL.createObjectURL(file),
-            base64,
-            mimeType: file.type
-        });
-        setShowGenerationPanel(false); // Can't generate and upload at the same time
-    }
+    const files = Array.from(e.target.files || []);
     // Reset file input value to allow selecting the same file again
     if(e.target) e.target.value = '';
+    await addFiles(files);
   }
 
-  const saveMessage = async (message: ChatMessage) => {
-    let convoId = currentConversationIdRef.current;
+  // Shared by the file picker, drag-and-drop, paste and files dropped on the sidebar.
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+
+    const attachedBytes = attachments.reduce((sum, a) => sum + a.size, 0);
+    const error = validateAttachments(files, attachments.length, attachedBytes);
+    setAttachmentError(error);
+    if (error) return;
+
+    const parts = await Promise.all(files.map(async (file): Promise<ImagePart | AttachmentPart> => {
+        const mimeType = resolveMimeType(file);
+        if (mimeType.startsWith('image/')) {
+            return { type: 'image', ...(await storeImageFile(file, mimeType)) };
+        }
+        return { type: 'attachment', name: file.name, mimeType, base64: await fileToBase64(file), size: file.size };
+    }));
+    setAttachments(prev => [...prev, ...parts]);
+    setShowGenerationPanel(false); // Can't generate and upload at the same time
+    inputRef.current?.focus();
+  };
+
+  const { isDragging, dropProps } = useFileDrop(addFiles);
+  usePasteFiles(addFiles);
+
+  const removeAttachment = (index: number) => {
+    setAttachments(prev => prev.filter((_, i) => i !== index));
+    setAttachmentError(null);
+  };
+
+  // Replies are saved to the conversation their request started in, even if the user has since switched away.
+  const saveMessage = async (message: ChatMessage, conversationId: string | null = currentConversationIdRef.current) => {
+    let convoId = conversationId;
     if (!convoId) {
         // Find first text part for title
         const titleText = (message.parts.find(p => p.type === 'text') as {text:string} | undefined)?.text || 'New Chat';
         convoId = Date.now().toString();
         currentConversationIdRef.current = convoId;
+        createdConversationIdRef.current = convoId;
         const newConversation: ChatConversation = {
             id: convoId,
             title: titleText.substring(0, 40) + (titleText.length > 40 ? '...' : ''),
             messages: [message],
+            activeLeafId: message.id,
             createdAt: Date.now(),
             modelUsed: model,
+            generationConfig,
+            persona,
             isFavorite: false,
             type: 'chat',
         };
         await dbService.addOrUpdateConversation(newConversation);
         onConversationCreated(convoId);
     } else {
-        const existingConvo = await dbService.getConversation(convoId);
-        if (existingConvo && existingConvo.type === 'chat') {
-            existingConvo.messages.push(message);
-            await dbService.addOrUpdateConversation(existingConvo);
-        }
+        // Appended to the stored list rather than saving this tab's copy, so messages another tab added survive.
+        await dbService.updateConversationRecord(convoId, record => record.type === 'chat'
+            ? { ...record, messages: [...record.messages, message], activeLeafId: message.id }
+            : null);
     }
     return convoId;
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!input.trim() && !uploadedImage || isLoading) return;
+    if (!input.trim() && attachments.length === 0 || isLoading) return;
 
-    const userParts: MessagePart[] = [];
-    if(uploadedImage) {
-        userParts.push({ type: 'image', ...uploadedImage });
+    let command: SlashCommand | null;
+    try {
+        command = parseSlashCommand(input, { model: genModel, aspectRatio: genAspectRatio, numberOfImages: genNumImages });
+    } catch (error) {
+        setCommandError((error as Error).message);
+        return;
+    }
+    setCommandError(null);
+    if (command) {
+        setInput('');
+        await runCommand(command);
+        return;
     }
+
+    const userParts: MessagePart[] = [...attachments];
     if(input.trim()) {
-        userParts.push({ type: 'text', text: input });
+        userParts.push({ type: 'text', text: unescapeSlash(input) });
     }
 
+    setInput('');
+    setAttachments([]);
+    setAttachmentError(null);
+    await sendUserMessage(userParts, activePath.filter(m => m.id !== 'initial'));
+  };
+
+  // Sends a message after the last one in `history`. Editing passes the history before the original
+  // message, so the edit becomes its sibling instead of replacing it.
+  const sendUserMessage = async (parts: MessagePart[], history: ChatMessage[]) => {
     const userMessage: ChatMessage = {
       id: Date.now().toString(),
       author: Author.USER,
-      parts: userParts,
+      parts,
+      parentId: history[history.length - 1]?.id ?? null,
     };
-    
-    const currentMessages = messages.filter(m => m.id !== 'initial');
-    const updatedMessages = [...currentMessages, userMessage];
-    setMessages(updatedMessages);
-    setInput('');
-    setUploadedImage(null);
+    setMessages(prev => [...prev.filter(m => m.id !== 'initial'), userMessage]);
+    setActiveLeafId(userMessage.id);
     setIsLoading(true);
 
-    await saveMessage(userMessage);
+    const targetConversationId = await saveMessage(userMessage);
+    await streamModelResponse([...history, userMessage], targetConversationId);
+  };
+
+  const streamModelResponse = async (history: ChatMessage[], targetConversationId: string) => {
+    setIsLoading(true);
+    setChatError(null);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
     const modelMessageId = (Date.now() + 1).toString();
+    const parentId = history[history.length - 1].id;
     const modelMessage: ChatMessage = {
       id: modelMessageId,
       author: Author.MODEL,
       parts: [{ type: 'text', text: '' }],
+      parentId,
     };
     setMessages(prev => [...prev, modelMessage]);
+    setActiveLeafId(modelMessageId);
 
     let fullResponse = '';
-    for await (const chunk of geminiService.getChatResponseStream(updatedMessages, model)) {
-        fullResponse += chunk;
-        // Fix: Add a return type annotation to the map callback to ensure type correctness.
-        setMessages(prev => prev.map((msg): ChatMessage => msg.id === modelMessageId ? { ...msg, parts: [{ type: 'text', text: fullResponse }] } : msg));
+    let wasStopped = false;
+    try {
+        // The stored summary is read fresh, since a retry may run long after this closure was created.
+        const storedConvo = await dbService.getConversation(targetConversationId);
+        const storedSummary = storedConvo?.type === 'chat' ? storedConvo.contextSummary ?? null : null;
+        const context = await contextService.buildContext(history, storedSummary, controller.signal);
+        if (context.summary !== storedSummary) {
+            await updateConversationSettings({ contextSummary: context.summary ?? undefined }, targetConversationId);
+        }
+        if (currentConversationIdRef.current === targetConversationId) {
+            setContextSummary(context.summary);
+            setContextTokens(context.estimatedTokens);
+        }
+        const options = {
+            systemInstruction: contextService.withSummary(persona.systemInstruction, context.summary),
+            generationConfig,
+            signal: controller.signal,
+        };
+        for await (const chunk of geminiService.getChatResponseStream(context.messages, model, options)) {
+            fullResponse += chunk;
+            // Fix: Add a return type annotation to the map callback to ensure type correctness.
+            setMessages(prev => prev.map((msg): ChatMessage => msg.id === modelMessageId ? { ...msg, parts: [{ type: 'text', text: fullResponse }] } : msg));
+        }
+    } catch (error) {
+        const modelError = toModelError(error);
+        if (modelError.kind !== 'aborted') {
+            // Drop the unfinished reply; the user message is already saved, so a retry just re-runs the request.
+            // After a session switch the error belongs to a chat that is no longer shown.
+            if (currentConversationIdRef.current === targetConversationId) {
+                setMessages(prev => prev.filter(msg => msg.id !== modelMessageId));
+                setActiveLeafId(parentId);
+                setChatError({ error: modelError, retry: () => streamModelResponse(history, targetConversationId) });
+            }
+            setIsLoading(false);
+            return;
+        }
+        wasStopped = true;
+    } finally {
+        if (abortControllerRef.current === controller) {
+            abortControllerRef.current = null;
+        }
     }
     
     setIsLoading(false);
+
+    if (wasStopped && !fullResponse) {
+        if (currentConversationIdRef.current === targetConversationId) {
+            setMessages(prev => prev.filter(msg => msg.id !== modelMessageId));
+            setActiveLeafId(parentId);
+        }
+        return;
+    }
     
     // Fix: Explicitly type finalModelMessage to prevent type widening on the 'parts' property.
-    const finalModelMessage: ChatMessage = { ...modelMessage, parts: [{ type: 'text', text: fullResponse }] };
-    await saveMessage(finalModelMessage);
+    const finalModelMessage: ChatMessage = {
+        ...modelMessage,
+        parts: [{ type: 'text', text: fullResponse }],
+        ...(wasStopped && { status: 'stopped' as const }),
+    };
+    setMessages(prev => prev.map(msg => msg.id === modelMessageId ? finalModelMessage : msg));
+    await saveMessage(finalModelMessage, targetConversationId);
     inputRef.current?.focus();
+    // Not awaited: the title arrives whenever the model answers. Sessions that already have one are skipped.
+    titleService.generateTitle(targetConversationId)
+        .then(changed => changed && onTitleChanged?.())
+        .catch(error => console.error("Failed to generate a title:", error));
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const activePath = useMemo(() => getActivePath(messages, activeLeafId), [messages, activeLeafId]);
+  const virtualMessages = useVirtualList({
+    count: activePath.length,
+    getKey: index => activePath[index].id,
+    estimateSize: MESSAGE_HEIGHT_ESTIMATE,
+  });
+
+  // Only a new highlight scrolls; later renders must not pull the view back to it.
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    // The match may be outside the rendered rows, so jump near it first and centre it once it has rendered.
+    virtualMessages.scrollToIndex(activePath.findIndex(msg => msg.id === highlightedMessageId), 'center');
+    let frame = requestAnimationFrame(() => {
+      frame = requestAnimationFrame(() => highlightedMessageRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' }));
+    });
+    const timer = setTimeout(() => setHighlightedMessageId(null), SEARCH_HIGHLIGHT_MS);
+    return () => {
+      cancelAnimationFrame(frame);
+      clearTimeout(timer);
+    };
+  }, [highlightedMessageId]);
+  const childrenByParent = useMemo(() => {
+    const map = new Map<string | null, ChatMessage[]>();
+    messages.forEach(msg => {
+        const key = msg.parentId ?? null;
+        map.set(key, [...(map.get(key) || []), msg]);
+    });
+    return map;
+  }, [messages]);
+
+  const hasStarted = messages.some(m => m.id !== 'initial');
+  const summarizedThroughIndex = contextSummary ? activePath.findIndex(m => m.id === contextSummary.throughMessageId) : -1;
+
+  const startEditing = (message: ChatMessage) => {
+    setEditingMessageId(message.id);
+    setEditText(message.parts.filter(p => p.type === 'text').map(p => (p as { text: string }).text).join('\n'));
+  };
+
+  const handleEditSubmit = async (message: ChatMessage) => {
+    const index = activePath.findIndex(m => m.id === message.id);
+    // Attachments are carried over; only the text is replaced.
+    const parts: MessagePart[] = message.parts.filter(p => p.type !== 'text');
+    if (editText.trim()) {
+        parts.push({ type: 'text', text: editText });
+    }
+    if (index < 0 || parts.length === 0 || isLoading) return;
+    setEditingMessageId(null);
+    await sendUserMessage(parts, activePath.slice(0, index));
+  };
+
+  const handleRegenerate = async (message: ChatMessage) => {
+    const index = activePath.findIndex(m => m.id === message.id);
+    const targetConversationId = currentConversationIdRef.current;
+    if (index < 1 || !targetConversationId || isLoading) return;
+    await streamModelResponse(activePath.slice(0, index), targetConversationId);
+  };
+
+  const handleSelectBranch = (message: ChatMessage) => {
+    const leafId = findLatestLeaf(messages, message.id);
+    setActiveLeafId(leafId);
+    updateConversationSettings({ activeLeafId: leafId });
+  };
+
+  const updateConversationSettings = async (
+    changes: Pick<ChatConversation, 'persona' | 'generationConfig' | 'contextSummary' | 'activeLeafId'>,
+    convoId: string | null = currentConversationIdRef.current,
+  ) => {
+    if (convoId) {
+        await dbService.updateConversationRecord(convoId, record => record.type === 'chat' ? { ...record, ...changes } : null);
+    }
+  };
+
+  // Switching or editing the persona mid-chat applies from the next reply on; the model only follows before the first message.
+  // The persona's generation settings replace any tuning done in the advanced panel.
+  const applyPersona = (next: Persona) => {
+    setPersona(next);
+    setGenerationConfig(next.generationConfig);
+    if (!hasStarted) {
+        setModel(next.model);
+    }
+    updateConversationSettings({ persona: next, generationConfig: next.generationConfig });
+  };
+
+  const handleGenerationConfigChange = (config: ChatGenerationConfig) => {
+    setGenerationConfig(config);
+    updateConversationSettings({ generationConfig: config });
+  };
+
+  const handleSelectPersona = (id: string) => {
+    const selected = personas.find(p => p.id === id);
+    if (selected) applyPersona(selected);
   };
   
-  const handleGenerateImage = async () => {
-    if (!genPrompt.trim() || isLoading) return;
+  const handleGenerateImage = async (
+    prompt = genPrompt,
+    params: GenerationEvent['parameters'] = { model: genModel, aspectRatio: genAspectRatio, numberOfImages: genNumImages },
+  ) => {
+    if (!prompt.trim() || isLoading) return;
     
     setIsLoading(true);
     setShowGenerationPanel(false);
 
+    const history = activePath.filter(m => m.id !== 'initial');
     const userMessage: ChatMessage = {
         id: Date.now().toString(),
         author: Author.USER,
-        parts: [{ type: 'text', text: `Generate image: "${genPrompt}"`}]
+        parts: [{ type: 'text', text: `Generate image: "${prompt}"`}],
+        parentId: history[history.length - 1]?.id ?? null,
     };
 
     setMessages(prev => [...prev.filter(m => m.id !== 'initial'), userMessage]);
-    await saveMessage(userMessage);
+    setActiveLeafId(userMessage.id);
+    const targetConversationId = await saveMessage(userMessage);
 
-    const params: GenerationEvent['parameters'] = { model: genModel, aspectRatio: genAspectRatio, numberOfImages: genNumImages };
-    const result = await geminiService.generateImage(genPrompt, params);
+    setGenPrompt('');
+    await runImageGeneration(prompt, params, targetConversationId, userMessage.id);
+  };
 
-    if (result) {
+  const runImageGeneration = async (prompt: string, params: GenerationEvent['parameters'], targetConversationId: string, parentId: string) => {
+    setIsLoading(true);
+    setChatError(null);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+        const result = await geminiService.generateImage(prompt, params, controller.signal);
         const modelMessage: ChatMessage = {
             id: (Date.now() + 1).toString(),
             author: Author.MODEL,
             parts: [{
                 type: 'imageGenerationResult',
-                images: result.map(url => ({ url })),
-                prompt: genPrompt,
+                images: await Promise.all(result.map(storeDataUrl)),
+                prompt,
                 parameters: params,
-            }]
-        };
-        setMessages(prev => [...prev, modelMessage]);
-        await saveMessage(modelMessage);
-    } else {
-        const errorMessage: ChatMessage = {
-            id: (Date.now() + 1).toString(),
-            author: Author.MODEL,
-            parts: [{ type: 'text', text: "Sorry, I failed to generate the image. Please try again." }]
+            }],
+            parentId,
         };
-        setMessages(prev => [...prev, errorMessage]);
-        await saveMessage(errorMessage);
+        // After a session switch the images are still saved, just not added to the chat being shown.
+        if (currentConversationIdRef.current === targetConversationId) {
+            setMessages(prev => [...prev, modelMessage]);
+            setActiveLeafId(modelMessage.id);
+        }
+        await saveMessage(modelMessage, targetConversationId);
+    } catch (error) {
+        const modelError = toModelError(error);
+        if (modelError.kind !== 'aborted' && currentConversationIdRef.current === targetConversationId) {
+            setChatError({ error: modelError, retry: () => runImageGeneration(prompt, params, targetConversationId, parentId) });
+        }
+    } finally {
+        if (abortControllerRef.current === controller) {
+            abortControllerRef.current = null;
+        }
     }
 
-    setGenPrompt('');
     setIsLoading(false);
     inputRef.current?.focus();
   };
@@ -247,15 +591,156 @@ const ChatWindow: React.FC<ChatWindowProps> = ({ conversationId, onConversationC
     setGenAspectRatio(params.aspectRatio);
     setGenNumImages(params.numberOfImages);
     setShowGenerationPanel(true);
-    setUploadedImage(null);
+    setAttachments([]);
+  };
+
+  // Newest first: the last image a reply generated, or else the last image the user attached.
+  const findLastImage = (): StoredImage | null => {
+    for (const msg of [...activePath].reverse()) {
+        for (const part of [...msg.parts].reverse()) {
+            if (part.type === 'imageGenerationResult' && part.images.length > 0) return part.images[part.images.length - 1];
+            if (part.type === 'image') return part;
+        }
+    }
+    return null;
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    const convo = currentConversationIdRef.current && await dbService.getConversation(currentConversationIdRef.current);
+    if (!convo) {
+        setCommandError('Nothing to export yet. Send a message first.');
+        return;
+    }
+    await exportService.exportConversation(convo, format);
+  };
+
+  const runCommand = async (command: SlashCommand) => {
+    switch (command.name) {
+        case 'imagine':
+            setAttachments([]);
+            await handleGenerateImage(command.prompt, command.parameters);
+            break;
+        case 'edit': {
+            const image = findLastImage();
+            if (image) onEditImage(image);
+            else setCommandError('There is no image in this chat to edit.');
+            break;
+        }
+        case 'model':
+            if (hasStarted) setCommandError('The model can only be changed before the first message.');
+            else setModel(command.model);
+            break;
+        case 'persona': {
+            if (!command.query) {
+                setIsPersonaEditorOpen(true);
+                break;
+            }
+            const query = command.query.toLowerCase();
+            const match = personas.find(p => p.name.toLowerCase() === query) ?? personas.find(p => p.name.toLowerCase().startsWith(query));
+            if (match) applyPersona(match);
+            else setCommandError(`No persona named "${command.query}".`);
+            break;
+        }
+        case 'clear':
+            onNewConversation();
+            break;
+        case 'export':
+            await handleExport(command.format);
+            break;
+    }
+  };
+
+  const suggestions = useMemo(
+    () => (suggestionsDismissed ? [] : getSlashSuggestions(input, personas.map(p => p.name))),
+    [input, personas, suggestionsDismissed],
+  );
+
+  const applySuggestion = (completion: string) => {
+    setInput(completion);
+    setSuggestionIndex(0);
+    inputRef.current?.focus();
+  };
+
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setSuggestionIndex(i => (i + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Tab' || e.key === 'Enter') {
+        e.preventDefault();
+        applySuggestion(suggestions[Math.min(suggestionIndex, suggestions.length - 1)].completion);
+    } else if (e.key === 'Escape') {
+        e.preventDefault();
+        setSuggestionsDismissed(true);
+    }
+  };
+
+  // The version switcher shows whenever a message has siblings; edit and regenerate appear on hover.
+  const renderMessageActions = (msg: ChatMessage) => {
+    if (msg.id === 'initial' || editingMessageId === msg.id) return null;
+    const siblings = childrenByParent.get(msg.parentId ?? null) || [msg];
+    const position = siblings.findIndex(s => s.id === msg.id);
+    const canRegenerate = msg.author === Author.MODEL && msg.parts.every(p => p.type === 'text');
+    const actionClassName = "p-1 rounded-full hover:bg-border-color hover:text-text-primary disabled:opacity-50 transition-colors";
+    return (
+        <div className="flex items-center gap-1 mt-1 text-xs text-text-secondary">
+            {siblings.length > 1 && (
+                <>
+                    <button onClick={() => handleSelectBranch(siblings[position - 1])} disabled={isLoading || position === 0} className={actionClassName} aria-label="Previous version">
+                        <ChevronLeftIcon className="w-4 h-4" />
+                    </button>
+                    <span>{position + 1}/{siblings.length}</span>
+                    <button onClick={() => handleSelectBranch(siblings[position + 1])} disabled={isLoading || position === siblings.length - 1} className={actionClassName} aria-label="Next version">
+                        <ChevronRightIcon className="w-4 h-4" />
+                    </button>
+                </>
+            )}
+            <div className="flex gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                {msg.author === Author.USER && (
+                    <button onClick={() => startEditing(msg)} disabled={isLoading} className={actionClassName} aria-label="Edit message" title="Edit and resend">
+                        <EditIcon className="w-4 h-4" />
+                    </button>
+                )}
+                {canRegenerate && (
+                    <button onClick={() => handleRegenerate(msg)} disabled={isLoading} className={actionClassName} aria-label="Regenerate reply" title="Regenerate">
+                        <RegenerateIcon className="w-4 h-4" />
+                    </button>
+                )}
+            </div>
+        </div>
+    );
   };
 
-  const renderMessagePart = (part: MessagePart, index: number) => {
+  // Model text is rendered as markdown; user text is shown exactly as typed.
+  const renderMessagePart = (part: MessagePart, index: number, author: Author) => {
     switch(part.type) {
         case 'text':
-            return <p key={index} className="whitespace-pre-wrap">{part.text}</p>
+            return author === Author.MODEL
+                ? <MarkdownContent key={index} text={part.text} />
+                : <p key={index} className="whitespace-pre-wrap">{part.text}</p>
         case 'image':
-            return <img key={index} src={part.url} alt="User upload" className="max-w-xs rounded-lg mt-2 cursor-pointer" onClick={() => onViewImage([part.url], 0)} />
+            return part.url
+                ? <img key={index} src={part.url} alt="User upload" className="max-w-xs rounded-lg mt-2 cursor-pointer" onClick={() => onViewImage([part.url], 0)} />
+                : <RemovedImage key={index} className="w-48 h-32 mt-2" />
+        case 'attachment':
+            return (
+                <div key={index} className="mt-2">
+                    <a
+                        href={`data:${part.mimeType};base64,${part.base64}`}
+                        download={part.name}
+                        className="inline-flex items-center gap-2 bg-black/10 rounded-lg py-1 px-2 text-sm hover:bg-black/20 transition-colors"
+                        title={`Download ${part.name}`}
+                    >
+                        <DocumentIcon className="w-4 h-4 flex-shrink-0" />
+                        <span className="truncate max-w-[16rem]">{part.name}</span>
+                        <span className="opacity-70">{formatBytes(part.size)}</span>
+                    </a>
+                    {part.mimeType.startsWith('audio/') && (
+                        <audio controls src={`data:${part.mimeType};base64,${part.base64}`} className="mt-2 max-w-xs" />
+                    )}
+                </div>
+            )
         case 'imageGenerationResult':
             return (
                 <div key={index} className="flex flex-col gap-2 mt-2">
@@ -273,7 +758,9 @@ const ChatWindow: React.FC<ChatWindowProps> = ({ conversationId, onConversationC
                         </div>
                     )}
                     <div className="grid grid-cols-2 gap-2">
-                        {part.images.map((image, imgIndex) => (
+                        {part.images.map((image, imgIndex) => !image.url ? (
+                            <RemovedImage key={imgIndex} className="aspect-square" />
+                        ) : (
                             <div key={imgIndex} className="relative group aspect-square">
                                 <img src={image.url} alt={`Generated image ${imgIndex + 1}`} className="w-full h-full object-contain rounded-md bg-base-bg cursor-pointer" onClick={() => onViewImage(part.images.map(i => i.url), imgIndex)} />
                                 <div
@@ -283,7 +770,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({ conversationId, onConversationC
                                     <button 
                                         onClick={(e) => {
                                             e.stopPropagation();
-                                            onEditImage(image.url);
+                                            onEditImage(image);
                                         }} 
                                         className="text-white font-semibold hover:underline flex items-center gap-1"
                                     >
@@ -301,45 +788,135 @@ const ChatWindow: React.FC<ChatWindowProps> = ({ conversationId, onConversationC
   }
 
   return (
-    <div className="flex flex-col h-full bg-component-bg rounded-lg overflow-hidden border border-border-color">
+    <div className="relative flex flex-col h-full bg-component-bg rounded-lg overflow-hidden border border-border-color" {...dropProps}>
+      {isDragging && (
+        <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/60 border-4 border-dashed border-accent-yellow rounded-lg pointer-events-none">
+          <p className="text-xl font-semibold text-white">Drop files to attach them</p>
+        </div>
+      )}
       <div className="p-4 border-b border-border-color flex items-center gap-4">
         <label htmlFor="model-select" className="font-semibold text-text-secondary">Model:</label>
         <select 
           id="model-select"
           value={model}
           onChange={e => setModel(e.target.value as GeminiChatModel)}
-          disabled={messages.length > 1 && messages.some(m => m.id !== 'initial') || showGenerationPanel}
+          disabled={hasStarted || showGenerationPanel}
           className="bg-base-bg border border-border-color rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-accent-yellow disabled:opacity-70"
         >
           <option value="gemini-2.5-flash">Gemini 2.5 Flash</option>
           <option value="gemini-2.5-pro">Gemini 2.5 Pro</option>
         </select>
+        <label htmlFor="persona-select" className="font-semibold text-text-secondary">Persona:</label>
+        <select
+          id="persona-select"
+          value={persona.id}
+          onChange={e => handleSelectPersona(e.target.value)}
+          className="bg-base-bg border border-border-color rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-accent-yellow"
+        >
+          {personas.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          {!personas.some(p => p.id === persona.id) && <option value={persona.id}>{persona.name}</option>}
+        </select>
+        <button
+          onClick={() => setIsPersonaEditorOpen(true)}
+          className="p-2 rounded-full hover:bg-border-color transition-colors"
+          aria-label="Edit the persona for this chat"
+          title="Edit the persona for this chat"
+        >
+          <EditIcon className="w-5 h-5" />
+        </button>
+        <button
+          onClick={() => setIsPersonaManagerOpen(true)}
+          className="text-sm text-text-secondary hover:text-text-primary transition-colors"
+        >
+          Manage personas
+        </button>
+        {contextTokens !== null && (
+          <span className="ml-auto text-xs text-text-secondary" title="Estimated tokens sent with the last request">
+            ~{(contextTokens / 1000).toFixed(1)}k / {CONTEXT_TOKEN_BUDGET / 1000}k tokens in context
+          </span>
+        )}
+        <button
+          onClick={() => setShowAdvanced(!showAdvanced)}
+          className={`${contextTokens === null ? 'ml-auto' : ''} text-sm transition-colors ${showAdvanced ? 'text-accent-yellow' : 'text-text-secondary hover:text-text-primary'}`}
+          aria-expanded={showAdvanced}
+        >
+          Advanced
+        </button>
+        <ExportMenu conversationId={conversationId} />
       </div>
-      <div className="flex-1 p-6 space-y-4 overflow-y-auto">
-        {messages.map((msg) => (
+      {showAdvanced && (
+        <div className="p-4 border-b border-border-color">
+          <GenerationConfigFields config={generationConfig} onChange={handleGenerationConfigChange} />
+        </div>
+      )}
+      <div ref={virtualMessages.scrollRef} className="flex-1 p-6 overflow-y-auto">
+        <div style={{ height: virtualMessages.paddingTop }} />
+        {virtualMessages.indexes.map(index => {
+          const msg = activePath[index];
+          return (
+          <div key={msg.id} ref={virtualMessages.measureRef(msg.id)} className="pb-4">
           <div
-            key={msg.id}
-            className={`flex gap-3 ${
+            ref={msg.id === highlightedMessageId ? highlightedMessageRef : undefined}
+            className={`flex gap-3 rounded-lg transition-shadow ${
               msg.author === Author.USER ? 'justify-end' : 'justify-start'
-            }`}
+            } ${index <= summarizedThroughIndex ? 'opacity-50' : ''} ${msg.id === highlightedMessageId ? 'ring-2 ring-accent-yellow ring-offset-4 ring-offset-component-bg' : ''}`}
+            title={index <= summarizedThroughIndex ? 'Summarized: the model no longer sees this message in full' : undefined}
           >
             {msg.author === Author.MODEL && (
               <div className="w-8 h-8 rounded-full bg-accent-khaki flex-shrink-0"></div>
             )}
             
             {msg.author === Author.USER ? (
-                <div className="relative group">
-                    <div className="max-w-xl p-3 rounded-lg shadow-md bg-accent-yellow text-gray-900">
-                        {msg.parts.map(renderMessagePart)}
-                    </div>
+                <div className="relative group flex flex-col items-end">
+                    {editingMessageId === msg.id ? (
+                        <form onSubmit={(e) => { e.preventDefault(); handleEditSubmit(msg); }} className="w-[36rem] max-w-full flex flex-col gap-2">
+                            <textarea
+                                value={editText}
+                                onChange={(e) => setEditText(e.target.value)}
+                                autoFocus
+                                className="w-full h-24 bg-base-bg border border-border-color rounded-lg p-2 resize-y focus:outline-none focus:ring-2 focus:ring-accent-yellow"
+                            />
+                            <div className="flex justify-end gap-2">
+                                <button type="button" onClick={() => setEditingMessageId(null)} className="bg-border-color text-text-primary text-sm rounded-lg py-1 px-3 hover:bg-opacity-80 transition-colors">Cancel</button>
+                                <button type="submit" disabled={isLoading} className="bg-accent-khaki text-white text-sm font-semibold rounded-lg py-1 px-3 disabled:opacity-50 hover:bg-opacity-90 transition-colors">Save & Send</button>
+                            </div>
+                        </form>
+                    ) : (
+                        <div className="max-w-xl p-3 rounded-lg shadow-md bg-accent-yellow text-gray-900">
+                            {msg.parts.map((part, i) => renderMessagePart(part, i, msg.author))}
+                        </div>
+                    )}
+                    {renderMessageActions(msg)}
                 </div>
             ) : (
-                <div className="max-w-xl p-3 rounded-lg shadow-md bg-base-bg text-text-primary">
-                    {msg.parts.map(renderMessagePart)}
+                <div className="group flex flex-col items-start">
+                    <div className="max-w-xl p-3 rounded-lg shadow-md bg-base-bg text-text-primary">
+                        {msg.parts.map((part, i) => renderMessagePart(part, i, msg.author))}
+                        {msg.status === 'stopped' && (
+                            <p className="text-xs italic text-text-secondary mt-2">Stopped</p>
+                        )}
+                    </div>
+                    {renderMessageActions(msg)}
                 </div>
             )}
           </div>
-        ))}
+          {index === summarizedThroughIndex && contextSummary && (
+            <details className="mt-4 text-xs text-text-secondary border-y border-dashed border-border-color py-2">
+              <summary className="cursor-pointer text-center">Messages above are summarized. Only the summary and the messages below are in context.</summary>
+              <p className="whitespace-pre-wrap mt-2">{contextSummary.text}</p>
+            </details>
+          )}
+          </div>
+          );
+        })}
+        <div style={{ height: virtualMessages.paddingBottom }} />
+        <div className="space-y-4">
+        {chatError && !isLoading && (
+          <div className="flex justify-start gap-3">
+            <div className="w-8 h-8 rounded-full bg-red-500 flex-shrink-0"></div>
+            <ErrorBubble error={chatError.error} onRetry={chatError.retry} onDismiss={() => setChatError(null)} />
+          </div>
+        )}
         {isLoading && (
           <div className="flex justify-start gap-3">
             <div className="w-8 h-8 rounded-full bg-accent-khaki flex-shrink-0"></div>
@@ -348,6 +925,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({ conversationId, onConversationC
             </div>
           </div>
         )}
+        </div>
         <div ref={messagesEndRef} />
       </div>
       <div className="p-4 border-t border-border-color">
@@ -366,46 +944,119 @@ const ChatWindow: React.FC<ChatWindowProps> = ({ conversationId, onConversationC
                         <input type="number" min="1" max="4" value={genNumImages} onChange={e => setGenNumImages(parseInt(e.target.value, 10))} className="w-full bg-component-bg border border-border-color rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-accent-yellow"/>
                     </div>
                     <div className="flex gap-2">
-                        <button onClick={handleGenerateImage} disabled={!genPrompt.trim() || isLoading} className="flex-1 bg-accent-khaki text-white rounded-lg p-2 disabled:opacity-50 hover:bg-opacity-90 transition-colors">Generate</button>
+                        <button onClick={() => handleGenerateImage()} disabled={!genPrompt.trim() || isLoading} className="flex-1 bg-accent-khaki text-white rounded-lg p-2 disabled:opacity-50 hover:bg-opacity-90 transition-colors">Generate</button>
                         <button onClick={() => setShowGenerationPanel(false)} className="bg-border-color text-text-primary rounded-lg p-2 hover:bg-opacity-80 transition-colors">Cancel</button>
                     </div>
                 </div>
             </div>
         ) : (
             <>
-                {uploadedImage && (
-                    <div className="relative mb-2 w-24 h-24">
-                        <img src={uploadedImage.url} alt="upload preview" className="w-full h-full object-cover rounded-lg" />
-                        <button onClick={() => setUploadedImage(null)} className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full w-6 h-6 flex items-center justify-center">&times;</button>
+                {attachments.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mb-2">
+                        {attachments.map((attachment, index) => (
+                            <div key={index} className="flex items-center gap-2 bg-base-bg border border-border-color rounded-full py-1 pl-1 pr-2 text-sm max-w-[16rem]">
+                                {attachment.type === 'image'
+                                    ? <img src={attachment.url} alt="upload preview" className="w-7 h-7 object-cover rounded-full flex-shrink-0" />
+                                    : <DocumentIcon className="w-5 h-5 ml-1 flex-shrink-0 text-text-secondary" />}
+                                <span className="truncate">{attachment.type === 'image' ? 'Image' : attachment.name}</span>
+                                {attachment.type === 'attachment' && <span className="text-xs text-text-secondary flex-shrink-0">{formatBytes(attachment.size)}</span>}
+                                <button onClick={() => removeAttachment(index)} className="text-text-secondary hover:text-red-400 flex-shrink-0" aria-label="Remove attachment">&times;</button>
+                            </div>
+                        ))}
                     </div>
                 )}
-                <form onSubmit={handleSubmit} className="flex items-center gap-3">
-                <input type="file" ref={fileInputRef} onChange={handleFileChange} className="hidden" accept="image/*" />
-                <button type="button" onClick={() => fileInputRef.current?.click()} className="p-2 rounded-full hover:bg-border-color transition-colors" aria-label="Attach file"><PaperclipIcon /></button>
-                <button type="button" onClick={() => { setShowGenerationPanel(true); setUploadedImage(null); }} className="p-2 rounded-full hover:bg-border-color transition-colors" aria-label="Generate image"><SparklesIcon /></button>
+                {attachmentError && <p className="text-red-400 text-sm mb-2">{attachmentError}</p>}
+                {commandError && <p className="text-red-400 text-sm mb-2">{commandError}</p>}
+                <form onSubmit={handleSubmit} className="relative flex items-center gap-3">
+                {suggestions.length > 0 && (
+                    <ul className="absolute bottom-full left-0 right-0 mb-2 bg-component-bg border border-border-color rounded-lg shadow-2xl z-30 py-1 max-h-64 overflow-y-auto" role="listbox">
+                        {suggestions.map((suggestion, index) => (
+                            <li
+                                key={suggestion.completion}
+                                role="option"
+                                aria-selected={index === suggestionIndex}
+                                onMouseDown={(e) => {
+                                    e.preventDefault();
+                                    applySuggestion(suggestion.completion);
+                                }}
+                                className={`flex justify-between gap-4 px-3 py-2 text-sm cursor-pointer ${index === suggestionIndex ? 'bg-accent-yellow/20' : 'hover:bg-base-bg'}`}
+                            >
+                                <span className="font-mono text-text-primary">{suggestion.label}</span>
+                                <span className="text-text-secondary truncate">{suggestion.description}</span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                <input type="file" ref={fileInputRef} onChange={handleFileChange} className="hidden" accept={attachmentAccept} multiple />
+                <button type="button" onClick={() => fileInputRef.current?.click()} className="p-2 rounded-full hover:bg-border-color transition-colors" aria-label="Attach files"><PaperclipIcon /></button>
+                <button type="button" onClick={() => { setShowGenerationPanel(true); setAttachments([]); }} className="p-2 rounded-full hover:bg-border-color transition-colors" aria-label="Generate image"><SparklesIcon /></button>
                 <input
                     ref={inputRef}
                     type="text"
                     value={input}
-                    onChange={(e) => setInput(e.target.value)}
-                    placeholder="Type your message..."
+                    onChange={(e) => {
+                        setInput(e.target.value);
+                        setSuggestionIndex(0);
+                        setSuggestionsDismissed(false);
+                        setCommandError(null);
+                    }}
+                    onKeyDown={handleInputKeyDown}
+                    placeholder="Type your message, or / for commands..."
                     className="flex-1 bg-base-bg border border-border-color rounded-full py-2 px-4 focus:outline-none focus:ring-2 focus:ring-accent-yellow"
                     disabled={isLoading}
                 />
-                <button
-                    type="submit"
-                    className="bg-accent-khaki text-white rounded-full p-2 disabled:opacity-50 hover:bg-opacity-90 transition-colors"
-                    disabled={isLoading || (!input.trim() && !uploadedImage)}
-                    aria-label="Send message"
-                >
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" viewBox="0 0 20 20" fill="currentColor">
-                    <path d="M10.894 2.553a1 1 0 00-1.788 0l-7 14a1 1 0 001.169 1.409l5-1.429A1 1 0 009 15.571V11a1 1 0 112 0v4.571a1 1 0 00.725.962l5 1.428a1 1 0 001.17-1.408l-7-14z" />
-                    </svg>
-                </button>
+                {isLoading ? (
+                    <button
+                        type="button"
+                        onClick={handleStop}
+                        className="bg-red-500 text-white rounded-full p-2 hover:bg-opacity-90 transition-colors"
+                        aria-label="Stop generating"
+                        title="Stop generating"
+                    >
+                        <StopIcon />
+                    </button>
+                ) : (
+                    <button
+                        type="submit"
+                        className="bg-accent-khaki text-white rounded-full p-2 disabled:opacity-50 hover:bg-opacity-90 transition-colors"
+                        disabled={!input.trim() && attachments.length === 0}
+                        aria-label="Send message"
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" viewBox="0 0 20 20" fill="currentColor">
+                        <path d="M10.894 2.553a1 1 0 00-1.788 0l-7 14a1 1 0 001.169 1.409l5-1.429A1 1 0 009 15.571V11a1 1 0 112 0v4.571a1 1 0 00.725.962l5 1.428a1 1 0 001.17-1.408l-7-14z" />
+                        </svg>
+                    </button>
+                )}
                 </form>
             </>
         )}
       </div>
+      {isPersonaEditorOpen && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50"
+          onClick={() => setIsPersonaEditorOpen(false)}
+        >
+          <div
+            className="bg-component-bg rounded-lg shadow-2xl p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h2 className="text-2xl font-bold text-text-primary mb-4">Persona for This Chat</h2>
+            <PersonaEditor
+              persona={persona}
+              saveLabel="Apply to Chat"
+              isModelLocked={hasStarted}
+              onSave={(next) => {
+                applyPersona(next);
+                setIsPersonaEditorOpen(false);
+              }}
+              onCancel={() => setIsPersonaEditorOpen(false)}
+            />
+          </div>
+        </div>
+      )}
+      {isPersonaManagerOpen && (
+        <PersonaManager onClose={() => setIsPersonaManagerOpen(false)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,34 @@
+import React from 'react';
+import { modelErrorTitles, type ModelError } from '../services/errors';
+
+interface ErrorBubbleProps {
+  error: ModelError;
+  onRetry?: () => void;
+  onDismiss?: () => void;
+}
+
+const ErrorBubble: React.FC<ErrorBubbleProps> = ({ error, onRetry, onDismiss }) => (
+  <div role="alert" className="max-w-xl p-3 rounded-lg shadow-md border border-red-500 bg-red-500/10 text-text-primary">
+    <p className="font-semibold text-red-400">{modelErrorTitles[error.kind]}</p>
+    {error.kind === 'safety' && error.safetyCategory && (
+      <p className="text-xs text-text-secondary mt-1">Category: {error.safetyCategory}</p>
+    )}
+    <p className="text-sm text-text-secondary mt-1 break-words">{error.message}</p>
+    {(onRetry || onDismiss) && (
+      <div className="flex gap-2 mt-3">
+        {onRetry && (
+          <button onClick={onRetry} className="bg-accent-khaki text-white text-sm font-semibold rounded-lg py-1 px-3 hover:bg-opacity-90 transition-colors">
+            Retry
+          </button>
+        )}
+        {onDismiss && (
+          <button onClick={onDismiss} className="bg-border-color text-text-primary text-sm rounded-lg py-1 px-3 hover:bg-opacity-80 transition-colors">
+            Dismiss
+          </button>
+        )}
+      </div>
+    )}
+  </div>
+);
+
+export default ErrorBubble;
@@ -0,0 +1,80 @@
+import React, { useState, useRef, useEffect } from 'react';
+import type { ExportFormat } from '../types';
+import { dbService } from '../services/dbService';
+import { exportService } from '../services/exportService';
+import DownloadIcon from './icons/DownloadIcon';
+import SpinnerIcon from './icons/SpinnerIcon';
+
+const formatLabels: Record<ExportFormat, string> = {
+  markdown: 'Markdown (.md)',
+  html: 'HTML (.html)',
+  json: 'JSON (.json)',
+  pdf: 'PDF (print)',
+};
+
+interface ExportMenuProps {
+  // Null while the session has not been saved yet; the button is disabled until then.
+  conversationId: string | null;
+  className?: string;
+  iconClassName?: string;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ conversationId, className = '', iconClassName = 'w-5 h-5' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsOpen(false);
+    if (!conversationId) return;
+    setIsExporting(true);
+    try {
+      const convo = await dbService.getConversation(conversationId);
+      if (convo) await exportService.exportConversation(convo, format);
+    } catch (error) {
+      console.error("Failed to export conversation:", error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    // Clicks stay inside the menu so it can sit on a clickable row such as a sidebar entry.
+    <div ref={menuRef} className={`relative ${className}`} onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={!conversationId || isExporting}
+        className="p-1 rounded-full text-text-secondary hover:text-text-primary hover:bg-border-color disabled:opacity-50 transition-colors"
+        aria-label="Export session"
+        title="Export session"
+        aria-expanded={isOpen}
+      >
+        {isExporting ? <SpinnerIcon className={iconClassName} /> : <DownloadIcon className={iconClassName} />}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-1 w-44 bg-component-bg border border-border-color rounded-lg shadow-2xl z-40 py-1">
+          {(Object.keys(formatLabels) as ExportFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="block w-full text-left px-3 py-2 text-sm text-text-primary hover:bg-base-bg"
+            >
+              {formatLabels[format]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
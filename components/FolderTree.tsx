@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import type { Folder } from '../types';
+import { CONVERSATION_DRAG_TYPE, FOLDER_DRAG_TYPE, canMoveFolder, getChildFolders, getFolderSubtree } from '../services/folders';
+import FolderIcon from './icons/FolderIcon';
+import FolderPlusIcon from './icons/FolderPlusIcon';
+import EditIcon from './icons/EditIcon';
+import TrashIcon from './icons/TrashIcon';
+
+// Stands for "no folder" as a drop target; folder ids are timestamps, so it cannot clash.
+const ROOT_ID = 'root';
+
+interface FolderTreeProps {
+  folders: Folder[];
+  // Sessions directly in each folder; the tree adds up subfolders itself.
+  counts: Record<string, number>;
+  totalCount: number;
+  selectedFolderId: string | null;
+  onSelectFolder: (id: string | null) => void;
+  onCreateFolder: (parentId: string | null) => void;
+  onRenameFolder: (folder: Folder) => void;
+  onDeleteFolder: (folder: Folder) => void;
+  onMoveFolder: (id: string, parentId: string | null) => void;
+  onMoveConversation: (id: string, folderId: string | null) => void;
+}
+
+const isMoveDrag = (dataTransfer: DataTransfer): boolean =>
+  dataTransfer.types.includes(CONVERSATION_DRAG_TYPE) || dataTransfer.types.includes(FOLDER_DRAG_TYPE);
+
+const FolderTree: React.FC<FolderTreeProps> = ({
+  folders,
+  counts,
+  totalCount,
+  selectedFolderId,
+  onSelectFolder,
+  onCreateFolder,
+  onRenameFolder,
+  onDeleteFolder,
+  onMoveFolder,
+  onMoveConversation,
+}) => {
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  const toggleCollapsed = (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    setCollapsedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleDragOver = (e: React.DragEvent, targetId: string) => {
+    if (!isMoveDrag(e.dataTransfer)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setDropTargetId(targetId);
+  };
+
+  const handleDrop = (e: React.DragEvent, targetId: string) => {
+    if (!isMoveDrag(e.dataTransfer)) return;
+    e.preventDefault();
+    setDropTargetId(null);
+    const parentId = targetId === ROOT_ID ? null : targetId;
+    const folderId = e.dataTransfer.getData(FOLDER_DRAG_TYPE);
+    const conversationId = e.dataTransfer.getData(CONVERSATION_DRAG_TYPE);
+    if (folderId && canMoveFolder(folders, folderId, parentId)) onMoveFolder(folderId, parentId);
+    if (conversationId) onMoveConversation(conversationId, parentId);
+  };
+
+  const dropProps = (targetId: string) => ({
+    onDragOver: (e: React.DragEvent) => handleDragOver(e, targetId),
+    onDragLeave: () => setDropTargetId(prev => (prev === targetId ? null : prev)),
+    onDrop: (e: React.DragEvent) => handleDrop(e, targetId),
+  });
+
+  const rowClass = (targetId: string, isSelected: boolean) =>
+    `group flex items-center gap-1 py-1 pr-2 rounded-md cursor-pointer text-sm ${
+      dropTargetId === targetId
+        ? 'bg-accent-yellow/30 ring-2 ring-inset ring-accent-yellow'
+        : isSelected
+        ? 'bg-accent-yellow/20 text-text-primary'
+        : 'text-text-secondary hover:bg-base-bg'
+    }`;
+
+  const renderFolder = (folder: Folder, depth: number): React.ReactNode => {
+    const children = getChildFolders(folders, folder.id);
+    const isCollapsed = collapsedIds.has(folder.id);
+    const count = getFolderSubtree(folders, folder.id).reduce((sum, id) => sum + (counts[id] ?? 0), 0);
+    return (
+      <React.Fragment key={folder.id}>
+        <div
+          draggable
+          onDragStart={(e) => {
+            e.dataTransfer.setData(FOLDER_DRAG_TYPE, folder.id);
+            e.dataTransfer.effectAllowed = 'move';
+          }}
+          {...dropProps(folder.id)}
+          onClick={() => onSelectFolder(folder.id)}
+          className={rowClass(folder.id, selectedFolderId === folder.id)}
+          style={{ paddingLeft: `${0.25 + depth * 1}rem` }}
+        >
+          <button
+            onClick={(e) => toggleCollapsed(e, folder.id)}
+            className={`w-4 text-xs flex-shrink-0 ${children.length === 0 ? 'invisible' : ''}`}
+            aria-label={isCollapsed ? 'Expand folder' : 'Collapse folder'}
+          >
+            {isCollapsed ? '▸' : '▾'}
+          </button>
+          <FolderIcon className="w-4 h-4 flex-shrink-0" />
+          <span className="truncate flex-grow">{folder.name}</span>
+          <div className="hidden group-hover:flex items-center gap-1 flex-shrink-0">
+            <button onClick={(e) => { e.stopPropagation(); onCreateFolder(folder.id); }} className="hover:text-text-primary" aria-label="New subfolder" title="New subfolder">
+              <FolderPlusIcon className="w-4 h-4" />
+            </button>
+            <button onClick={(e) => { e.stopPropagation(); onRenameFolder(folder); }} className="hover:text-text-primary" aria-label="Rename folder" title="Rename folder">
+              <EditIcon className="w-4 h-4" />
+            </button>
+            <button onClick={(e) => { e.stopPropagation(); onDeleteFolder(folder); }} className="hover:text-red-400" aria-label="Delete folder" title="Delete folder">
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </div>
+          <span className="text-xs text-text-secondary flex-shrink-0 group-hover:hidden">{count}</span>
+        </div>
+        {!isCollapsed && children.map(child => renderFolder(child, depth + 1))}
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <div className="space-y-0.5">
+      <div {...dropProps(ROOT_ID)} onClick={() => onSelectFolder(null)} className={rowClass(ROOT_ID, selectedFolderId === null)} style={{ paddingLeft: '0.25rem' }}>
+        <span className="w-4 flex-shrink-0" />
+        <span className="truncate flex-grow font-semibold">All sessions</span>
+        <button onClick={(e) => { e.stopPropagation(); onCreateFolder(null); }} className="hidden group-hover:block hover:text-text-primary flex-shrink-0" aria-label="New folder" title="New folder">
+          <FolderPlusIcon className="w-4 h-4" />
+        </button>
+        <span className="text-xs text-text-secondary flex-shrink-0 group-hover:hidden">{totalCount}</span>
+      </div>
+      {getChildFolders(folders, null).map(folder => renderFolder(folder, 1))}
+    </div>
+  );
+};
+
+export default FolderTree;
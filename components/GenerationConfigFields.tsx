@@ -0,0 +1,63 @@
+import React from 'react';
+import type { ChatGenerationConfig } from '../types';
+
+interface GenerationConfigFieldsProps {
+  config: ChatGenerationConfig;
+  onChange: (config: ChatGenerationConfig) => void;
+}
+
+type NumberField = Exclude<keyof ChatGenerationConfig, 'stopSequences'>;
+
+const numberFields: { key: NumberField; label: string; min: number; max?: number; step: number; placeholder: string }[] = [
+  { key: 'temperature', label: 'Temperature', min: 0, max: 2, step: 0.1, placeholder: '1.0' },
+  { key: 'topP', label: 'Top P', min: 0, max: 1, step: 0.05, placeholder: '0.95' },
+  { key: 'topK', label: 'Top K', min: 1, step: 1, placeholder: '64' },
+  { key: 'maxOutputTokens', label: 'Max Output Tokens', min: 1, step: 1, placeholder: '8192' },
+  { key: 'thinkingBudget', label: 'Thinking Budget', min: -1, step: 128, placeholder: 'dynamic' },
+];
+
+// Leaving a field empty keeps the model's default for it.
+const GenerationConfigFields: React.FC<GenerationConfigFieldsProps> = ({ config, onChange }) => {
+  const handleNumberChange = (key: NumberField, value: string) => {
+    const parsed = parseFloat(value);
+    onChange({ ...config, [key]: value === '' || isNaN(parsed) ? undefined : parsed });
+  };
+
+  // Blank lines are kept while typing and dropped when the request is built.
+  const handleStopSequencesChange = (value: string) => {
+    onChange({ ...config, stopSequences: value ? value.split('\n') : undefined });
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      {numberFields.map(({ key, label, min, max, step, placeholder }) => (
+        <div key={key} className="flex flex-col gap-1">
+          <label className="text-sm text-text-secondary">{label}</label>
+          <input
+            type="number"
+            min={min}
+            max={max}
+            step={step}
+            value={config[key] ?? ''}
+            onChange={(e) => handleNumberChange(key, e.target.value)}
+            placeholder={`Default (${placeholder})`}
+            className="w-full bg-base-bg border border-border-color rounded-lg py-2 px-3 focus:outline-none focus:ring-2 focus:ring-accent-yellow"
+          />
+        </div>
+      ))}
+      <div className="col-span-2 flex flex-col gap-1">
+        <label className="text-sm text-text-secondary">Stop Sequences (one per line)</label>
+        <textarea
+          value={config.stopSequences?.join('\n') ?? ''}
+          onChange={(e) => handleStopSequencesChange(e.target.value)}
+          className="w-full h-16 bg-base-bg border border-border-color rounded-lg py-2 px-3 resize-y focus:outline-none focus:ring-2 focus:ring-accent-yellow"
+        />
+      </div>
+      <p className="col-span-2 text-xs text-text-secondary">
+        A thinking budget of 0 turns thinking off on Flash; Pro always thinks and needs at least 128. Local models ignore it.
+      </p>
+    </div>
+  );
+};
+
+export default GenerationConfigFields;
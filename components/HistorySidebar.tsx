@@ -1,35 +1,187 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import type { Conversation } from '../types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import type { ConversationSummary, ConversationType, Folder, SearchFilters, SearchHit, SearchLocation, SearchResult } from '../types';
 import { dbService } from '../services/dbService';
+import { hasFiles } from '../services/attachments';
+import { matchesSearchFilters } from '../services/search';
+import { CONVERSATION_DRAG_TYPE, getFolderSubtree, parseTags } from '../services/folders';
 import StarIcon from './icons/StarIcon';
 import TrashIcon from './icons/TrashIcon';
+import FilterIcon from './icons/FilterIcon';
+import TagIcon from './icons/TagIcon';
+import PencilIcon from './icons/EditIcon';
+import SparklesIcon from './icons/SparklesIcon';
+import SpinnerIcon from './icons/SpinnerIcon';
+import { useVirtualList } from '../hooks/useVirtualList';
+import FolderTree from './FolderTree';
+import ExportMenu from './ExportMenu';
 
 // Simple SVG Icon Components for different conversation types
 const ChatIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" /></svg>;
 const ImageIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>;
 const EditIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.5L15.232 5.232z" /></svg>;
 
+const SEARCH_DEBOUNCE_MS = 200;
+const ROW_HEIGHT_ESTIMATE = 72;
+// More sessions are loaded once the rendered rows get this close to the end of what is loaded.
+const LOAD_MORE_THRESHOLD = 10;
+
+const typeLabels: Partial<Record<ConversationType, string>> = {
+  chat: 'Chats',
+  imageEditing: 'Image edits',
+};
+
+const locationLabels: Record<SearchLocation['kind'], string> = {
+  message: 'Message',
+  analysis: 'Analysis',
+  editStep: 'Edit',
+  generation: 'Prompt',
+};
+
+// Date inputs give a local calendar day; the range covers all of `from` through all of `to`.
+const dayStart = (value: string): number | undefined => (value ? new Date(`${value}T00:00:00`).getTime() : undefined);
+const dayEnd = (value: string): number | undefined => (value ? new Date(`${value}T23:59:59.999`).getTime() : undefined);
 
 interface HistorySidebarProps {
-  conversations: Conversation[];
+  // The newest sessions loaded so far; searches and folder or tag selections look up their own.
+  conversations: ConversationSummary[];
+  hasMoreConversations: boolean;
+  onLoadMoreConversations: () => void;
+  folders: Folder[];
   currentConversationId: string | null;
   onSelectConversation: (id: string) => void;
   onNewConversation: () => void;
   onDeleteConversation: (id: string) => void;
   onToggleFavorite: (id: string) => void;
+  // Files dropped on a chat entry are attached to that chat's composer.
+  onDropFiles: (id: string, files: File[]) => void;
+  // Opens the session at the message or edit step a search result points to.
+  onOpenSearchResult: (id: string, location: SearchLocation) => void;
+  onMoveConversation: (id: string, folderId: string | null) => void;
+  onSetTags: (id: string, tags: string[]) => void;
+  onRenameConversation: (id: string, title: string) => void;
+  // Asks the model for a new title, replacing whatever the session is called now.
+  onRegenerateTitle: (id: string) => Promise<void>;
+  onCreateFolder: (name: string, parentId: string | null) => void;
+  onRenameFolder: (id: string, name: string) => void;
+  onMoveFolder: (id: string, parentId: string | null) => void;
+  onDeleteFolder: (id: string) => void;
 }
 
 const HistorySidebar: React.FC<HistorySidebarProps> = ({
   conversations,
+  hasMoreConversations,
+  onLoadMoreConversations,
+  folders,
   currentConversationId,
   onSelectConversation,
   onNewConversation,
   onDeleteConversation,
   onToggleFavorite,
+  onDropFiles,
+  onOpenSearchResult,
+  onMoveConversation,
+  onSetTags,
+  onRenameConversation,
+  onRegenerateTitle,
+  onCreateFolder,
+  onRenameFolder,
+  onMoveFolder,
+  onDeleteFolder,
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [sortBy, setSortBy] = useState<'date' | 'favorites'>('date');
   const [isOpen, setIsOpen] = useState(true);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [showFilters, setShowFilters] = useState(false);
+  const [filters, setFilters] = useState<SearchFilters>({});
+  const [dateRange, setDateRange] = useState({ from: '', to: '' });
+  // Null while the search box is empty; the plain list is shown then.
+  const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null);
+  const [showFolders, setShowFolders] = useState(true);
+  const [selectedFolderId, setSelectedFolderId] = useState<string | null>(null);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [folderCounts, setFolderCounts] = useState<Record<string, number>>({});
+  const [tagCounts, setTagCounts] = useState<Record<string, number>>({});
+  // Sessions in the selected folder tree and carrying every selected tag; null when neither is set.
+  const [scopeIds, setScopeIds] = useState<Set<string> | null>(null);
+  // The sessions in scope and in the search results are looked up directly, since they may not be among the loaded pages.
+  const [scopeSummaries, setScopeSummaries] = useState<ConversationSummary[]>([]);
+  const [searchSummaries, setSearchSummaries] = useState<ConversationSummary[]>([]);
+  const [modelOptions, setModelOptions] = useState<string[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState('');
+  const isRenameCancelledRef = useRef(false);
+  const [regeneratingIds, setRegeneratingIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    dbService.getFolderCounts().then(setFolderCounts);
+    dbService.getTagCounts().then(setTagCounts);
+    dbService.getUsedModels().then(models => setModelOptions(models.sort()));
+    dbService.getConversationCounts().then(counts => setTotalCount(counts.chat + counts.imageEditing));
+  }, [conversations]);
+
+  // A deleted folder or a tag no session carries any more drops out of the selection.
+  useEffect(() => {
+    if (selectedFolderId && !folders.some(folder => folder.id === selectedFolderId)) setSelectedFolderId(null);
+  }, [folders, selectedFolderId]);
+
+  useEffect(() => {
+    setSelectedTags(prev => (prev.every(tag => tagCounts[tag]) ? prev : prev.filter(tag => tagCounts[tag])));
+  }, [tagCounts]);
+
+  useEffect(() => {
+    if (!selectedFolderId && selectedTags.length === 0) {
+      setScopeIds(null);
+      return;
+    }
+    let isCancelled = false;
+    const loadScope = async () => {
+      const inFolder = selectedFolderId ? await dbService.getConversationIdsInFolders(getFolderSubtree(folders, selectedFolderId)) : null;
+      const tagged = selectedTags.length > 0 ? await dbService.getConversationIdsWithTags(selectedTags) : null;
+      const ids = inFolder && tagged ? new Set([...inFolder].filter(id => tagged.has(id))) : (inFolder ?? tagged);
+      const summaries = ids ? await dbService.getConversationSummariesByIds(ids) : [];
+      if (isCancelled) return;
+      setScopeIds(ids);
+      setScopeSummaries(summaries);
+    };
+    loadScope();
+    return () => {
+      isCancelled = true;
+    };
+  }, [selectedFolderId, selectedTags, folders, conversations]);
+
+  // Re-run when the list changes too, since a saved message may now match.
+  useEffect(() => {
+    if (!searchTerm.trim()) {
+      setSearchResults(null);
+      return;
+    }
+    let isCancelled = false;
+    const timer = setTimeout(async () => {
+      const results = await dbService.searchConversations(searchTerm, filters);
+      const summaries = await dbService.getConversationSummariesByIds(results.map(result => result.conversationId));
+      if (isCancelled) return;
+      setSearchResults(results);
+      setSearchSummaries(summaries);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      isCancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchTerm, filters, conversations]);
+
+  const hasFilters = Object.values(filters).some(value => value !== undefined);
+
+  const updateDateRange = (range: { from: string; to: string }) => {
+    setDateRange(range);
+    setFilters(prev => ({ ...prev, from: dayStart(range.from), to: dayEnd(range.to) }));
+  };
+
+  const clearFilters = () => {
+    setFilters({});
+    setDateRange({ from: '', to: '' });
+  };
   
   const toggleFavorite = (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
@@ -43,17 +195,121 @@ const HistorySidebar: React.FC<HistorySidebarProps> = ({
     }
   };
 
+  const handleEditTags = (e: React.MouseEvent, convo: ConversationSummary) => {
+    e.stopPropagation();
+    const input = window.prompt('Tags, separated by commas:', (convo.tags ?? []).join(', '));
+    if (input !== null) onSetTags(convo.id, parseTags(input));
+  };
+
+  const startRename = (e: React.MouseEvent, convo: ConversationSummary) => {
+    e.stopPropagation();
+    setRenamingId(convo.id);
+    setRenameText(convo.title);
+  };
+
+  // Enter and Escape both blur the input, so saving happens in one place.
+  const finishRename = () => {
+    const title = renameText.trim();
+    const convo = byId.get(renamingId ?? '');
+    const isCancelled = isRenameCancelledRef.current;
+    isRenameCancelledRef.current = false;
+    setRenamingId(null);
+    if (!isCancelled && convo && title && title !== convo.title) onRenameConversation(convo.id, title);
+  };
+
+  const handleRegenerateTitle = async (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    setRegeneratingIds(prev => new Set(prev).add(id));
+    try {
+      await onRegenerateTitle(id);
+    } catch (error) {
+      console.error("Failed to generate a title:", error);
+    } finally {
+      setRegeneratingIds(prev => {
+        const next = new Set(prev);
+        next.delete(id);
+        return next;
+      });
+    }
+  };
+
+  const toggleTag = (tag: string) => {
+    setSelectedTags(prev => (prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]));
+  };
+
+  const handleCreateFolder = (parentId: string | null) => {
+    const name = window.prompt('Folder name:')?.trim();
+    if (name) onCreateFolder(name, parentId);
+  };
+
+  const handleRenameFolder = (folder: Folder) => {
+    const name = window.prompt('Folder name:', folder.name)?.trim();
+    if (name && name !== folder.name) onRenameFolder(folder.id, name);
+  };
+
+  const handleDeleteFolder = (folder: Folder) => {
+    if (window.confirm(`Delete the folder "${folder.name}"? Its sessions and subfolders move up one level.`)) {
+      onDeleteFolder(folder.id);
+    }
+  };
+
+  const hitsById = useMemo(
+    () => new Map<string, SearchHit[]>(searchResults?.map(result => [result.conversationId, result.hits]) ?? []),
+    [searchResults]
+  );
+
+  // Loaded pages win over looked-up copies, since App updates them right after a change.
+  const byId = useMemo(
+    () => new Map([...scopeSummaries, ...searchSummaries, ...conversations].map(convo => [convo.id, convo])),
+    [scopeSummaries, searchSummaries, conversations]
+  );
+
+  // Only the unscoped, unsearched list is paged; the others are complete as looked up.
+  const isPaged = !searchResults && !scopeIds;
+
   const filteredAndSortedConversations = useMemo(() => {
-    const sorted = [...conversations].sort((a, b) => b.createdAt - a.createdAt);
-    return sorted
+    // Search results come back filtered and newest first already.
+    const listed = searchResults
+      ? searchResults.flatMap(result => byId.get(result.conversationId) ?? [])
+      : (scopeIds ? [...scopeIds].flatMap(id => byId.get(id) ?? []).sort((a, b) => b.createdAt - a.createdAt) : conversations)
+          .filter((convo) => matchesSearchFilters(convo, filters));
+    return listed
       .filter((convo) => convo.type !== 'imageGeneration') // Hide deprecated image generation sessions
-      .filter((convo) =>
-        convo.title.toLowerCase().includes(searchTerm.toLowerCase())
-      )
+      .filter((convo) => !scopeIds || scopeIds.has(convo.id))
       .filter((convo) => (sortBy === 'favorites' ? convo.isFavorite : true));
-  }, [conversations, searchTerm, sortBy]);
+  }, [conversations, byId, searchResults, filters, scopeIds, sortBy]);
+
+  const virtualList = useVirtualList({
+    count: filteredAndSortedConversations.length,
+    getKey: index => filteredAndSortedConversations[index].id,
+    estimateSize: ROW_HEIGHT_ESTIMATE,
+  });
+  const lastRenderedIndex = virtualList.indexes[virtualList.indexes.length - 1] ?? -1;
+
+  // Filters can hide most of a page, so this keeps loading until the rendered rows are covered or nothing is left.
+  useEffect(() => {
+    if (isPaged && hasMoreConversations && lastRenderedIndex >= filteredAndSortedConversations.length - LOAD_MORE_THRESHOLD) {
+      onLoadMoreConversations();
+    }
+  }, [isPaged, hasMoreConversations, lastRenderedIndex, filteredAndSortedConversations.length, onLoadMoreConversations]);
+  const tagNames = useMemo(() => Object.keys(tagCounts).sort((a, b) => a.localeCompare(b)), [tagCounts]);
+
+  const handleDragOver = (e: React.DragEvent, convo: ConversationSummary) => {
+    if (convo.type !== 'chat' || !hasFiles(e.dataTransfer)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setDropTargetId(convo.id);
+  };
+
+  const handleDrop = (e: React.DragEvent, convo: ConversationSummary) => {
+    if (convo.type !== 'chat' || !hasFiles(e.dataTransfer)) return;
+    e.preventDefault();
+    setDropTargetId(null);
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length > 0) onDropFiles(convo.id, files);
+  };
 
-  const renderIcon = (type: Conversation['type']) => {
+  const renderIcon = (type: ConversationType) => {
     switch(type) {
         case 'chat': return <ChatIcon />;
         case 'imageGeneration': return <ImageIcon />;
@@ -84,13 +340,68 @@ const HistorySidebar: React.FC<HistorySidebarProps> = ({
         </button>
       </div>
       <div className="p-4 space-y-4">
-        <input
-          type="text"
-          placeholder="Search history..."
-          value={searchTerm}
-          onChange={(e) => setSearchTerm(e.target.value)}
-          className="w-full bg-base-bg border border-border-color rounded-lg py-2 px-3 focus:outline-none focus:ring-2 focus:ring-accent-yellow"
-        />
+        <div className="flex gap-2">
+          <input
+            type="text"
+            placeholder="Search titles, messages, prompts..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="flex-grow min-w-0 bg-base-bg border border-border-color rounded-lg py-2 px-3 focus:outline-none focus:ring-2 focus:ring-accent-yellow"
+          />
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className={`p-2 rounded-lg border transition-colors ${hasFilters ? 'border-accent-yellow text-accent-yellow' : 'border-border-color text-text-secondary'} hover:bg-border-color`}
+            aria-label="Search filters"
+            title="Search filters"
+            aria-expanded={showFilters}
+          >
+            <FilterIcon className="w-5 h-5" />
+          </button>
+        </div>
+        {showFilters && (
+          <div className="bg-base-bg rounded-lg p-3 space-y-2 text-sm">
+            <div className="flex gap-2">
+              <select
+                value={filters.type ?? ''}
+                onChange={(e) => setFilters(prev => ({ ...prev, type: (e.target.value || undefined) as ConversationType | undefined }))}
+                className="flex-1 min-w-0 bg-component-bg border border-border-color rounded-md p-1"
+                aria-label="Session type"
+              >
+                <option value="">All types</option>
+                {Object.entries(typeLabels).map(([type, label]) => <option key={type} value={type}>{label}</option>)}
+              </select>
+              <select
+                value={filters.model ?? ''}
+                onChange={(e) => setFilters(prev => ({ ...prev, model: e.target.value || undefined }))}
+                className="flex-1 min-w-0 bg-component-bg border border-border-color rounded-md p-1"
+                aria-label="Model"
+              >
+                <option value="">All models</option>
+                {modelOptions.map(model => <option key={model} value={model}>{model}</option>)}
+              </select>
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={dateRange.from}
+                onChange={(e) => updateDateRange({ ...dateRange, from: e.target.value })}
+                className="flex-1 min-w-0 bg-component-bg border border-border-color rounded-md p-1"
+                aria-label="Created from"
+              />
+              <span className="text-text-secondary">to</span>
+              <input
+                type="date"
+                value={dateRange.to}
+                onChange={(e) => updateDateRange({ ...dateRange, to: e.target.value })}
+                className="flex-1 min-w-0 bg-component-bg border border-border-color rounded-md p-1"
+                aria-label="Created until"
+              />
+            </div>
+            {hasFilters && (
+              <button onClick={clearFilters} className="text-accent-orange hover:underline text-xs">Clear filters</button>
+            )}
+          </div>
+        )}
         <div>
           <label className="text-sm text-text-secondary mr-2">Sort by:</label>
           <select value={sortBy} onChange={(e) => setSortBy(e.target.value as 'date' | 'favorites')} className="bg-base-bg border border-border-color rounded-md p-1">
@@ -99,13 +410,71 @@ const HistorySidebar: React.FC<HistorySidebarProps> = ({
           </select>
         </div>
       </div>
-      <div className="flex-1 overflow-y-auto">
-        {filteredAndSortedConversations.map((convo) => (
+      <div className="px-4 pb-2 border-b border-border-color">
+        <button
+          onClick={() => setShowFolders(!showFolders)}
+          className="text-xs font-semibold uppercase tracking-wide text-text-secondary mb-1"
+          aria-expanded={showFolders}
+        >
+          {showFolders ? '▾' : '▸'} Folders & Tags
+        </button>
+        {showFolders && (
+          <div className="max-h-56 overflow-y-auto space-y-2 pb-2">
+            <FolderTree
+              folders={folders}
+              counts={folderCounts}
+              totalCount={totalCount}
+              selectedFolderId={selectedFolderId}
+              onSelectFolder={setSelectedFolderId}
+              onCreateFolder={handleCreateFolder}
+              onRenameFolder={handleRenameFolder}
+              onDeleteFolder={handleDeleteFolder}
+              onMoveFolder={onMoveFolder}
+              onMoveConversation={onMoveConversation}
+            />
+            {tagNames.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {tagNames.map(tag => (
+                  <button
+                    key={tag}
+                    onClick={() => toggleTag(tag)}
+                    className={`text-xs rounded-full px-2 py-0.5 border transition-colors ${
+                      selectedTags.includes(tag)
+                        ? 'bg-accent-yellow text-gray-900 border-accent-yellow'
+                        : 'border-border-color text-text-secondary hover:bg-base-bg'
+                    }`}
+                    aria-pressed={selectedTags.includes(tag)}
+                  >
+                    #{tag} <span className="opacity-70">{tagCounts[tag]}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+      <div ref={virtualList.scrollRef} className="flex-1 overflow-y-auto">
+        {searchResults && filteredAndSortedConversations.length === 0 && (
+          <p className="px-4 py-3 text-sm text-text-secondary">No sessions match "{searchTerm.trim()}".</p>
+        )}
+        <div style={{ height: virtualList.paddingTop }} />
+        {virtualList.indexes.map(index => filteredAndSortedConversations[index]).map((convo) => (
           <div
             key={convo.id}
+            ref={virtualList.measureRef(convo.id)}
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.setData(CONVERSATION_DRAG_TYPE, convo.id);
+              e.dataTransfer.effectAllowed = 'move';
+            }}
             onClick={() => onSelectConversation(convo.id)}
+            onDragOver={(e) => handleDragOver(e, convo)}
+            onDragLeave={() => setDropTargetId(prev => (prev === convo.id ? null : prev))}
+            onDrop={(e) => handleDrop(e, convo)}
             className={`group flex items-start gap-3 px-4 py-3 cursor-pointer border-l-4 ${
-              currentConversationId === convo.id
+              dropTargetId === convo.id
+                ? 'bg-accent-yellow/30 border-accent-yellow ring-2 ring-inset ring-accent-yellow'
+                : currentConversationId === convo.id
                 ? 'bg-accent-yellow/20 border-accent-yellow'
                 : 'border-transparent hover:bg-base-bg'
             }`}
@@ -113,9 +482,58 @@ const HistorySidebar: React.FC<HistorySidebarProps> = ({
             <div className="text-text-secondary mt-1">{renderIcon(convo.type)}</div>
             <div className="flex-grow overflow-hidden">
                 <div className="flex justify-between items-start">
-                    <p className="font-semibold text-text-primary truncate pr-2">{convo.title}</p>
+                    {renamingId === convo.id ? (
+                        <input
+                            autoFocus
+                            value={renameText}
+                            onChange={(e) => setRenameText(e.target.value)}
+                            onClick={(e) => e.stopPropagation()}
+                            onFocus={(e) => e.target.select()}
+                            onBlur={finishRename}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Escape') isRenameCancelledRef.current = true;
+                                if (e.key === 'Enter' || e.key === 'Escape') e.currentTarget.blur();
+                            }}
+                            className="flex-grow min-w-0 mr-2 bg-base-bg border border-border-color rounded px-1 text-sm font-semibold text-text-primary focus:outline-none focus:ring-1 focus:ring-accent-yellow"
+                            aria-label="Session title"
+                        />
+                    ) : (
+                        <p
+                            onDoubleClick={(e) => startRename(e, convo)}
+                            className="font-semibold text-text-primary truncate pr-2"
+                            title="Double-click to rename"
+                        >
+                            {convo.title}
+                        </p>
+                    )}
                     <div className="flex items-center flex-shrink-0">
                         <StarIcon isFilled={convo.isFavorite} onClick={(e) => toggleFavorite(e, convo.id)} className="w-5 h-5 text-accent-yellow flex-shrink-0"/>
+                        <button
+                            onClick={(e) => startRename(e, convo)}
+                            className="ml-1 text-text-secondary hover:text-text-primary opacity-0 group-hover:opacity-100 transition-opacity"
+                            aria-label="Rename session"
+                            title="Rename session"
+                        >
+                            <PencilIcon className="w-5 h-5" />
+                        </button>
+                        <button
+                            onClick={(e) => handleRegenerateTitle(e, convo.id)}
+                            disabled={regeneratingIds.has(convo.id)}
+                            className={`ml-1 text-text-secondary hover:text-text-primary transition-opacity ${regeneratingIds.has(convo.id) ? '' : 'opacity-0 group-hover:opacity-100'}`}
+                            aria-label="Regenerate title"
+                            title="Regenerate title"
+                        >
+                            {regeneratingIds.has(convo.id) ? <SpinnerIcon className="w-5 h-5" /> : <SparklesIcon className="w-5 h-5" />}
+                        </button>
+                        <button
+                            onClick={(e) => handleEditTags(e, convo)}
+                            className="ml-1 text-text-secondary hover:text-text-primary opacity-0 group-hover:opacity-100 transition-opacity"
+                            aria-label="Edit tags"
+                            title="Edit tags"
+                        >
+                            <TagIcon className="w-5 h-5" />
+                        </button>
+                        <ExportMenu conversationId={convo.id} className="ml-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity" />
                         <button
                             onClick={(e) => handleDelete(e, convo.id)}
                             className="ml-2 text-text-secondary hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
@@ -129,9 +547,35 @@ const HistorySidebar: React.FC<HistorySidebarProps> = ({
                 <p className="text-xs text-text-secondary">
                   {new Date(convo.createdAt).toLocaleString()}
                 </p>
+                {convo.tags && convo.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                        {convo.tags.map(tag => (
+                            <button
+                                key={tag}
+                                onClick={(e) => { e.stopPropagation(); toggleTag(tag); }}
+                                className="text-xs rounded-full px-2 bg-base-bg text-text-secondary hover:text-text-primary"
+                            >
+                                #{tag}
+                            </button>
+                        ))}
+                    </div>
+                )}
+                {hitsById.get(convo.id)?.map((hit, i) => (
+                    <button
+                        key={i}
+                        onClick={(e) => { e.stopPropagation(); onOpenSearchResult(convo.id, hit.location); }}
+                        className="block w-full text-left text-xs text-text-secondary mt-1 p-1 rounded hover:bg-border-color line-clamp-2"
+                    >
+                        <span className="font-semibold mr-1">{locationLabels[hit.location.kind]}:</span>
+                        {hit.snippet.map((segment, j) => (segment.highlight
+                            ? <mark key={j} className="bg-accent-yellow/40 text-text-primary rounded-sm">{segment.text}</mark>
+                            : <span key={j}>{segment.text}</span>))}
+                    </button>
+                ))}
             </div>
           </div>
         ))}
+        <div style={{ height: virtualList.paddingBottom }} />
       </div>
     </div>
   );
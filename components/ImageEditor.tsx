@@ -2,51 +2,78 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { geminiService } from '../services/geminiService';
 import { dbService } from '../services/dbService';
-import type { ImageEditingConversation, EditEvent } from '../types';
+import { titleService } from '../services/titleService';
+import { syncService } from '../services/syncService';
+import { toModelError, type ModelError } from '../services/errors';
+import { dataUrlToBlob, getImageBase64, getImageBlob, storeDataUrl, storeImageFile } from '../services/images';
+import { buildMaskedEditInput, compositeMasked, drawMask, exportMask } from '../services/masks';
+import { useFileDrop } from '../hooks/useFileDrop';
+import { usePasteFiles } from '../hooks/usePasteFiles';
+import { useImageBox } from '../hooks/useImageBox';
+import ErrorBubble from './ErrorBubble';
+import MaskCanvas from './MaskCanvas';
+import type { ImageEditingConversation, EditEvent, EditMask, MaskTool, SearchLocation, StoredImage } from '../types';
 import SpinnerIcon from './icons/SpinnerIcon';
 import ChevronLeftIcon from './icons/ChevronLeftIcon';
 import ChevronRightIcon from './icons/ChevronRightIcon';
 import RecallIcon from './icons/RecallIcon';
+import StopIcon from './icons/StopIcon';
+import ExportMenu from './ExportMenu';
+import RemovedImage from './RemovedImage';
 
-const fileToBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => {
-      const result = reader.result as string;
-      resolve(result.split(',')[1]);
-    };
-    reader.onerror = (error) => reject(error);
-  });
+const maskToolLabels: Record<MaskTool, string> = {
+  brush: 'Brush',
+  eraser: 'Eraser',
+  lasso: 'Lasso',
+  rectangle: 'Rectangle',
 };
 
-const parseDataUrl = (dataUrl: string): { base64: string; mimeType: string } | null => {
-    const match = dataUrl.match(/^data:(image\/.+);base64,(.+)$/);
-    if (!match) return null;
-    const [, mimeType, base64] = match;
-    return { mimeType, base64 };
-}
-
 interface ImageEditorProps {
     conversationId: string | null;
     onSessionCreated: (id: string) => void;
     onViewImage: (images: string[], startIndex: number) => void;
+    // A search result to reveal once its session has loaded.
+    searchTarget?: { conversationId: string; location: SearchLocation } | null;
+    onSearchTargetHandled?: () => void;
+    // Called when a generated title was stored, so the history list can show it.
+    onTitleChanged?: () => void;
 }
 
-const ImageEditor: React.FC<ImageEditorProps> = ({ conversationId, onSessionCreated, onViewImage }) => {
-  const [baseImage, setBaseImage] = useState<{ url: string; base64: string; mimeType: string; } | null>(null);
+const ImageEditor: React.FC<ImageEditorProps> = ({ conversationId, onSessionCreated, onViewImage, searchTarget, onSearchTargetHandled, onTitleChanged }) => {
+  const [baseImage, setBaseImage] = useState<StoredImage | null>(null);
   const [history, setHistory] = useState<EditEvent[]>([]);
   const [activeHistoryIndex, setActiveHistoryIndex] = useState<number>(-1); // -1 for base image
   const [analysisResult, setAnalysisResult] = useState<string | null>(null);
   const [prompt, setPrompt] = useState('');
   const [isLoading, setIsLoading] = useState<{ analysis: boolean; edit: boolean }>({ analysis: false, edit: false });
+  const [editorError, setEditorError] = useState<{ error: ModelError; retry: () => void } | null>(null);
   const [isPanelOpen, setIsPanelOpen] = useState(true);
   const [thumbnailSize, setThumbnailSize] = useState(4); // in rem (4rem = 64px)
+  const [loadedConversationId, setLoadedConversationId] = useState<string | null>(null);
+  const [isMasking, setIsMasking] = useState(false);
+  const [maskTool, setMaskTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(40); // in screen pixels
+  const [hasMask, setHasMask] = useState(false);
+  const [isMaskShown, setIsMaskShown] = useState(false);
+  const [imageElement, setImageElement] = useState<HTMLImageElement | null>(null);
+  const imageBox = useImageBox(imageElement);
+  const maskCanvasRef = useRef<HTMLCanvasElement>(null);
+  const analysisRef = useRef<HTMLDivElement>(null);
+  const activeStepRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const currentConversationIdRef = useRef<string | null>(conversationId);
+  const abortControllersRef = useRef<{ analysis?: AbortController; edit?: AbortController }>({});
+  // Another tab changed this session while a request was running; it is reloaded once the request is saved.
+  const hasPendingSyncRef = useRef(false);
+  const isBusyRef = useRef(false);
 
   useEffect(() => {
     currentConversationIdRef.current = conversationId;
+    // A result arriving after a session switch would land in the wrong session, so in-flight requests are stopped.
+    abortControllersRef.current.analysis?.abort();
+    abortControllersRef.current.edit?.abort();
+    setEditorError(null);
+    clearMask();
     const loadConversation = async () => {
       if (conversationId) {
         const convo = await dbService.getConversation(conversationId);
@@ -57,9 +84,11 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ conversationId, onSessionCrea
           setActiveHistoryIndex(loadedHistory.length - 1); // Set active to the latest image
           setAnalysisResult(convo.analysisResult);
           setPrompt('');
+          setLoadedConversationId(conversationId);
         }
       } else {
         // Reset for new session
+        setLoadedConversationId(null);
         setBaseImage(null);
         setHistory([]);
         setActiveHistoryIndex(-1);
@@ -69,6 +98,47 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ conversationId, onSessionCrea
     };
     loadConversation();
   }, [conversationId]);
+
+  // Picks up edits and analyses saved by another tab.
+  const reloadSession = async (id: string) => {
+    const convo = await dbService.getConversation(id);
+    if (convo?.type !== 'imageEditing' || currentConversationIdRef.current !== id) return;
+    setHistory(convo.history);
+    setActiveHistoryIndex(prev => Math.min(prev, convo.history.length - 1));
+    setAnalysisResult(convo.analysisResult ?? null);
+  };
+
+  useEffect(() => syncService.subscribe(event => {
+    const id = currentConversationIdRef.current;
+    if (!id || event.type === 'conversationDeleted' || (event.type === 'conversationChanged' && event.conversationId !== id)) return;
+    if (isBusyRef.current) {
+      hasPendingSyncRef.current = true;
+    } else {
+      reloadSession(id);
+    }
+  }), []);
+
+  useEffect(() => {
+    isBusyRef.current = isLoading.analysis || isLoading.edit;
+    if (!isBusyRef.current && hasPendingSyncRef.current && currentConversationIdRef.current) {
+      hasPendingSyncRef.current = false;
+      reloadSession(currentConversationIdRef.current);
+    }
+  }, [isLoading]);
+
+  useEffect(() => {
+    if (!searchTarget || searchTarget.conversationId !== loadedConversationId) return;
+    const { location } = searchTarget;
+    onSearchTargetHandled?.();
+    setIsPanelOpen(true);
+    if (location.kind === 'editStep' && location.index < history.length) {
+      setActiveHistoryIndex(location.index);
+      // Waits a frame for the new active step to render before scrolling to it.
+      requestAnimationFrame(() => activeStepRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' }));
+    } else if (location.kind === 'analysis') {
+      analysisRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [searchTarget, loadedConversationId]);
   
   const saveSession = async (data: Partial<Omit<ImageEditingConversation, 'id' | 'createdAt' | 'isFavorite' | 'type' | 'title'>>) => {
       let convoId = currentConversationIdRef.current;
@@ -90,107 +160,226 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ conversationId, onSessionCrea
         await dbService.addOrUpdateConversation(newConversation);
         onSessionCreated(convoId);
       } else if (convoId) {
-        const existingConvo = await dbService.getConversation(convoId);
-        if (existingConvo && existingConvo.type === 'imageEditing') {
-          const updatedConvo: ImageEditingConversation = {
-            ...existingConvo,
-            ...data,
-          };
-          await dbService.addOrUpdateConversation(updatedConvo);
-        }
+        await dbService.updateConversationRecord(convoId, record => record.type === 'imageEditing' ? { ...record, ...data } : null);
+      }
+  };
+
+  // Adds the step to the stored history rather than writing this tab's copy over it, so steps another tab saved
+  // meanwhile are kept. Steps from `branchPoint` on are dropped. Returns the history as saved.
+  const saveEditEvent = async (newEvent: EditEvent, branchPoint?: number): Promise<EditEvent[] | null> => {
+      const convoId = currentConversationIdRef.current;
+      if (!convoId) {
+        await saveSession({ history: [...history.slice(0, branchPoint), newEvent], analysisResult });
+        return null;
       }
+      const saved = await dbService.updateConversationRecord(convoId, record =>
+        record.type === 'imageEditing' ? { ...record, history: [...record.history.slice(0, branchPoint), newEvent] } : null);
+      return saved?.type === 'imageEditing' ? saved.history : null;
   };
 
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
+    const files = Array.from(e.target.files || []);
+    if (e.target) e.target.value = '';
+    await handleFiles(files);
+  };
+
+  // The picker, drag-and-drop and paste all land here; only the first image is used.
+  const handleFiles = async (files: File[]) => {
+    const file = files.find(f => f.type.startsWith('image/'));
     if (file) {
-      const base64 = await fileToBase64(file);
-      const newBaseImage = {
-        url: URL.createObjectURL(file),
-        base64,
-        mimeType: file.type,
-      };
+      const newBaseImage = await storeImageFile(file);
       setBaseImage(newBaseImage);
       setHistory([]);
       setActiveHistoryIndex(-1);
       setAnalysisResult(null);
       setPrompt('');
+      setEditorError(null);
+      clearMask();
       
       currentConversationIdRef.current = null; // Force creation of a new session
       await saveSession({ baseImage: newBaseImage, history: [] });
     }
   };
 
+  const { isDragging, dropProps } = useFileDrop(handleFiles);
+  usePasteFiles(handleFiles);
+
   const handleAnalyze = async () => {
     if (!baseImage) return;
     setIsLoading({ ...isLoading, analysis: true });
     setAnalysisResult(null);
-    const result = await geminiService.analyzeImage(baseImage.base64, baseImage.mimeType, 'Describe this image in detail.');
-    setAnalysisResult(result);
-    setIsLoading({ ...isLoading, analysis: false });
-    await saveSession({ analysisResult: result, history });
+    setEditorError(null);
+    const controller = new AbortController();
+    abortControllersRef.current.analysis = controller;
+    try {
+      const result = await geminiService.analyzeImage(await getImageBase64(baseImage), baseImage.mimeType, 'Describe this image in detail.', controller.signal);
+      setAnalysisResult(result);
+      await saveSession({ analysisResult: result });
+      const sessionId = currentConversationIdRef.current;
+      if (sessionId) {
+        titleService.generateTitle(sessionId)
+          .then(changed => changed && onTitleChanged?.())
+          .catch(error => console.error("Failed to generate a title:", error));
+      }
+    } catch (error) {
+      const modelError = toModelError(error);
+      if (modelError.kind !== 'aborted') {
+        setEditorError({ error: modelError, retry: handleAnalyze });
+      }
+    }
+    if (abortControllersRef.current.analysis === controller) {
+      abortControllersRef.current.analysis = undefined;
+    }
+    setIsLoading(prev => ({ ...prev, analysis: false }));
+  };
+
+  const clearMask = () => {
+    const canvas = maskCanvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
   };
 
   const handleEdit = async () => {
     const sourceImage = activeHistoryIndex === -1 ? baseImage : history[activeHistoryIndex]?.editedImage;
     if (!sourceImage || !prompt.trim()) return;
+    const maskCanvas = isMasking && hasMask ? maskCanvasRef.current : null;
 
     setIsLoading({ ...isLoading, edit: true });
+    setEditorError(null);
+    const controller = new AbortController();
+    abortControllersRef.current.edit = controller;
     
     // If editing from a past point, truncate the history to create a new branch
     const newHistoryBase = history.slice(0, activeHistoryIndex + 1);
+    const branchPoint = activeHistoryIndex < history.length - 1 ? activeHistoryIndex + 1 : undefined;
 
-    const resultUrl = await geminiService.editImage(sourceImage.base64, sourceImage.mimeType, prompt);
-    
-    if(resultUrl) {
-        const parsedData = parseDataUrl(resultUrl);
-        if (parsedData) {
-            const newEvent: EditEvent = {
-                prompt,
-                editedImage: {
-                    url: resultUrl,
-                    base64: parsedData.base64,
-                    mimeType: parsedData.mimeType,
-                },
-                timestamp: Date.now()
-            };
-            const newHistory = [...newHistoryBase, newEvent];
-            setHistory(newHistory);
-            setActiveHistoryIndex(newHistory.length - 1); // Set new image as active
-            await saveSession({ history: newHistory, analysisResult });
+    try {
+        const painted = maskCanvas ? await exportMask(maskCanvas) : null;
+        const sourceBlob = painted ? await getImageBlob(sourceImage) : null;
+        const maskInput = painted && sourceBlob ? await buildMaskedEditInput(sourceBlob, painted.blob, painted.bounds) : undefined;
+        const resultUrl = await geminiService.editImage(await getImageBase64(sourceImage), sourceImage.mimeType, prompt, maskInput, controller.signal);
+        let editedImage: StoredImage;
+        let mask: EditMask | undefined;
+        if (painted && sourceBlob) {
+            editedImage = await storeImageFile(await compositeMasked(sourceBlob, await dataUrlToBlob(resultUrl), painted.blob));
+            mask = { image: await storeImageFile(painted.blob), bounds: painted.bounds };
+        } else {
+            editedImage = await storeDataUrl(resultUrl);
+        }
+        const newEvent: EditEvent = {
+            prompt,
+            editedImage,
+            timestamp: Date.now(),
+            ...(mask && { mask }),
+        };
+        const newHistory = [...newHistoryBase, newEvent];
+        setHistory(newHistory);
+        setActiveHistoryIndex(newHistory.length - 1); // Set new image as active
+        const savedHistory = await saveEditEvent(newEvent, branchPoint);
+        const sessionId = currentConversationIdRef.current;
+        if (savedHistory && sessionId && savedHistory.length !== newHistory.length) {
+            // Another tab added steps while this edit ran; show them, with this edit still the active step.
+            await reloadSession(sessionId);
+            setActiveHistoryIndex(savedHistory.length - 1);
+        }
+        setPrompt(''); // Clear prompt after submission
+        if (mask) clearMask(); // The step keeps it and can hand it back through recall
+    } catch (error) {
+        // Keep the prompt so the user can tweak it or retry as-is.
+        const modelError = toModelError(error);
+        if (modelError.kind !== 'aborted') {
+            setEditorError({ error: modelError, retry: handleEdit });
         }
     }
+    if (abortControllersRef.current.edit === controller) {
+        abortControllersRef.current.edit = undefined;
+    }
     
-    setPrompt(''); // Clear prompt after submission
-    setIsLoading({ ...isLoading, edit: false });
+    setIsLoading(prev => ({ ...prev, edit: false }));
+  };
+
+  const handleStop = (operation: 'analysis' | 'edit') => {
+    abortControllersRef.current[operation]?.abort();
+  };
+  
+  // Puts a past edit's prompt, and its mask if it had one, back into the editor to apply it to the current image.
+  const handleRecall = async (event: EditEvent) => {
+    setPrompt(event.prompt);
+    const canvas = maskCanvasRef.current;
+    if (!event.mask?.image.url || !canvas) return;
+    try {
+      await drawMask(canvas, await getImageBlob(event.mask.image));
+      setIsMasking(true);
+      setHasMask(true);
+    } catch (error) {
+      console.error("Failed to load the mask:", error);
+    }
   };
   
   const displayImage = activeHistoryIndex === -1 ? baseImage?.url : history[activeHistoryIndex]?.editedImage.url;
+  const activeMask = activeHistoryIndex === -1 ? undefined : history[activeHistoryIndex]?.mask;
 
   return (
     <div className="bg-component-bg rounded-lg border border-border-color h-full flex flex-col overflow-hidden">
-        <div className="p-6 pb-0 flex-shrink-0">
+        <div className="p-6 pb-0 flex-shrink-0 flex justify-between items-center">
             <h2 className="text-2xl font-bold text-accent-yellow">Analyze & Edit Image</h2>
+            <ExportMenu conversationId={conversationId} iconClassName="w-6 h-6" />
         </div>
         <div className="flex-1 flex overflow-hidden relative p-6 pt-4">
             {/* Main Image Display */}
             <div className="flex-1 flex flex-col gap-4 items-center justify-center min-w-0 pr-4">
-                <div className="w-full h-full flex items-center justify-center bg-base-bg rounded-lg p-4 border border-border-color">
+                <div
+                    className={`relative w-full h-full flex items-center justify-center bg-base-bg rounded-lg p-4 border ${isDragging ? 'border-accent-yellow border-dashed border-4' : 'border-border-color'}`}
+                    {...dropProps}
+                >
+                    {isDragging && (
+                        <div className="absolute inset-0 z-10 flex items-center justify-center bg-black/60 rounded-lg pointer-events-none">
+                            <p className="text-xl font-semibold text-white">Drop an image to start a new edit session</p>
+                        </div>
+                    )}
                     {displayImage ? (
                     <img
+                        ref={setImageElement}
                         src={displayImage}
                         alt="Uploaded or Edited"
                         className="max-h-full max-w-full object-contain rounded-md cursor-pointer"
                         onClick={() => displayImage && onViewImage([displayImage], 0)}
                     />
+                    ) : baseImage ? (
+                    <RemovedImage className="w-64 h-64" />
                     ) : (
                     <button
                         onClick={() => fileInputRef.current?.click()}
                         className="text-text-secondary border-2 border-dashed border-border-color rounded-lg p-8 hover:bg-base-bg/80 transition-colors"
                     >
-                        Click to upload an image
+                        Click to upload, drop or paste an image
                     </button>
                     )}
+                    {imageBox && displayImage && (
+                        <MaskCanvas
+                            box={imageBox}
+                            canvasRef={maskCanvasRef}
+                            isActive={isMasking}
+                            tool={maskTool}
+                            brushSize={brushSize}
+                            onChange={setHasMask}
+                        />
+                    )}
+                    {imageBox && displayImage && isMaskShown && !isMasking && activeMask?.image.url && (
+                        <div
+                            className="absolute rounded-md bg-red-500/50 pointer-events-none"
+                            style={{
+                                left: imageBox.left,
+                                top: imageBox.top,
+                                width: imageBox.width,
+                                height: imageBox.height,
+                                maskImage: `url(${activeMask.image.url})`,
+                                maskSize: '100% 100%',
+                                WebkitMaskImage: `url(${activeMask.image.url})`,
+                                WebkitMaskSize: '100% 100%',
+                            }}
+                        />
+                    )}
                     <input
                         type="file"
                         ref={fileInputRef}
@@ -215,6 +404,44 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ conversationId, onSessionCrea
                     {baseImage && (
                         <>
                         <div className="flex flex-col gap-2">
+                            <div className="flex items-center justify-between">
+                                <label className="flex items-center gap-2 text-sm text-text-primary cursor-pointer">
+                                    <input type="checkbox" checked={isMasking} onChange={(e) => setIsMasking(e.target.checked)} disabled={!imageBox || !displayImage || isLoading.edit} />
+                                    Edit only a masked area
+                                </label>
+                                {isMasking && hasMask && (
+                                    <button onClick={clearMask} disabled={isLoading.edit} className="text-xs text-accent-orange hover:underline disabled:opacity-50">Clear mask</button>
+                                )}
+                            </div>
+                            {isMasking && (
+                                <>
+                                <div className="flex rounded-lg border border-border-color overflow-hidden">
+                                    {(Object.keys(maskToolLabels) as MaskTool[]).map(tool => (
+                                        <button
+                                            key={tool}
+                                            onClick={() => setMaskTool(tool)}
+                                            className={`flex-1 text-xs py-1 transition-colors ${maskTool === tool ? 'bg-accent-khaki text-white' : 'text-text-secondary hover:bg-border-color'}`}
+                                        >
+                                            {maskToolLabels[tool]}
+                                        </button>
+                                    ))}
+                                </div>
+                                {(maskTool === 'brush' || maskTool === 'eraser') && (
+                                    <div className="flex items-center gap-2">
+                                        <label className="text-xs text-text-secondary">Brush size:</label>
+                                        <input type="range" min="4" max="120" value={brushSize} onChange={e => setBrushSize(Number(e.target.value))} className="flex-1 cursor-pointer" />
+                                        <span className="text-xs text-text-secondary w-10 text-right">{brushSize}px</span>
+                                    </div>
+                                )}
+                                <p className="text-xs text-text-secondary">Paint over the area to change. Everything outside the mask is kept as it is.</p>
+                                </>
+                            )}
+                            {!isMasking && activeMask && (
+                                <label className="flex items-center gap-2 text-sm text-text-primary cursor-pointer">
+                                    <input type="checkbox" checked={isMaskShown} onChange={(e) => setIsMaskShown(e.target.checked)} disabled={!activeMask.image.url} />
+                                    Show the mask this edit used
+                                </label>
+                            )}
                             <textarea
                             value={prompt}
                             onChange={(e) => setPrompt(e.target.value)}
@@ -222,17 +449,31 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ conversationId, onSessionCrea
                             className="w-full h-20 bg-component-bg border border-border-color rounded-lg p-3 focus:outline-none focus:ring-2 focus:ring-accent-yellow"
                             disabled={isLoading.edit}
                             />
-                            <button
-                            onClick={handleEdit}
-                            disabled={isLoading.edit || !prompt.trim()}
-                            className="bg-accent-khaki text-white font-bold py-2 px-4 rounded-lg disabled:bg-gray-500 hover:bg-opacity-90 transition-colors w-full"
-                            >
-                            {isLoading.edit ? <SpinnerIcon className="w-5 h-5 mx-auto" /> : 'Apply Edit'}
-                            </button>
+                            <div className="flex gap-2">
+                                <button
+                                onClick={handleEdit}
+                                disabled={isLoading.edit || !prompt.trim()}
+                                className="bg-accent-khaki text-white font-bold py-2 px-4 rounded-lg disabled:bg-gray-500 hover:bg-opacity-90 transition-colors w-full"
+                                >
+                                {isLoading.edit ? <SpinnerIcon className="w-5 h-5 mx-auto" /> : isMasking && hasMask ? 'Apply to Masked Area' : 'Apply Edit'}
+                                </button>
+                                {isLoading.edit && (
+                                    <button
+                                    onClick={() => handleStop('edit')}
+                                    className="bg-red-500 text-white font-bold py-2 px-4 rounded-lg hover:bg-opacity-90 transition-colors flex items-center gap-1"
+                                    aria-label="Stop editing"
+                                    >
+                                    <StopIcon className="w-4 h-4" /> Stop
+                                    </button>
+                                )}
+                            </div>
+                            {editorError && (
+                                <ErrorBubble error={editorError.error} onRetry={editorError.retry} onDismiss={() => setEditorError(null)} />
+                            )}
                         </div>
                         <div className="flex-1 overflow-y-auto pr-2 space-y-4 border-t border-border-color pt-4">
                             {analysisResult && (
-                                <div>
+                                <div ref={analysisRef}>
                                     <h3 className="font-semibold text-text-secondary mb-1">Analysis:</h3>
                                     <div className="bg-component-bg p-3 rounded-lg text-sm whitespace-pre-wrap">{analysisResult}</div>
                                 </div>
@@ -251,23 +492,31 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ conversationId, onSessionCrea
                                         <div 
                                             onClick={() => setActiveHistoryIndex(-1)}
                                             className={`bg-component-bg p-2 rounded-lg flex items-center gap-3 cursor-pointer transition-all ${activeHistoryIndex === -1 ? 'ring-2 ring-accent-yellow' : 'hover:bg-border-color'}`}>
-                                            <img src={baseImage.url} alt="Original" className="object-contain rounded-md flex-shrink-0 bg-black/20" style={{width: `${thumbnailSize}rem`, height: `${thumbnailSize}rem`}}/>
+                                            {baseImage.url
+                                                ? <img src={baseImage.url} alt="Original" className="object-contain rounded-md flex-shrink-0 bg-black/20" style={{width: `${thumbnailSize}rem`, height: `${thumbnailSize}rem`}}/>
+                                                : <RemovedImage className="flex-shrink-0" style={{width: `${thumbnailSize}rem`, height: `${thumbnailSize}rem`}} />}
                                             <p className="text-sm italic text-text-secondary flex-grow">Original Image</p>
                                         </div>
                                         {/* Edit History */}
                                         {history.map((event, index) => (
                                             <div 
                                                 key={event.timestamp} 
+                                                ref={activeHistoryIndex === index ? activeStepRef : undefined}
                                                 onClick={() => setActiveHistoryIndex(index)}
                                                 className={`bg-component-bg p-2 rounded-lg flex items-center gap-3 cursor-pointer transition-all ${activeHistoryIndex === index ? 'ring-2 ring-accent-yellow' : 'hover:bg-border-color'}`}
                                             >
-                                                <img src={event.editedImage.url} alt="Edit result" className="object-contain rounded-md flex-shrink-0 bg-black/20" style={{width: `${thumbnailSize}rem`, height: `${thumbnailSize}rem`}}/>
-                                                <p className="text-sm italic text-text-primary flex-grow">"{event.prompt}"</p>
+                                                {event.editedImage.url
+                                                    ? <img src={event.editedImage.url} alt="Edit result" className="object-contain rounded-md flex-shrink-0 bg-black/20" style={{width: `${thumbnailSize}rem`, height: `${thumbnailSize}rem`}}/>
+                                                    : <RemovedImage className="flex-shrink-0" style={{width: `${thumbnailSize}rem`, height: `${thumbnailSize}rem`}} />}
+                                                <p className="text-sm italic text-text-primary flex-grow">
+                                                    "{event.prompt}"
+                                                    {event.mask && <span className="block text-xs not-italic text-accent-orange">Masked area only</span>}
+                                                </p>
                                                 <button
-                                                    onClick={(e) => { e.stopPropagation(); setPrompt(event.prompt); }}
+                                                    onClick={(e) => { e.stopPropagation(); handleRecall(event); }}
                                                     className="text-text-secondary hover:text-text-primary p-1 rounded-full hover:bg-border-color flex-shrink-0"
-                                                    aria-label="Recall this prompt"
-                                                    title="Recall this prompt"
+                                                    aria-label={event.mask ? 'Recall this prompt and mask' : 'Recall this prompt'}
+                                                    title={event.mask ? 'Recall this prompt and mask' : 'Recall this prompt'}
                                                 >
                                                     <RecallIcon className="w-4 h-4" />
                                                 </button>
@@ -276,6 +525,20 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ conversationId, onSessionCrea
                                     </div>
                                 </div>
                             )}
+                            {isLoading.analysis && (
+                                <div className="flex items-center gap-2">
+                                    <div className="flex-1 flex items-center justify-center gap-2 text-text-secondary text-sm">
+                                        <SpinnerIcon className="w-5 h-5 text-accent-yellow" /> Analyzing...
+                                    </div>
+                                    <button
+                                        onClick={() => handleStop('analysis')}
+                                        className="bg-red-500 text-white font-bold py-2 px-4 rounded-lg hover:bg-opacity-90 transition-colors flex items-center gap-1"
+                                        aria-label="Stop analysis"
+                                    >
+                                        <StopIcon className="w-4 h-4" /> Stop
+                                    </button>
+                                </div>
+                            )}
                             {!isLoading.analysis && !analysisResult && (
                                 <button
                                     onClick={handleAnalyze}
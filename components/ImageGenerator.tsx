@@ -3,12 +3,15 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { geminiService } from '../services/geminiService';
 import { dbService } from '../services/dbService';
+import { toModelError, type ModelError } from '../services/errors';
+import ErrorBubble from './ErrorBubble';
 import type { AspectRatio, ImagenModel, ImageGenerationConversation, GenerationEvent } from '../types';
 import SpinnerIcon from './icons/SpinnerIcon';
 import EditIcon from './icons/EditIcon';
 import ChevronLeftIcon from './icons/ChevronLeftIcon';
 import ChevronRightIcon from './icons/ChevronRightIcon';
 import RecallIcon from './icons/RecallIcon';
+import ExportMenu from './ExportMenu';
 
 const aspectRatios: AspectRatio[] = ["1:1", "16:9", "9:16", "4:3", "3:4"];
 const imagenModels: ImagenModel[] = ['imagen-3.0-generate-002', 'imagen-4.0-generate-001', 'imagen-4.0-ultra-generate-001', 'imagen-4.0-fast-generate-001'];
@@ -46,7 +49,7 @@ const ImageGenerator: React.FC<ImageGeneratorProps> = ({ conversationId, onSessi
 
   const [history, setHistory] = useState<GenerationEvent[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ModelError | null>(null);
   const currentConversationIdRef = useRef<string | null>(conversationId);
   const resultsEndRef = useRef<HTMLDivElement>(null);
   
@@ -117,9 +120,8 @@ const ImageGenerator: React.FC<ImageGeneratorProps> = ({ conversationId, onSessi
       outputMimeType,
     };
 
-    const result = await geminiService.generateImage(currentPrompt, params);
-
-    if (result) {
+    try {
+      const result = await geminiService.generateImage(currentPrompt, params);
       const newEvent: GenerationEvent = {
         prompt: currentPrompt,
         parameters: params,
@@ -151,8 +153,8 @@ const ImageGenerator: React.FC<ImageGeneratorProps> = ({ conversationId, onSessi
             await dbService.addOrUpdateConversation(existingConvo);
         }
       }
-    } else {
-      setError('Failed to generate image. Please try again.');
+    } catch (err) {
+      setError(toModelError(err));
     }
     setIsLoading(false);
   };
@@ -164,6 +166,7 @@ const ImageGenerator: React.FC<ImageGeneratorProps> = ({ conversationId, onSessi
         <div className="flex justify-between items-center flex-shrink-0">
             <h2 className="text-2xl font-bold text-accent-yellow">Generate Image with Imagen</h2>
             <div className="flex items-center gap-3">
+                <ExportMenu conversationId={conversationId} />
                 <label htmlFor="size-slider" className="text-sm font-semibold text-text-secondary">Image Size:</label>
                 <input 
                     id="size-slider" 
@@ -221,7 +224,7 @@ const ImageGenerator: React.FC<ImageGeneratorProps> = ({ conversationId, onSessi
                 </div>
             ))}
              {isLoading && <div className="flex justify-center pt-10"><SpinnerIcon className="w-12 h-12 text-accent-yellow" /></div>}
-             {error && <p className="text-red-400 text-center">{error}</p>}
+             {error && <div className="flex justify-center"><ErrorBubble error={error} onRetry={() => handleSubmit({ preventDefault: () => {} } as React.FormEvent)} onDismiss={() => setError(null)} /></div>}
              {!isLoading && history.length === 0 && (
                 <div className="flex items-center justify-center h-full">
                     <p className="text-text-secondary text-center">Your generated images will appear here.</p>
@@ -1,6 +1,7 @@
 
 import React, { useEffect, useCallback, useState, useRef } from 'react';
 import DownloadIcon from './icons/DownloadIcon';
+import { downloadBlob } from '../services/exportService';
 import ChevronLeftIcon from './icons/ChevronLeftIcon';
 import ChevronRightIcon from './icons/ChevronRightIcon';
 
@@ -95,14 +96,7 @@ const ImageViewer: React.FC<ImageViewerProps> = ({ images, currentIndex, onClose
     try {
       const response = await fetch(imageUrl);
       const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `gemini-creative-suite-image.${blob.type.split('/')[1] || 'png'}`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      window.URL.revokeObjectURL(url);
+      downloadBlob(blob, `gemini-creative-suite-image.${blob.type.split('/')[1] || 'png'}`);
     } catch (error) {
       console.error("Failed to download image:", error);
     }
@@ -0,0 +1,76 @@
+import React, { memo, useMemo, useRef, useState } from 'react';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/github-dark.css';
+import { splitBlocks } from '../services/markdownBlocks';
+
+const CodeBlock: Components['pre'] = ({ node: _node, children, ...props }) => {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(preRef.current?.innerText ?? '');
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div className="relative group my-2">
+      <button
+        onClick={handleCopy}
+        className="absolute top-2 right-2 text-xs bg-gray-700 text-gray-100 rounded px-2 py-1 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+        aria-label="Copy code"
+      >
+        {copied ? 'Copied' : 'Copy'}
+      </button>
+      <pre ref={preRef} {...props} className="bg-gray-900 text-gray-100 rounded-md p-3 overflow-x-auto text-sm">{children}</pre>
+    </div>
+  );
+};
+
+const components: Components = {
+  pre: CodeBlock,
+  code: ({ node: _node, className, children, ...props }) => (
+    // Fenced code gets a language class from the highlighter; bare inline code does not.
+    <code {...props} className={className ?? 'bg-black/20 rounded px-1 py-0.5 text-[0.9em]'}>{children}</code>
+  ),
+  a: ({ node: _node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" className="text-accent-orange underline" />,
+  h1: ({ node: _node, ...props }) => <h1 {...props} className="text-xl font-bold mt-3 mb-2" />,
+  h2: ({ node: _node, ...props }) => <h2 {...props} className="text-lg font-bold mt-3 mb-2" />,
+  h3: ({ node: _node, ...props }) => <h3 {...props} className="font-bold mt-2 mb-1" />,
+  p: ({ node: _node, ...props }) => <p {...props} className="my-2 first:mt-0 last:mb-0" />,
+  ul: ({ node: _node, ...props }) => <ul {...props} className="list-disc pl-6 my-2" />,
+  ol: ({ node: _node, ...props }) => <ol {...props} className="list-decimal pl-6 my-2" />,
+  blockquote: ({ node: _node, ...props }) => <blockquote {...props} className="border-l-4 border-border-color pl-3 my-2 text-text-secondary" />,
+  table: ({ node: _node, ...props }) => (
+    <div className="overflow-x-auto my-2">
+      <table {...props} className="border-collapse text-sm" />
+    </div>
+  ),
+  th: ({ node: _node, ...props }) => <th {...props} className="border border-border-color px-2 py-1 text-left font-semibold" />,
+  td: ({ node: _node, ...props }) => <td {...props} className="border border-border-color px-2 py-1" />,
+  hr: ({ node: _node, ...props }) => <hr {...props} className="my-3 border-border-color" />,
+};
+
+// Raw HTML in the markdown is escaped, not rendered, and unsafe link protocols are stripped by react-markdown.
+const MarkdownBlock = memo(({ text }: { text: string }) => (
+  <ReactMarkdown remarkPlugins={[remarkGfm, remarkMath]} rehypePlugins={[rehypeKatex, rehypeHighlight]} components={components}>
+    {text}
+  </ReactMarkdown>
+));
+
+// While a reply streams only its last block changes, so earlier blocks skip re-parsing thanks to the memo.
+const MarkdownContent: React.FC<{ text: string }> = ({ text }) => {
+  const blocks = useMemo(() => splitBlocks(text), [text]);
+  return (
+    <div className="break-words">
+      {blocks.map((block, index) => <MarkdownBlock key={index} text={block} />)}
+    </div>
+  );
+};
+
+export default MarkdownContent;
@@ -0,0 +1,170 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { isMaskEmpty, MASK_PAINT_COLOR } from '../services/masks';
+import type { ImageBox } from '../hooks/useImageBox';
+import type { MaskTool } from '../types';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface MaskCanvasProps {
+  // The image being masked; the canvas is laid over it and has its pixel size.
+  box: ImageBox;
+  canvasRef: React.RefObject<HTMLCanvasElement | null>;
+  // Hidden canvases keep their mask, so painting can be paused without losing it.
+  isActive: boolean;
+  tool: MaskTool;
+  // Diameter in screen pixels, so the brush feels the same however large the image is shown.
+  brushSize: number;
+  onChange: (hasMask: boolean) => void;
+}
+
+const MaskCanvas: React.FC<MaskCanvasProps> = ({ box, canvasRef, isActive, tool, brushSize, onChange }) => {
+  // Lasso and rectangle outlines while they are being dragged, in image pixels.
+  const [draft, setDraft] = useState<Point[] | null>(null);
+  const lastPointRef = useRef<Point | null>(null);
+  const { naturalWidth, naturalHeight } = box;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || (canvas.width === naturalWidth && canvas.height === naturalHeight)) return;
+    // Resizing clears a canvas, so the mask is carried over, scaled to the new image.
+    const copy = document.createElement('canvas');
+    copy.width = canvas.width;
+    copy.height = canvas.height;
+    copy.getContext('2d')?.drawImage(canvas, 0, 0);
+    canvas.width = naturalWidth;
+    canvas.height = naturalHeight;
+    canvas.getContext('2d')?.drawImage(copy, 0, 0, naturalWidth, naturalHeight);
+  }, [naturalWidth, naturalHeight]);
+
+  const toImagePoint = (e: React.PointerEvent): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * naturalWidth,
+      y: ((e.clientY - rect.top) / rect.height) * naturalHeight,
+    };
+  };
+
+  const getContext = (): CanvasRenderingContext2D | null => {
+    const context = canvasRef.current?.getContext('2d') ?? null;
+    if (context) {
+      context.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+      context.fillStyle = MASK_PAINT_COLOR;
+      context.strokeStyle = MASK_PAINT_COLOR;
+      context.lineWidth = (brushSize * naturalWidth) / box.width;
+      context.lineCap = 'round';
+      context.lineJoin = 'round';
+    }
+    return context;
+  };
+
+  const paintTo = (point: Point) => {
+    const context = getContext();
+    const from = lastPointRef.current;
+    if (!context || !from) return;
+    context.beginPath();
+    if (from.x === point.x && from.y === point.y) {
+      // A zero-length line draws nothing, so a single click becomes a dot.
+      context.arc(point.x, point.y, context.lineWidth / 2, 0, Math.PI * 2);
+      context.fill();
+    } else {
+      context.moveTo(from.x, from.y);
+      context.lineTo(point.x, point.y);
+      context.stroke();
+    }
+    lastPointRef.current = point;
+  };
+
+  const fillDraft = (points: Point[]) => {
+    const context = getContext();
+    if (!context) return;
+    context.beginPath();
+    if (tool === 'rectangle' && points.length === 2) {
+      const [a, b] = points;
+      context.rect(Math.min(a.x, b.x), Math.min(a.y, b.y), Math.abs(a.x - b.x), Math.abs(a.y - b.y));
+    } else if (tool === 'lasso' && points.length > 2) {
+      points.forEach((p, i) => (i === 0 ? context.moveTo(p.x, p.y) : context.lineTo(p.x, p.y)));
+      context.closePath();
+    }
+    context.fill();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toImagePoint(e);
+    lastPointRef.current = point;
+    if (tool === 'brush' || tool === 'eraser') {
+      paintTo(point);
+    } else {
+      setDraft([point]);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPointRef.current) return;
+    const point = toImagePoint(e);
+    if (tool === 'brush' || tool === 'eraser') {
+      paintTo(point);
+    } else if (tool === 'lasso') {
+      setDraft(prev => (prev ? [...prev, point] : [point]));
+    } else {
+      setDraft(prev => (prev ? [prev[0], point] : [point]));
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!lastPointRef.current) return;
+    lastPointRef.current = null;
+    if (draft) fillDraft(draft);
+    setDraft(null);
+    if (canvasRef.current) onChange(!isMaskEmpty(canvasRef.current));
+  };
+
+  const boxStyle: React.CSSProperties = { left: box.left, top: box.top, width: box.width, height: box.height };
+  const [start, end] = draft ?? [];
+
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        className={`absolute rounded-md opacity-50 cursor-crosshair touch-none ${isActive ? '' : 'hidden'}`}
+        style={boxStyle}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      />
+      {isActive && draft && (
+        <svg className="absolute pointer-events-none" style={boxStyle} viewBox={`0 0 ${naturalWidth} ${naturalHeight}`} preserveAspectRatio="none">
+          {tool === 'lasso' ? (
+            <polygon
+              points={draft.map(p => `${p.x},${p.y}`).join(' ')}
+              fill={MASK_PAINT_COLOR}
+              fillOpacity={0.25}
+              stroke="white"
+              strokeDasharray="4 4"
+              vectorEffect="non-scaling-stroke"
+            />
+          ) : end && (
+            <rect
+              x={Math.min(start.x, end.x)}
+              y={Math.min(start.y, end.y)}
+              width={Math.abs(start.x - end.x)}
+              height={Math.abs(start.y - end.y)}
+              fill={MASK_PAINT_COLOR}
+              fillOpacity={0.25}
+              stroke="white"
+              strokeDasharray="4 4"
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+        </svg>
+      )}
+    </>
+  );
+};
+
+export default MaskCanvas;
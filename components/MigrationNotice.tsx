@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { useMigrationStatus } from '../hooks/useMigrationStatus';
+import { backupService } from '../services/backupService';
+import SpinnerIcon from './icons/SpinnerIcon';
+
+// Shows progress while stored sessions are being upgraded, and what could not be upgraded.
+const MigrationNotice: React.FC = () => {
+  const status = useMigrationStatus();
+  const [isDismissed, setIsDismissed] = useState(false);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+
+  const handleDownload = async () => {
+    setDownloadError(null);
+    try {
+      await backupService.downloadMigrationBackup();
+    } catch (e) {
+      setDownloadError(`Download failed: ${(e as Error).message}`);
+    }
+  };
+
+  if (status.running && status.total > 0) {
+    return (
+      <div className="flex-shrink-0 flex items-center gap-2 bg-component-bg border border-border-color rounded-lg px-3 py-2 text-sm text-text-secondary">
+        <SpinnerIcon className="w-4 h-4 text-accent-yellow" />
+        Upgrading stored sessions ({status.done}/{status.total})...
+      </div>
+    );
+  }
+
+  if (status.failures.length === 0 || isDismissed) {
+    return null;
+  }
+
+  return (
+    <div role="alert" className="flex-shrink-0 p-3 rounded-lg border border-red-500 bg-red-500/10 text-text-primary">
+      <p className="font-semibold text-red-400">Some stored data could not be upgraded</p>
+      <ul className="text-sm text-text-secondary mt-1 space-y-1 max-h-32 overflow-y-auto">
+        {status.failures.map((failure, i) => (
+          <li key={failure.conversationId ?? i} className="break-words">
+            {failure.title && <span className="text-text-primary">"{failure.title}": </span>}
+            {failure.message}
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs text-text-secondary mt-2">
+        These sessions were left unchanged and will be tried again on the next start. The sessions that were upgraded can be
+        downloaded as they were before, and brought back with Backup & Restore in merge mode.
+      </p>
+      {downloadError && <p className="text-xs text-red-400 mt-1">{downloadError}</p>}
+      <div className="flex gap-2 mt-3">
+        <button onClick={handleDownload} className="bg-accent-khaki text-white text-sm font-semibold rounded-lg py-1 px-3 hover:bg-opacity-90 transition-colors">
+          Download pre-upgrade copy
+        </button>
+        <button onClick={() => setIsDismissed(true)} className="bg-border-color text-text-primary text-sm rounded-lg py-1 px-3 hover:bg-opacity-80 transition-colors">
+          Dismiss
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MigrationNotice;
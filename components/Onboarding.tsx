@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { credentialService } from '../services/credentialService';
+import type { CredentialStatus } from '../types';
+import ApiKeyForm from './ApiKeyForm';
+import SpinnerIcon from './icons/SpinnerIcon';
+
+interface OnboardingProps {
+  status: CredentialStatus;
+  onOpenProviderSettings: () => void;
+}
+
+const Onboarding: React.FC<OnboardingProps> = ({ status, onOpenProviderSettings }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [unlockError, setUnlockError] = useState<string | null>(null);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+    setIsUnlocking(true);
+    setUnlockError(null);
+    try {
+      await credentialService.unlock(passphrase);
+    } catch (error) {
+      setUnlockError(error instanceof Error ? error.message : 'Could not unlock the key.');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="h-screen w-screen p-4 flex items-center justify-center font-sans">
+      <div className="bg-component-bg rounded-lg border border-border-color shadow-2xl p-6 w-full max-w-md max-h-full overflow-y-auto">
+        <div className="flex items-center gap-2 mb-4">
+          <svg className="w-8 h-8 text-accent-khaki" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm0 15c-2.76 0-5-2.24-5-5s2.24-5 5-5 5 2.24 5 5-2.24 5-5 5z" fill="currentColor"/></svg>
+          <h1 className="text-2xl font-bold text-text-primary">Gemini Creative Suite</h1>
+        </div>
+
+        {status === 'locked' ? (
+          <form onSubmit={handleUnlock} className="space-y-3">
+            <p className="text-sm text-text-secondary">Your API key is protected with a passphrase. Enter it to continue.</p>
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              autoFocus
+              className="w-full bg-base-bg border border-border-color rounded-lg py-2 px-3 focus:outline-none focus:ring-2 focus:ring-accent-yellow"
+            />
+            {unlockError && <p className="text-red-400 text-sm">{unlockError}</p>}
+            <button
+              type="submit"
+              disabled={isUnlocking || !passphrase}
+              className="w-full flex items-center justify-center gap-2 bg-accent-khaki text-white font-bold py-2 px-4 rounded-lg hover:bg-opacity-90 disabled:opacity-50 transition-colors"
+            >
+              {isUnlocking && <SpinnerIcon className="w-4 h-4" />}
+              Unlock
+            </button>
+            <button
+              type="button"
+              onClick={() => credentialService.clear()}
+              className="w-full text-sm text-text-secondary hover:text-text-primary transition-colors"
+            >
+              Forgot the passphrase? Remove the stored key
+            </button>
+          </form>
+        ) : (
+          <>
+            <p className="text-sm text-text-secondary mb-4">
+              To get started, enter a Gemini API key. It is checked with a quick request before being saved.
+            </p>
+            <ApiKeyForm />
+          </>
+        )}
+
+        <div className="mt-6 pt-4 border-t border-border-color">
+          <button
+            onClick={onOpenProviderSettings}
+            className="w-full bg-base-bg border border-border-color rounded-lg p-2 text-sm hover:bg-border-color transition-colors"
+          >
+            Use a local model or replay fixtures instead
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Onboarding;
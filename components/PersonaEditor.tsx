@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import type { GeminiChatModel, Persona } from '../types';
+import GenerationConfigFields from './GenerationConfigFields';
+
+interface PersonaEditorProps {
+  persona: Persona;
+  onSave: (persona: Persona) => void;
+  onCancel: () => void;
+  saveLabel?: string;
+  // The model cannot change once a chat has started.
+  isModelLocked?: boolean;
+}
+
+const PersonaEditor: React.FC<PersonaEditorProps> = ({ persona, onSave, onCancel, saveLabel = 'Save', isModelLocked = false }) => {
+  const [draft, setDraft] = useState<Persona>(persona);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.name.trim()) return;
+    onSave({ ...draft, name: draft.name.trim() });
+  };
+
+  const inputClassName = "w-full bg-base-bg border border-border-color rounded-lg py-2 px-3 focus:outline-none focus:ring-2 focus:ring-accent-yellow";
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="flex flex-col gap-1">
+        <label className="text-sm text-text-secondary">Name</label>
+        <input type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={inputClassName} />
+      </div>
+      <div className="flex flex-col gap-1">
+        <label className="text-sm text-text-secondary">System Prompt</label>
+        <textarea
+          value={draft.systemInstruction}
+          onChange={(e) => setDraft({ ...draft, systemInstruction: e.target.value })}
+          className={`${inputClassName} h-32 resize-y`}
+        />
+      </div>
+      <div className="flex items-center justify-between gap-4">
+        <label className="text-sm text-text-secondary">Default Model</label>
+        <select
+          value={draft.model}
+          onChange={(e) => setDraft({ ...draft, model: e.target.value as GeminiChatModel })}
+          disabled={isModelLocked}
+          className="bg-base-bg border border-border-color rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-accent-yellow disabled:opacity-70"
+        >
+          <option value="gemini-2.5-flash">Gemini 2.5 Flash</option>
+          <option value="gemini-2.5-pro">Gemini 2.5 Pro</option>
+        </select>
+      </div>
+      <GenerationConfigFields config={draft.generationConfig} onChange={(generationConfig) => setDraft({ ...draft, generationConfig })} />
+      <div className="flex gap-2 pt-2">
+        <button type="submit" disabled={!draft.name.trim()} className="flex-1 bg-accent-khaki text-white font-bold rounded-lg p-2 disabled:opacity-50 hover:bg-opacity-90 transition-colors">{saveLabel}</button>
+        <button type="button" onClick={onCancel} className="bg-border-color text-text-primary rounded-lg p-2 px-4 hover:bg-opacity-80 transition-colors">Cancel</button>
+      </div>
+    </form>
+  );
+};
+
+export default PersonaEditor;
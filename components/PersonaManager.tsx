@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { personaService, defaultPersona } from '../services/personaService';
+import { usePersonas } from '../hooks/usePersonas';
+import type { Persona } from '../types';
+import PersonaEditor from './PersonaEditor';
+import EditIcon from './icons/EditIcon';
+import TrashIcon from './icons/TrashIcon';
+
+const PersonaManager: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const personas = usePersonas();
+  const [editing, setEditing] = useState<Persona | null>(null);
+
+  const handleNew = () => {
+    setEditing({ ...defaultPersona, id: Date.now().toString(), name: '', systemInstruction: '' });
+  };
+
+  const handleSave = (persona: Persona) => {
+    personaService.savePersona(persona);
+    setEditing(null);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-component-bg rounded-lg shadow-2xl p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold text-text-primary">{editing ? (editing.name || 'New Persona') : 'Personas'}</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-border-color">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {editing ? (
+          <PersonaEditor key={editing.id} persona={editing} onSave={handleSave} onCancel={() => setEditing(null)} />
+        ) : (
+          <>
+            <p className="text-xs text-text-secondary mb-3">
+              Chats keep their own copy of the persona they use, so editing one here only affects new chats.
+            </p>
+            <div className="space-y-2 mb-4">
+              {personas.map(persona => (
+                <div key={persona.id} className="bg-base-bg rounded-md p-3 flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-semibold text-text-primary">{persona.name}</p>
+                    <p className="text-xs text-text-secondary truncate" title={persona.systemInstruction}>{persona.systemInstruction || 'No system prompt'}</p>
+                  </div>
+                  <div className="flex flex-shrink-0 gap-1">
+                    <button onClick={() => setEditing(persona)} className="p-1 rounded-full text-text-secondary hover:text-text-primary hover:bg-border-color" aria-label={`Edit ${persona.name}`}>
+                      <EditIcon className="w-4 h-4" />
+                    </button>
+                    {persona.id !== defaultPersona.id && (
+                      <button onClick={() => personaService.deletePersona(persona.id)} className="p-1 rounded-full text-text-secondary hover:text-red-400 hover:bg-border-color" aria-label={`Delete ${persona.name}`}>
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={handleNew}
+              className="w-full bg-accent-khaki text-white font-bold py-2 px-4 rounded-lg hover:bg-opacity-90 transition-colors"
+            >
+              New Persona
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PersonaManager;
@@ -0,0 +1,167 @@
+import React, { useState, useRef } from 'react';
+import { providerRegistry, providerNames } from '../services/providerRegistry';
+import { fixtureService } from '../services/fixtureService';
+import { downloadBlob } from '../services/exportService';
+import type { ProviderCapability, ProviderId, ProviderSettings as ProviderSettingsType, OpenAICompatibleSettings, FixtureMode } from '../types';
+
+const capabilityLabels: Record<ProviderCapability, string> = {
+  chat: 'Chat',
+  generation: 'Image Generation',
+  analysis: 'Image Analysis',
+  editing: 'Image Editing',
+};
+
+const endpointLabels: Record<keyof OpenAICompatibleSettings, string> = {
+  baseUrl: 'Base URL',
+  apiKey: 'API Key (optional)',
+  chatModel: 'Chat Model',
+  imageModel: 'Image Model (optional)',
+};
+
+const fixtureModeLabels: Record<FixtureMode, string> = {
+  off: 'Off (live requests)',
+  record: 'Record',
+  replay: 'Replay',
+};
+
+const ProviderSettings: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const [settings, setSettings] = useState<ProviderSettingsType>(providerRegistry.getSettings());
+  const [fixtureMode, setFixtureMode] = useState<FixtureMode>(fixtureService.getMode());
+  const [fixtureCount, setFixtureCount] = useState(fixtureService.getEntryCount());
+  const [fixtureError, setFixtureError] = useState<string | null>(null);
+  const fixtureInputRef = useRef<HTMLInputElement>(null);
+
+  const handleAssignmentChange = (capability: ProviderCapability, id: ProviderId) => {
+    setSettings({ ...settings, assignments: { ...settings.assignments, [capability]: id } });
+  };
+
+  const handleEndpointChange = (key: keyof OpenAICompatibleSettings, value: string) => {
+    setSettings({ ...settings, openAICompatible: { ...settings.openAICompatible, [key]: value } });
+  };
+
+  const handleDownloadFixtures = () => {
+    const blob = new Blob([JSON.stringify(fixtureService.toFile(), null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `gemini-creative-suite-fixtures-${Date.now()}.json`);
+  };
+
+  const handleLoadFixtures = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      try {
+        fixtureService.load(JSON.parse(await file.text()));
+        setFixtureCount(fixtureService.getEntryCount());
+        setFixtureMode('replay');
+        setFixtureError(null);
+      } catch (error) {
+        console.error("Error loading fixture file:", error);
+        setFixtureError('This file is not a valid fixture file.');
+      }
+    }
+    if (e.target) e.target.value = '';
+  };
+
+  const handleClearFixtures = () => {
+    fixtureService.clear();
+    setFixtureCount(0);
+  };
+
+  const handleSave = () => {
+    // The mode is set first so that registry listeners see it when deciding whether a key is needed.
+    fixtureService.setMode(fixtureMode);
+    providerRegistry.updateSettings(settings);
+    onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-component-bg rounded-lg shadow-2xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold text-text-primary">Model Providers</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-border-color">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="mb-6">
+          <h3 className="text-lg font-semibold mb-2 text-text-secondary">Assignments</h3>
+          <div className="space-y-3">
+            {(Object.keys(capabilityLabels) as ProviderCapability[]).map((capability) => (
+              <div key={capability} className="flex items-center justify-between gap-4">
+                <label className="text-sm text-text-secondary">{capabilityLabels[capability]}</label>
+                <select
+                  value={settings.assignments[capability]}
+                  onChange={(e) => handleAssignmentChange(capability, e.target.value as ProviderId)}
+                  className="bg-base-bg border border-border-color rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-accent-yellow"
+                >
+                  {(Object.keys(providerNames) as ProviderId[]).map(id => <option key={id} value={id}>{providerNames[id]}</option>)}
+                </select>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="mb-6">
+          <h3 className="text-lg font-semibold mb-2 text-text-secondary">Local Endpoint</h3>
+          <p className="text-xs text-text-secondary mb-3">
+            Any server exposing the OpenAI REST API, such as Ollama or llama.cpp. The chat model set here is used instead of the Gemini model picked in the chat window.
+          </p>
+          <div className="space-y-3">
+            {(Object.keys(endpointLabels) as (keyof OpenAICompatibleSettings)[]).map((key) => (
+              <div key={key} className="flex flex-col gap-1">
+                <label className="text-sm text-text-secondary">{endpointLabels[key]}</label>
+                <input
+                  type={key === 'apiKey' ? 'password' : 'text'}
+                  value={settings.openAICompatible[key]}
+                  onChange={(e) => handleEndpointChange(key, e.target.value)}
+                  className="w-full bg-base-bg border border-border-color rounded-lg py-2 px-3 focus:outline-none focus:ring-2 focus:ring-accent-yellow"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="mb-6">
+          <h3 className="text-lg font-semibold mb-2 text-text-secondary">Fixtures</h3>
+          <p className="text-xs text-text-secondary mb-3">
+            Record saves every request and response. Replay serves them back offline, including stream timing and failures.
+          </p>
+          <div className="flex items-center justify-between gap-4 mb-3">
+            <label className="text-sm text-text-secondary">Mode</label>
+            <select
+              value={fixtureMode}
+              onChange={(e) => setFixtureMode(e.target.value as FixtureMode)}
+              className="bg-base-bg border border-border-color rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-accent-yellow"
+            >
+              {(Object.keys(fixtureModeLabels) as FixtureMode[]).map(mode => <option key={mode} value={mode}>{fixtureModeLabels[mode]}</option>)}
+            </select>
+          </div>
+          <p className="text-sm text-text-secondary mb-2">{fixtureCount} recorded {fixtureCount === 1 ? 'entry' : 'entries'}</p>
+          <div className="flex gap-2">
+            <button onClick={handleDownloadFixtures} disabled={fixtureCount === 0} className="flex-1 bg-base-bg border border-border-color rounded-lg p-2 text-sm hover:bg-border-color disabled:opacity-50 transition-colors">Download</button>
+            <button onClick={() => fixtureInputRef.current?.click()} className="flex-1 bg-base-bg border border-border-color rounded-lg p-2 text-sm hover:bg-border-color transition-colors">Load File</button>
+            <button onClick={handleClearFixtures} disabled={fixtureCount === 0} className="flex-1 bg-base-bg border border-border-color rounded-lg p-2 text-sm hover:bg-border-color disabled:opacity-50 transition-colors">Clear</button>
+          </div>
+          <input type="file" ref={fixtureInputRef} onChange={handleLoadFixtures} className="hidden" accept="application/json,.json" />
+          {fixtureError && <p className="text-red-400 text-sm mt-2">{fixtureError}</p>}
+        </div>
+
+        <button
+          onClick={handleSave}
+          className="w-full bg-accent-khaki text-white font-bold py-2 px-4 rounded-lg hover:bg-opacity-90 transition-colors"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ProviderSettings;
@@ -0,0 +1,14 @@
+import React from 'react';
+
+// Stands in for an image whose bytes were removed from storage; the session around it is kept.
+const RemovedImage: React.FC<{ className?: string; style?: React.CSSProperties }> = ({ className = '', style }) => (
+  <div
+    className={`flex items-center justify-center text-center text-xs text-text-secondary border border-dashed border-border-color rounded-md p-2 ${className}`}
+    style={style}
+    title="This image was removed to free up storage."
+  >
+    Image removed
+  </div>
+);
+
+export default RemovedImage;
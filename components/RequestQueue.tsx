@@ -0,0 +1,63 @@
+import React, { useState, useEffect } from 'react';
+import { useRequestQueue } from '../hooks/useRequestQueue';
+import type { RequestJobStatus } from '../types';
+import SpinnerIcon from './icons/SpinnerIcon';
+
+const statusLabels: Record<RequestJobStatus, string> = {
+  pending: 'Queued',
+  running: 'Running',
+  retrying: 'Retrying',
+};
+
+const RequestQueue: React.FC = () => {
+  const jobs = useRequestQueue();
+  const [isOpen, setIsOpen] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  const hasCountdown = jobs.some(job => job.nextAttemptAt);
+  useEffect(() => {
+    if (!hasCountdown) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [hasCountdown]);
+
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  const runningCount = jobs.filter(job => job.status === 'running').length;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-2 rounded-lg bg-base-bg hover:bg-border-color transition-colors text-sm"
+        aria-label="Show request queue"
+      >
+        <SpinnerIcon className="w-4 h-4 text-accent-yellow" />
+        {runningCount} running / {jobs.length - runningCount} waiting
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-component-bg border border-border-color rounded-lg shadow-2xl z-40 p-2 space-y-2">
+          {jobs.map(job => (
+            <div key={job.id} className="bg-base-bg rounded-md p-2 text-sm">
+              <div className="flex justify-between gap-2">
+                <p className="font-semibold text-text-primary truncate">{job.label}</p>
+                <span className={`flex-shrink-0 ${job.status === 'retrying' ? 'text-accent-orange' : 'text-text-secondary'}`}>
+                  {statusLabels[job.status]}
+                </span>
+              </div>
+              <p className="text-xs text-text-secondary">
+                {job.model}{job.attempt > 1 && ` · attempt ${job.attempt}`}
+                {job.nextAttemptAt && ` · next try in ${Math.max(0, Math.ceil((job.nextAttemptAt - now) / 1000))}s`}
+              </p>
+              {job.lastError && <p className="text-xs text-red-400 truncate" title={job.lastError}>{job.lastError}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RequestQueue;
@@ -0,0 +1,37 @@
+import React, { useState } from 'react';
+import { useStorageEstimate } from '../hooks/useStorageEstimate';
+import { isNearQuota } from '../services/storageService';
+import { formatBytes } from '../services/attachments';
+
+interface StorageNoticeProps {
+  onOpenStorage: () => void;
+}
+
+// Warns while there is still room to clean up; once the quota is hit, saves start failing.
+const StorageNotice: React.FC<StorageNoticeProps> = ({ onOpenStorage }) => {
+  const estimate = useStorageEstimate();
+  const [isDismissed, setIsDismissed] = useState(false);
+
+  if (!estimate || !isNearQuota(estimate) || isDismissed) {
+    return null;
+  }
+
+  return (
+    <div role="alert" className="flex-shrink-0 flex items-center justify-between gap-3 p-3 rounded-lg border border-red-500 bg-red-500/10 text-text-primary">
+      <p className="text-sm">
+        <span className="font-semibold text-red-400">Storage is almost full.</span>{' '}
+        {formatBytes(estimate.usage)} of {formatBytes(estimate.quota)} used. Free some space before new sessions fail to save.
+      </p>
+      <div className="flex gap-2 flex-shrink-0">
+        <button onClick={onOpenStorage} className="bg-accent-khaki text-white text-sm font-semibold rounded-lg py-1 px-3 hover:bg-opacity-90 transition-colors">
+          Manage storage
+        </button>
+        <button onClick={() => setIsDismissed(true)} className="bg-border-color text-text-primary text-sm rounded-lg py-1 px-3 hover:bg-opacity-80 transition-colors">
+          Dismiss
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default StorageNotice;
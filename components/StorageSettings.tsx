@@ -0,0 +1,289 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { dbService } from '../services/dbService';
+import { storageService, isNearQuota } from '../services/storageService';
+import { formatBytes } from '../services/attachments';
+import type { BackupProgress, CleanupResult, ConversationType, ImageUsage, StorageReport } from '../types';
+import SpinnerIcon from './icons/SpinnerIcon';
+
+const LIST_LIMIT = 8;
+
+const typeLabels: Record<ConversationType, string> = {
+  chat: 'Chat',
+  imageEditing: 'Image edit',
+  imageGeneration: 'Image generation',
+};
+
+interface StorageSettingsProps {
+  onClose: () => void;
+  onOpenSession: (id: string) => void;
+  // Called after a cleanup rewrote sessions, so the history list and the open session can reload.
+  onCleanedUp: () => void;
+}
+
+const ImageThumbnail: React.FC<{ image: ImageUsage }> = ({ image }) => {
+  const [url, setUrl] = useState('');
+
+  useEffect(() => {
+    dbService.getImageUrl(image.hash).then(setUrl);
+  }, [image.hash]);
+
+  return url
+    ? <img src={url} alt="" className="w-10 h-10 object-cover rounded flex-shrink-0 bg-base-bg" />
+    : <div className="w-10 h-10 rounded flex-shrink-0 bg-base-bg" />;
+};
+
+const describeResult = (result: CleanupResult): string => {
+  const parts = [`Freed about ${formatBytes(Math.max(result.freedBytes, 0))}`];
+  if (result.changedSessions > 0) parts.push(`${result.changedSessions} session${result.changedSessions === 1 ? '' : 's'} changed`);
+  if (result.removedImages > 0) parts.push(`${result.removedImages} image${result.removedImages === 1 ? '' : 's'} removed`);
+  return `${parts.join(', ')}.`;
+};
+
+const StorageSettings: React.FC<StorageSettingsProps> = ({ onClose, onOpenSession, onCleanedUp }) => {
+  const [report, setReport] = useState<StorageReport | null>(null);
+  const [maxAgeDays, setMaxAgeDays] = useState(30);
+  const [progress, setProgress] = useState<BackupProgress | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const isBusy = progress !== null;
+
+  const loadReport = useCallback(async () => {
+    try {
+      setReport(await storageService.getReport());
+    } catch (e) {
+      setError(`Could not read storage usage: ${(e as Error).message}`);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const runCleanup = async (label: string, confirmation: string, cleanup: () => Promise<CleanupResult>) => {
+    if (!window.confirm(confirmation)) return;
+    setError(null);
+    setResult(null);
+    setProgress({ label, fraction: 0 });
+    try {
+      setResult(describeResult(await cleanup()));
+      onCleanedUp();
+    } catch (e) {
+      setError(`Cleanup failed: ${(e as Error).message}`);
+    } finally {
+      setProgress(null);
+      await loadReport();
+    }
+  };
+
+  const estimate = report?.estimate ?? null;
+  const usedFraction = estimate && estimate.quota > 0 ? Math.min(estimate.usage / estimate.quota, 1) : 0;
+  const sessionBytes = report?.sessions.reduce((sum, session) => sum + session.recordBytes, 0) ?? 0;
+  const imageBytes = report?.images.reduce((sum, image) => sum + image.size, 0) ?? 0;
+  const titles = new Map(report?.sessions.map(session => [session.conversationId, session.title]));
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50"
+      onClick={() => !isBusy && onClose()}
+    >
+      <div
+        className="bg-component-bg rounded-lg shadow-2xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold text-text-primary">Storage</h2>
+          <button onClick={onClose} disabled={isBusy} className="p-1 rounded-full hover:bg-border-color disabled:opacity-50">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {!report && !error && (
+          <div className="flex items-center gap-2 text-sm text-text-secondary">
+            <SpinnerIcon className="w-4 h-4" /> Measuring storage...
+          </div>
+        )}
+
+        {report && (
+          <>
+            <div className="mb-6">
+              {estimate ? (
+                <>
+                  <div className="flex justify-between text-sm text-text-primary mb-1">
+                    <span>{formatBytes(estimate.usage)} used</span>
+                    <span className="text-text-secondary">of {formatBytes(estimate.quota)} available to this app</span>
+                  </div>
+                  <div className="h-2 bg-base-bg rounded-full overflow-hidden">
+                    <div
+                      className={`h-full transition-all ${isNearQuota(estimate) ? 'bg-red-500' : 'bg-accent-yellow'}`}
+                      style={{ width: `${usedFraction * 100}%` }}
+                    />
+                  </div>
+                  {isNearQuota(estimate) && (
+                    <p className="text-xs text-red-400 mt-1">Storage is almost full. New messages and images may fail to save until space is freed.</p>
+                  )}
+                </>
+              ) : (
+                <p className="text-sm text-text-secondary">This browser does not report how much storage is available.</p>
+              )}
+              <ul className="text-xs text-text-secondary mt-3 space-y-1">
+                <li>Sessions (text and attachments): {formatBytes(sessionBytes)}</li>
+                <li>Images in use: {formatBytes(imageBytes)}</li>
+                <li>Images no session uses: {formatBytes(report.unusedImageBytes)} ({report.unusedImageCount})</li>
+                {report.migrationBackupCount > 0 && (
+                  <li>Pre-upgrade copies of {report.migrationBackupCount} session{report.migrationBackupCount === 1 ? '' : 's'}: {formatBytes(report.migrationBackupBytes)}</li>
+                )}
+              </ul>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+              <div>
+                <h3 className="text-lg font-semibold mb-2 text-text-secondary">Largest sessions</h3>
+                <ul className="space-y-1">
+                  {report.sessions.slice(0, LIST_LIMIT).map(session => (
+                    <li key={session.conversationId}>
+                      <button
+                        onClick={() => onOpenSession(session.conversationId)}
+                        disabled={isBusy}
+                        className="w-full flex justify-between gap-2 text-left text-sm rounded px-2 py-1 hover:bg-base-bg disabled:opacity-50"
+                      >
+                        <span className="min-w-0">
+                          <span className="block truncate text-text-primary">{session.title}</span>
+                          <span className="block text-xs text-text-secondary">{typeLabels[session.type]}</span>
+                        </span>
+                        <span className="flex-shrink-0 text-text-secondary">{formatBytes(session.recordBytes + session.imageBytes)}</span>
+                      </button>
+                    </li>
+                  ))}
+                  {report.sessions.length === 0 && <li className="text-sm text-text-secondary">No sessions yet.</li>}
+                </ul>
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold mb-2 text-text-secondary">Largest images</h3>
+                <ul className="space-y-1">
+                  {report.images.slice(0, LIST_LIMIT).map(image => (
+                    <li key={image.hash}>
+                      <button
+                        onClick={() => onOpenSession(image.conversationIds[0])}
+                        disabled={isBusy}
+                        className="w-full flex items-center gap-2 text-left text-sm rounded px-2 py-1 hover:bg-base-bg disabled:opacity-50"
+                        title={image.conversationIds.map(id => titles.get(id)).join('\n')}
+                      >
+                        <ImageThumbnail image={image} />
+                        <span className="min-w-0 flex-grow">
+                          <span className="block truncate text-text-primary">{titles.get(image.conversationIds[0])}</span>
+                          <span className="block text-xs text-text-secondary">
+                            {image.mimeType.replace('image/', '').toUpperCase()}
+                            {image.conversationIds.length > 1 && ` · used by ${image.conversationIds.length} sessions`}
+                          </span>
+                        </span>
+                        <span className="flex-shrink-0 text-text-secondary">{formatBytes(image.size)}</span>
+                      </button>
+                    </li>
+                  ))}
+                  {report.images.length === 0 && <li className="text-sm text-text-secondary">No stored images.</li>}
+                </ul>
+              </div>
+            </div>
+
+            <div className="mb-2">
+              <h3 className="text-lg font-semibold mb-2 text-text-secondary">Clean up</h3>
+              <p className="text-xs text-text-secondary mb-3">
+                None of these can be undone. Download a backup first if you may want the removed data back.
+              </p>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-3 bg-base-bg rounded-lg p-3">
+                  <p className="text-sm text-text-primary">Drop chat branches that are not shown, from edited or regenerated messages.</p>
+                  <button
+                    onClick={() => runCleanup('Removing unused branches', 'Remove every chat branch that is not currently shown?', () => storageService.pruneBranches())}
+                    disabled={isBusy}
+                    className="flex-shrink-0 bg-accent-khaki text-white text-sm font-semibold rounded-lg py-1 px-3 hover:bg-opacity-90 disabled:opacity-50 transition-colors"
+                  >
+                    Drop branches
+                  </button>
+                </div>
+                <div className="flex items-center justify-between gap-3 bg-base-bg rounded-lg p-3">
+                  <p className="text-sm text-text-primary">
+                    Remove images stored more than
+                    <input
+                      type="number"
+                      min={1}
+                      value={maxAgeDays}
+                      onChange={(e) => setMaxAgeDays(Math.max(1, Number(e.target.value) || 1))}
+                      disabled={isBusy}
+                      className="w-16 mx-2 bg-component-bg border border-border-color rounded px-1 text-sm"
+                      aria-label="Age in days"
+                    />
+                    days ago. Prompts, text and replies are kept.
+                  </p>
+                  <button
+                    onClick={() => runCleanup(
+                      'Removing old images',
+                      `Remove every image stored more than ${maxAgeDays} days ago? Sessions will show them as removed.`,
+                      () => storageService.removeImagesOlderThan(maxAgeDays)
+                    )}
+                    disabled={isBusy}
+                    className="flex-shrink-0 bg-accent-khaki text-white text-sm font-semibold rounded-lg py-1 px-3 hover:bg-opacity-90 disabled:opacity-50 transition-colors"
+                  >
+                    Remove images
+                  </button>
+                </div>
+                <div className="flex items-center justify-between gap-3 bg-base-bg rounded-lg p-3">
+                  <p className="text-sm text-text-primary">Convert PNG images to JPEG where that makes them smaller. Transparent areas become white.</p>
+                  <button
+                    onClick={() => runCleanup('Compressing images', 'Convert every PNG image to JPEG? Some quality is lost.', () => storageService.compressPngs(setProgress))}
+                    disabled={isBusy}
+                    className="flex-shrink-0 bg-accent-khaki text-white text-sm font-semibold rounded-lg py-1 px-3 hover:bg-opacity-90 disabled:opacity-50 transition-colors"
+                  >
+                    Compress
+                  </button>
+                </div>
+                {report.unusedImageCount > 0 && (
+                  <div className="flex items-center justify-between gap-3 bg-base-bg rounded-lg p-3">
+                    <p className="text-sm text-text-primary">Delete images that no session uses any more.</p>
+                    <button
+                      onClick={() => runCleanup('Removing unused images', 'Delete images that no session uses?', () => storageService.removeUnusedImages())}
+                      disabled={isBusy}
+                      className="flex-shrink-0 bg-accent-khaki text-white text-sm font-semibold rounded-lg py-1 px-3 hover:bg-opacity-90 disabled:opacity-50 transition-colors"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                )}
+                {report.migrationBackupCount > 0 && (
+                  <div className="flex items-center justify-between gap-3 bg-base-bg rounded-lg p-3">
+                    <p className="text-sm text-text-primary">Delete the copies of sessions kept from before the last database upgrade.</p>
+                    <button
+                      onClick={() => runCleanup('Deleting pre-upgrade copies', 'Delete the pre-upgrade copies? They cannot be downloaded afterwards.', () => storageService.clearMigrationBackups())}
+                      disabled={isBusy}
+                      className="flex-shrink-0 bg-accent-khaki text-white text-sm font-semibold rounded-lg py-1 px-3 hover:bg-opacity-90 disabled:opacity-50 transition-colors"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+
+        {progress && (
+          <div className="mt-4">
+            <div className="flex justify-between text-xs text-text-secondary mb-1">
+              <span>{progress.label}</span>
+              <span>{Math.round(progress.fraction * 100)}%</span>
+            </div>
+            <div className="h-2 bg-base-bg rounded-full overflow-hidden">
+              <div className="h-full bg-accent-yellow transition-all" style={{ width: `${progress.fraction * 100}%` }} />
+            </div>
+          </div>
+        )}
+        {error && <p className="text-red-400 text-sm mt-4">{error}</p>}
+        {result && <p className="mt-4 bg-base-bg rounded-lg p-3 text-sm text-text-primary">{result}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default StorageSettings;
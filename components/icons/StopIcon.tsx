@@ -0,0 +1,18 @@
+import type React from 'react';
+
+const StopIcon: React.FC<{ className?: string }> = ({ className = 'w-6 h-6' }) => (
+    <svg 
+        xmlns="http://www.w3.org/2000/svg" 
+        viewBox="0 0 24 24" 
+        fill="currentColor" 
+        className={className}
+    >
+        <path 
+            fillRule="evenodd" 
+            d="M4.5 7.5a3 3 0 0 1 3-3h9a3 3 0 0 1 3 3v9a3 3 0 0 1-3 3h-9a3 3 0 0 1-3-3v-9Z" 
+            clipRule="evenodd" 
+        />
+    </svg>
+);
+
+export default StopIcon;
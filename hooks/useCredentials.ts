@@ -0,0 +1,31 @@
+import { useState, useEffect } from 'react';
+import { credentialService } from '../services/credentialService';
+import { providerRegistry } from '../services/providerRegistry';
+import type { CredentialStatus } from '../types';
+
+interface CredentialState {
+  status: CredentialStatus;
+  needsKey: boolean;
+}
+
+const readState = (): CredentialState => ({
+  status: credentialService.getStatus(),
+  needsKey: providerRegistry.needsGeminiKey(),
+});
+
+export const useCredentials = (): CredentialState => {
+  const [state, setState] = useState<CredentialState>(readState);
+
+  useEffect(() => {
+    const update = () => setState(readState());
+    update();
+    const unsubscribeCredentials = credentialService.subscribe(update);
+    const unsubscribeRegistry = providerRegistry.subscribe(update);
+    return () => {
+      unsubscribeCredentials();
+      unsubscribeRegistry();
+    };
+  }, []);
+
+  return state;
+};
@@ -0,0 +1,45 @@
+import { useState, useRef, type DragEvent } from 'react';
+import { hasFiles } from '../services/attachments';
+
+interface FileDropProps {
+  onDragEnter: (e: DragEvent) => void;
+  onDragOver: (e: DragEvent) => void;
+  onDragLeave: (e: DragEvent) => void;
+  onDrop: (e: DragEvent) => void;
+}
+
+// Spread `dropProps` on the element that accepts files. Enter and leave fire for every child the
+// pointer crosses, so a counter tracks whether the drag is still somewhere inside the element.
+export const useFileDrop = (onFiles: (files: File[]) => void): { isDragging: boolean; dropProps: FileDropProps } => {
+  const [isDragging, setIsDragging] = useState(false);
+  const depthRef = useRef(0);
+
+  const dropProps: FileDropProps = {
+    onDragEnter: (e) => {
+      if (!hasFiles(e.dataTransfer)) return;
+      e.preventDefault();
+      depthRef.current++;
+      setIsDragging(true);
+    },
+    onDragOver: (e) => {
+      if (!hasFiles(e.dataTransfer)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'copy';
+    },
+    onDragLeave: (e) => {
+      if (!hasFiles(e.dataTransfer)) return;
+      depthRef.current = Math.max(0, depthRef.current - 1);
+      if (depthRef.current === 0) setIsDragging(false);
+    },
+    onDrop: (e) => {
+      if (!hasFiles(e.dataTransfer)) return;
+      e.preventDefault();
+      depthRef.current = 0;
+      setIsDragging(false);
+      const files = Array.from(e.dataTransfer.files);
+      if (files.length > 0) onFiles(files);
+    },
+  };
+
+  return { isDragging, dropProps };
+};
@@ -0,0 +1,44 @@
+import { useState, useEffect } from 'react';
+
+export interface ImageBox {
+  // Position and size on screen, relative to the image's offset parent.
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  naturalWidth: number;
+  naturalHeight: number;
+}
+
+// Where an <img> is drawn, so overlays can be laid exactly over it. The image must keep its aspect ratio
+// (no fixed width and height). Null until the image has loaded.
+export const useImageBox = (image: HTMLImageElement | null): ImageBox | null => {
+  const [box, setBox] = useState<ImageBox | null>(null);
+
+  useEffect(() => {
+    if (!image) {
+      setBox(null);
+      return;
+    }
+    const update = () => setBox(image.naturalWidth === 0 ? null : {
+      left: image.offsetLeft,
+      top: image.offsetTop,
+      width: image.offsetWidth,
+      height: image.offsetHeight,
+      naturalWidth: image.naturalWidth,
+      naturalHeight: image.naturalHeight,
+    });
+    update();
+    image.addEventListener('load', update);
+    // The parent is watched too: it can move a centred image without resizing it.
+    const observer = new ResizeObserver(update);
+    observer.observe(image);
+    if (image.parentElement) observer.observe(image.parentElement);
+    return () => {
+      image.removeEventListener('load', update);
+      observer.disconnect();
+    };
+  }, [image]);
+
+  return box;
+};
@@ -0,0 +1,14 @@
+import { useState, useEffect } from 'react';
+import { dbService } from '../services/dbService';
+import type { MigrationStatus } from '../types';
+
+export const useMigrationStatus = (): MigrationStatus => {
+  const [status, setStatus] = useState<MigrationStatus>(dbService.getMigrationStatus());
+
+  useEffect(() => {
+    setStatus(dbService.getMigrationStatus());
+    return dbService.subscribeMigrationStatus(setStatus);
+  }, []);
+
+  return status;
+};
@@ -0,0 +1,20 @@
+import { useEffect, useRef } from 'react';
+
+// Listens on the window so a screenshot can be pasted whether or not an input has focus.
+// Pastes without files, i.e. ordinary text, are left alone.
+export const usePasteFiles = (onFiles: (files: File[]) => void, enabled = true): void => {
+  const onFilesRef = useRef(onFiles);
+  onFilesRef.current = onFiles;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handlePaste = (e: ClipboardEvent) => {
+      const files = Array.from(e.clipboardData?.files || []);
+      if (files.length === 0) return;
+      e.preventDefault();
+      onFilesRef.current(files);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [enabled]);
+};
@@ -0,0 +1,14 @@
+import { useState, useEffect } from 'react';
+import { personaService } from '../services/personaService';
+import type { Persona } from '../types';
+
+export const usePersonas = (): Persona[] => {
+  const [personas, setPersonas] = useState<Persona[]>(personaService.getPersonas());
+
+  useEffect(() => {
+    setPersonas(personaService.getPersonas());
+    return personaService.subscribe(setPersonas);
+  }, []);
+
+  return personas;
+};
@@ -0,0 +1,14 @@
+import { useState, useEffect } from 'react';
+import { requestScheduler } from '../services/requestScheduler';
+import type { RequestJob } from '../types';
+
+export const useRequestQueue = (): RequestJob[] => {
+  const [jobs, setJobs] = useState<RequestJob[]>(requestScheduler.getJobs());
+
+  useEffect(() => {
+    setJobs(requestScheduler.getJobs());
+    return requestScheduler.subscribe(setJobs);
+  }, []);
+
+  return jobs;
+};
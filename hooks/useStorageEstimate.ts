@@ -0,0 +1,14 @@
+import { useState, useEffect } from 'react';
+import { storageService } from '../services/storageService';
+import type { StorageEstimate } from '../types';
+
+export const useStorageEstimate = (): StorageEstimate | null => {
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(storageService.getEstimate());
+
+  useEffect(() => {
+    setEstimate(storageService.getEstimate());
+    return storageService.subscribe(setEstimate);
+  }, []);
+
+  return estimate;
+};
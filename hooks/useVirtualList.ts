@@ -0,0 +1,130 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+
+interface VirtualListOptions {
+  count: number;
+  getKey: (index: number) => string;
+  // Used for rows that have not been rendered yet; rendered rows are measured.
+  estimateSize: number;
+  // Pixels rendered beyond each edge of the viewport, so fast scrolling does not show gaps.
+  overscan?: number;
+}
+
+export interface VirtualList {
+  // Attach to the scrolling container.
+  scrollRef: (element: HTMLElement | null) => void;
+  // Indexes of the rows to render, in order.
+  indexes: number[];
+  // Heights of the spacers that stand in for the rows before and after them.
+  paddingTop: number;
+  paddingBottom: number;
+  // Attach to each rendered row so its real height replaces the estimate.
+  measureRef: (key: string) => (element: HTMLElement | null) => void;
+  scrollToIndex: (index: number, block?: ScrollLogicalPosition) => void;
+}
+
+// Renders only the rows near the viewport of the scrolling container. Rows may have any height and may change size.
+export const useVirtualList = ({ count, getKey, estimateSize, overscan = 800 }: VirtualListOptions): VirtualList => {
+  // State rather than a ref object, so a container that unmounts and comes back is picked up again.
+  const [scrollElement, setScrollElement] = useState<HTMLElement | null>(null);
+  const sizesRef = useRef(new Map<string, number>());
+  const elementKeysRef = useRef(new Map<Element, string>());
+  const refCallbacksRef = useRef(new Map<string, (element: HTMLElement | null) => void>());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const [, setMeasuredVersion] = useState(0);
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+
+  useEffect(() => {
+    const element = scrollElement;
+    if (!element) return;
+    const update = () => setViewport({ scrollTop: element.scrollTop, height: element.clientHeight });
+    update();
+    element.addEventListener('scroll', update, { passive: true });
+    const resizeObserver = new ResizeObserver(update);
+    resizeObserver.observe(element);
+    return () => {
+      element.removeEventListener('scroll', update);
+      resizeObserver.disconnect();
+    };
+  }, [scrollElement]);
+
+  useEffect(() => {
+    observerRef.current = new ResizeObserver(entries => {
+      let changed = false;
+      for (const entry of entries) {
+        const key = elementKeysRef.current.get(entry.target);
+        const size = entry.borderBoxSize?.[0]?.blockSize ?? entry.target.getBoundingClientRect().height;
+        if (key !== undefined && sizesRef.current.get(key) !== size) {
+          sizesRef.current.set(key, size);
+          changed = true;
+        }
+      }
+      if (changed) setMeasuredVersion(v => v + 1);
+    });
+    elementKeysRef.current.forEach((_, element) => observerRef.current?.observe(element));
+    return () => observerRef.current?.disconnect();
+  }, []);
+
+  // One callback per key, so React does not detach and reattach every row on each render.
+  const measureRef = useCallback((key: string) => {
+    let callback = refCallbacksRef.current.get(key);
+    if (!callback) {
+      let observed: HTMLElement | null = null;
+      callback = (element: HTMLElement | null) => {
+        if (observed) {
+          observerRef.current?.unobserve(observed);
+          elementKeysRef.current.delete(observed);
+        }
+        observed = element;
+        if (element) {
+          elementKeysRef.current.set(element, key);
+          observerRef.current?.observe(element);
+        }
+      };
+      refCallbacksRef.current.set(key, callback);
+    }
+    return callback;
+  }, []);
+
+  // offsets[i] is where row i starts; offsets[count] is the full height.
+  const offsets = new Array<number>(count + 1);
+  offsets[0] = 0;
+  for (let i = 0; i < count; i++) {
+    offsets[i + 1] = offsets[i] + (sizesRef.current.get(getKey(i)) ?? estimateSize);
+  }
+
+  // The first row ending after `position`.
+  const findIndex = (position: number): number => {
+    let low = 0;
+    let high = count - 1;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (offsets[mid + 1] <= position) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  };
+
+  const start = count === 0 ? 0 : findIndex(Math.max(0, viewport.scrollTop - overscan));
+  const end = count === 0 ? -1 : findIndex(viewport.scrollTop + viewport.height + overscan);
+  const indexes: number[] = [];
+  for (let i = start; i <= end; i++) indexes.push(i);
+
+  const scrollToIndex = (index: number, block: ScrollLogicalPosition = 'start') => {
+    const element = scrollElement;
+    if (!element || index < 0 || index >= count) return;
+    const rowSize = offsets[index + 1] - offsets[index];
+    const top = block === 'center' ? offsets[index] - (element.clientHeight - rowSize) / 2
+      : block === 'end' ? offsets[index + 1] - element.clientHeight
+      : offsets[index];
+    element.scrollTo({ top: Math.max(0, top) });
+  };
+
+  return {
+    scrollRef: setScrollElement,
+    indexes,
+    paddingTop: offsets[start] ?? 0,
+    paddingBottom: count === 0 ? 0 : offsets[count] - offsets[end + 1],
+    measureRef,
+    scrollToIndex,
+  };
+};
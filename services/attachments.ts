@@ -0,0 +1,76 @@
+// Gemini accepts at most 20 MB of inline data per request, and base64 inflates files by a third.
+export const MAX_ATTACHMENT_BYTES = 15 * 1024 * 1024;
+export const MAX_ATTACHMENTS = 10;
+
+const supportedMimeTypes = [
+  'image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif',
+  'application/pdf',
+  'text/plain', 'text/csv', 'text/markdown', 'text/html', 'text/xml', 'application/json',
+  'audio/wav', 'audio/mp3', 'audio/mpeg', 'audio/aiff', 'audio/aac', 'audio/ogg', 'audio/flac',
+];
+
+// Browsers leave file.type empty for many text formats, so fall back to the extension.
+const mimeTypesByExtension: Record<string, string> = {
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  json: 'application/json',
+  xml: 'text/xml',
+  html: 'text/html',
+  pdf: 'application/pdf',
+  mp3: 'audio/mp3',
+  wav: 'audio/wav',
+  flac: 'audio/flac',
+  ogg: 'audio/ogg',
+};
+
+export const attachmentAccept = [...supportedMimeTypes, ...Object.keys(mimeTypesByExtension).map(ext => `.${ext}`)].join(',');
+
+export const resolveMimeType = (file: File): string => {
+  if (file.type) return file.type;
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  return mimeTypesByExtension[extension] ?? 'application/octet-stream';
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+// Returns a message for the user when the files cannot be sent together with what is already attached, or null when they can.
+export const validateAttachments = (files: File[], existingCount: number, existingBytes: number): string | null => {
+  const unsupported = files.find(file => !supportedMimeTypes.includes(resolveMimeType(file)));
+  if (unsupported) {
+    return `"${unsupported.name}" can't be attached: ${resolveMimeType(unsupported)} files are not supported. Use images, PDF, text, CSV or audio files.`;
+  }
+  if (existingCount + files.length > MAX_ATTACHMENTS) {
+    return `You can attach up to ${MAX_ATTACHMENTS} files per message.`;
+  }
+  const totalBytes = files.reduce((sum, file) => sum + file.size, existingBytes);
+  if (totalBytes > MAX_ATTACHMENT_BYTES) {
+    return `Attachments add up to ${formatBytes(totalBytes)}; the limit is ${formatBytes(MAX_ATTACHMENT_BYTES)} per message.`;
+  }
+  return null;
+};
+
+// Resolves to the bare base64 payload, without the "data:mime/type;base64," prefix.
+export const fileToBase64 = (file: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(file);
+    reader.onload = () => {
+      const result = reader.result as string;
+      resolve(result.split(',')[1]);
+    };
+    reader.onerror = (error) => reject(error);
+  });
+};
+
+export const base64ToBlob = (base64: string, mimeType: string): Blob =>
+  new Blob([Uint8Array.from(atob(base64), c => c.charCodeAt(0))], { type: mimeType });
+
+// True for drags that carry files, as opposed to dragged text or links.
+export const hasFiles = (dataTransfer: DataTransfer | null): boolean =>
+  !!dataTransfer && Array.from(dataTransfer.types).includes('Files');
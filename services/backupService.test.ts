@@ -0,0 +1,150 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { backupService } from './backupService';
+import { personaService } from './personaService';
+import type { Conversation, Folder, ImageEditingConversation, ImageRecord, Persona, StoredImage, WorkspaceBackup } from '../types';
+
+// jsdom's Blob has no text(), so it is read the way the app reads files.
+const readText = vi.hoisted(() => (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(blob);
+  }));
+
+// An in-memory stand-in for the IndexedDB stores the backup reads and writes.
+const db = vi.hoisted(() => ({
+  conversations: new Map<string, unknown>(),
+  images: new Map<string, unknown>(),
+  folders: [] as unknown[],
+}));
+
+vi.mock('./dbService', () => ({
+  dbService: {
+    getAllConversations: async () => [...db.conversations.values()],
+    getConversationIds: async () => [...db.conversations.keys()],
+    getConversationRecord: async (id: string) => db.conversations.get(id) ?? null,
+    addOrUpdateConversation: async (convo: Conversation) => void db.conversations.set(convo.id, structuredClone(convo)),
+    clearConversations: async () => db.conversations.clear(),
+    getAllImages: async () => [...db.images.values()],
+    putImage: async (blob: Blob, mimeType = blob.type): Promise<StoredImage> => {
+      const hash = `hash-of-${await readText(blob)}`;
+      db.images.set(hash, { hash, blob, mimeType, size: blob.size, createdAt: 0 });
+      return { hash, mimeType, size: blob.size, url: '' };
+    },
+    getFolders: async () => [...db.folders],
+    saveFolder: async (folder: Folder) => void db.folders.push(folder),
+    clearFolders: async () => void db.folders.splice(0),
+    getMigrationBackups: async () => [],
+  },
+}));
+
+const storedImage = (content: string): StoredImage => ({ hash: `hash-of-${content}`, mimeType: 'image/png', size: content.length, url: '' });
+
+const session = (id: string, prompt: string): ImageEditingConversation => ({
+  id,
+  title: `Edit ${prompt}`,
+  createdAt: 1_700_000_000_000,
+  isFavorite: false,
+  type: 'imageEditing',
+  baseImage: storedImage('base'),
+  history: [{ prompt, editedImage: storedImage(prompt), timestamp: 1_700_000_000_100 }],
+});
+
+const seed = (...conversations: Conversation[]) => {
+  for (const convo of conversations) {
+    db.conversations.set(convo.id, structuredClone(convo));
+    for (const content of ['base', ...(convo.type === 'imageEditing' ? convo.history.map(e => e.prompt) : [])]) {
+      const record: ImageRecord = { hash: `hash-of-${content}`, blob: new Blob([content], { type: 'image/png' }), mimeType: 'image/png', size: content.length, createdAt: 0 };
+      db.images.set(record.hash, record);
+    }
+  }
+};
+
+const readBackup = async (): Promise<WorkspaceBackup> => JSON.parse(await readText(await backupService.createBackup()));
+
+const toFile = (backup: unknown): File => new File([JSON.stringify(backup)], 'backup.json', { type: 'application/json' });
+
+beforeEach(() => {
+  db.conversations.clear();
+  db.images.clear();
+  db.folders.splice(0);
+  localStorage.clear();
+});
+
+describe('backupService.createBackup', () => {
+  it('writes a manifest, the sessions, their images and folders', async () => {
+    seed(session('1', 'sepia'));
+    db.folders.push({ id: 'f1', name: 'Work', parentId: null, createdAt: 1 });
+    const backup = await readBackup();
+    expect(backup.manifest).toMatchObject({ format: 'gemini-creative-suite-backup', schemaVersion: 3, conversationCount: 1, imageCount: 2, folderCount: 1 });
+    expect(backup.conversations).toEqual([session('1', 'sepia')]);
+    expect(backup.images).toContainEqual({ hash: 'hash-of-sepia', mimeType: 'image/png', base64: btoa('sepia') });
+    expect(backup.folders).toEqual([{ id: 'f1', name: 'Work', parentId: null, createdAt: 1 }]);
+  });
+
+  it('includes settings but never the API key', async () => {
+    localStorage.setItem('themeName', 'dark');
+    localStorage.setItem('geminiCredentials', JSON.stringify({ apiKey: 'secret' }));
+    const backup = await readBackup();
+    expect(backup.settings).toEqual({ themeName: 'dark' });
+    expect(backup.manifest.settingsKeys).toEqual(['themeName']);
+    expect(JSON.stringify(backup)).not.toContain('secret');
+  });
+});
+
+describe('backupService.restoreBackup', () => {
+  it('brings a replaced workspace back exactly', async () => {
+    seed(session('1', 'sepia'), session('2', 'blur'));
+    const file = toFile(await readBackup());
+    db.conversations.clear();
+    db.images.clear();
+    seed(session('3', 'local'));
+
+    const progress: number[] = [];
+    const report = await backupService.restoreBackup(file, 'replace', p => progress.push(p.fraction));
+
+    expect(report).toMatchObject({ added: 2, renamed: 0, skipped: 0 });
+    expect([...db.conversations.values()]).toEqual([session('1', 'sepia'), session('2', 'blur')]);
+    expect(await readText((db.images.get('hash-of-blur') as ImageRecord).blob)).toBe('blur');
+    expect(progress.at(-1)).toBe(1);
+  });
+
+  it('skips identical sessions and keeps both when a merged id belongs to a different session', async () => {
+    seed(session('1', 'sepia'), session('2', 'blur'));
+    const file = toFile(await readBackup());
+    db.conversations.set('2', session('2', 'changed locally'));
+
+    const report = await backupService.restoreBackup(file, 'merge');
+
+    expect(report).toMatchObject({ added: 1, renamed: 1, skipped: 1 });
+    expect(db.conversations.get('2')).toEqual(session('2', 'changed locally'));
+    const renamed = [...db.conversations.values()].filter(convo => !['1', '2'].includes((convo as Conversation).id));
+    expect(renamed).toEqual([{ ...session('2', 'blur'), id: expect.any(String) }]);
+  });
+
+  it('keeps local settings on merge and only adds personas that are missing', async () => {
+    const archived: Persona = { id: 'poet', name: 'Poet', systemInstruction: 'Rhyme.', model: 'gemini-2.5-flash', generationConfig: {} };
+    localStorage.setItem('themeName', 'light');
+    const file = toFile({
+      ...(await readBackup()),
+      settings: { themeName: 'dark', customTheme: '{}', personas: JSON.stringify([archived]) },
+    });
+
+    const report = await backupService.restoreBackup(file, 'merge');
+
+    expect(localStorage.getItem('themeName')).toBe('light');
+    expect(localStorage.getItem('customTheme')).toBe('{}');
+    expect(personaService.getPersonas().map(p => p.id)).toContain('poet');
+    expect(report.settingsRestored).toEqual(['customTheme', 'personas']);
+  });
+
+  it('refuses files that are not backups, or come from a newer version', async () => {
+    await expect(backupService.restoreBackup(new File(['{nope'], 'x.json'), 'merge')).rejects.toThrow('not a valid backup archive');
+    await expect(backupService.restoreBackup(toFile({ conversations: [] }), 'merge')).rejects.toThrow('not a Gemini Creative Suite backup');
+    const newer = await readBackup();
+    newer.manifest.schemaVersion = 99;
+    await expect(backupService.restoreBackup(toFile(newer), 'replace')).rejects.toThrow('newer version of the app (schema 99)');
+  });
+});
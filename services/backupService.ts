@@ -0,0 +1,187 @@
+import type { BackupManifest, BackupProgress, Conversation, Folder, ImageRecord, Persona, RestoreMode, RestoreReport, WorkspaceBackup } from '../types';
+import { dbService } from './dbService';
+import { personaService } from './personaService';
+import { downloadBlob } from './exportService';
+import { base64ToBlob, fileToBase64 } from './attachments';
+import { collectImages } from './imageRefs';
+
+const BACKUP_FORMAT = 'gemini-creative-suite-backup';
+const BACKUP_SCHEMA_VERSION = 3;
+
+// The API key is deliberately left out: a backup file is easy to share by accident.
+const SETTINGS_KEYS = ['themeName', 'customTheme', 'personas', 'providerSettings', 'fixtureMode'];
+const PERSONAS_KEY = 'personas';
+
+type ProgressListener = (progress: BackupProgress) => void;
+
+const readFileText = (file: File, onProgress: ProgressListener): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onprogress = (e) => {
+      if (e.lengthComputable) onProgress({ label: 'Reading archive', fraction: (e.loaded / e.total) * 0.3 });
+    };
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+
+const parseBackup = (text: string): WorkspaceBackup => {
+  let backup: WorkspaceBackup;
+  try {
+    backup = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not a valid backup archive.');
+  }
+  const manifest = backup?.manifest;
+  if (manifest?.format !== BACKUP_FORMAT || !Array.isArray(backup.conversations)) {
+    throw new Error('This file is not a Gemini Creative Suite backup.');
+  }
+  if (manifest.schemaVersion > BACKUP_SCHEMA_VERSION) {
+    throw new Error(`This backup was made by a newer version of the app (schema ${manifest.schemaVersion}). Update the app to restore it.`);
+  }
+  return backup;
+};
+
+const uniqueId = (taken: Set<string>): string => {
+  let candidate = Date.now();
+  while (taken.has(candidate.toString())) candidate++;
+  return candidate.toString();
+};
+
+class BackupService {
+  async createBackup(onProgress: ProgressListener = () => {}): Promise<Blob> {
+    onProgress({ label: 'Reading sessions', fraction: 0 });
+    const conversations = await dbService.getAllConversations();
+    const images = await dbService.getAllImages();
+    const folders = await dbService.getFolders();
+    const settings: Record<string, string> = {};
+    SETTINGS_KEYS.forEach(key => {
+      const value = localStorage.getItem(key);
+      if (value !== null) settings[key] = value;
+    });
+    return this.buildArchive(conversations, images, folders, settings, onProgress);
+  }
+
+  // Written piece by piece so a large workspace never has to exist as one giant string.
+  private async buildArchive(
+    conversations: Conversation[],
+    images: ImageRecord[],
+    folders: Folder[],
+    settings: Record<string, string>,
+    onProgress: ProgressListener
+  ): Promise<Blob> {
+    const manifest: BackupManifest = {
+      format: BACKUP_FORMAT,
+      schemaVersion: BACKUP_SCHEMA_VERSION,
+      createdAt: Date.now(),
+      conversationCount: conversations.length,
+      imageCount: images.length,
+      folderCount: folders.length,
+      settingsKeys: Object.keys(settings),
+    };
+
+    const total = Math.max(images.length + conversations.length, 1);
+    const parts: string[] = [`{"manifest":${JSON.stringify(manifest)},"settings":${JSON.stringify(settings)},"folders":${JSON.stringify(folders)},"images":[`];
+    for (const [i, image] of images.entries()) {
+      const entry = { hash: image.hash, mimeType: image.mimeType, base64: await fileToBase64(image.blob) };
+      parts.push((i > 0 ? ',' : '') + JSON.stringify(entry));
+      onProgress({ label: 'Packing images', fraction: (i + 1) / total });
+    }
+    parts.push('],"conversations":[');
+    conversations.forEach((convo, i) => {
+      parts.push((i > 0 ? ',' : '') + JSON.stringify(convo));
+      onProgress({ label: 'Packing sessions', fraction: (images.length + i + 1) / total });
+    });
+    parts.push(']}');
+    return new Blob(parts, { type: 'application/json' });
+  }
+
+  async downloadBackup(onProgress?: ProgressListener): Promise<void> {
+    const blob = await this.createBackup(onProgress);
+    downloadBlob(blob, `gemini-creative-suite-backup-${new Date().toISOString().slice(0, 10)}.json`);
+  }
+
+  // The sessions the last database upgrade rewrote, as they were before it, in the regular archive format so
+  // they can be brought back through restore.
+  async downloadMigrationBackup(): Promise<void> {
+    const conversations = (await dbService.getMigrationBackups()).map(backup => backup.record);
+    const hashes = new Set(conversations.flatMap(collectImages).map(image => image.hash));
+    const images = (await dbService.getAllImages()).filter(image => hashes.has(image.hash));
+    const blob = await this.buildArchive(conversations, images, [], {}, () => {});
+    downloadBlob(blob, `gemini-creative-suite-pre-upgrade-${new Date().toISOString().slice(0, 10)}.json`);
+  }
+
+  async restoreBackup(file: File, mode: RestoreMode, onProgress: ProgressListener = () => {}): Promise<RestoreReport> {
+    const backup = parseBackup(await readFileText(file, onProgress));
+    const report: RestoreReport = { added: 0, renamed: 0, skipped: 0, settingsRestored: [] };
+
+    if (mode === 'replace') {
+      onProgress({ label: 'Clearing current sessions', fraction: 0.3 });
+      await dbService.clearConversations();
+      await dbService.clearFolders();
+    }
+    // Merging keeps local folders; archived ones are only added where the id is free.
+    const knownFolders = new Set((await dbService.getFolders()).map(folder => folder.id));
+    for (const folder of backup.folders ?? []) {
+      if (!knownFolders.has(folder.id)) await dbService.saveFolder(folder);
+    }
+    const images = backup.images ?? [];
+    const total = images.length + backup.conversations.length;
+    // Images go in first so every restored session finds its pictures. putImage hashes the bytes again, so a damaged entry cannot take over another image's key.
+    for (const [i, image] of images.entries()) {
+      onProgress({ label: `Restoring images (${i + 1}/${images.length})`, fraction: 0.3 + ((i + 1) / total) * 0.7 });
+      await dbService.putImage(base64ToBlob(image.base64, image.mimeType));
+    }
+
+    const takenIds = new Set(await dbService.getConversationIds());
+    for (const [i, archived] of backup.conversations.entries()) {
+      onProgress({ label: `Restoring sessions (${i + 1}/${backup.conversations.length})`, fraction: 0.3 + ((images.length + i + 1) / total) * 0.7 });
+      let convo: Conversation = archived;
+      if (takenIds.has(convo.id)) {
+        const existing = await dbService.getConversationRecord(convo.id);
+        if (JSON.stringify(existing) === JSON.stringify(convo)) {
+          report.skipped++;
+          continue;
+        }
+        // Same id, different session: keep both rather than overwrite local work.
+        convo = { ...convo, id: uniqueId(takenIds) };
+        report.renamed++;
+      }
+      await dbService.addOrUpdateConversation(convo);
+      takenIds.add(convo.id);
+      report.added++;
+    }
+
+    report.settingsRestored = this.restoreSettings(backup.settings ?? {}, mode);
+    onProgress({ label: 'Done', fraction: 1 });
+    return report;
+  }
+
+  // Replace takes the archived settings wholesale. Merge only fills in what is missing here and adds
+  // archived personas that do not exist yet, so local preferences win.
+  private restoreSettings(settings: Record<string, string>, mode: RestoreMode): string[] {
+    const restored: string[] = [];
+    SETTINGS_KEYS.forEach(key => {
+      const value = settings[key];
+      if (mode === 'replace') {
+        if (value === undefined) {
+          localStorage.removeItem(key);
+          return;
+        }
+        localStorage.setItem(key, value);
+        restored.push(key);
+      } else if (key === PERSONAS_KEY && value !== undefined) {
+        const known = new Set(personaService.getPersonas().map(p => p.id));
+        const added = (JSON.parse(value) as Persona[]).filter(p => !known.has(p.id));
+        added.forEach(p => personaService.savePersona(p));
+        if (added.length > 0) restored.push(key);
+      } else if (value !== undefined && localStorage.getItem(key) === null) {
+        localStorage.setItem(key, value);
+        restored.push(key);
+      }
+    });
+    return restored;
+  }
+}
+
+export const backupService = new BackupService();
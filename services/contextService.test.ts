@@ -0,0 +1,108 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CONTEXT_TOKEN_BUDGET, contextService } from './contextService';
+import { Author, type ChatMessage, type ContextSummary, type MessagePart } from '../types';
+
+const stored = vi.hoisted(() => ({ images: new Map<string, Blob>() }));
+const summarize = vi.hoisted(() => vi.fn(async (previous: string | null, transcript: string) => `summary of ${transcript.length} chars`));
+
+vi.mock('./dbService', () => ({ dbService: { getImageBlob: async (hash: string) => stored.images.get(hash) ?? null } }));
+vi.mock('./geminiService', () => ({ geminiService: { summarizeConversation: summarize } }));
+
+// Images small enough to be sent as they are, so downsampling never needs a real canvas.
+class SmallImage {
+  width = 64;
+  height = 64;
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  set src(_url: string) {
+    setTimeout(() => this.onload?.());
+  }
+}
+vi.stubGlobal('Image', SmallImage);
+
+let nextId = 0;
+const message = (...parts: MessagePart[]): ChatMessage => {
+  const id = String(++nextId);
+  return { id, author: nextId % 2 ? Author.USER : Author.MODEL, parentId: null, parts };
+};
+const text = (length: number): MessagePart => ({ type: 'text', text: 'x'.repeat(length) });
+const image = (hash: string): MessagePart => ({ type: 'image', hash, mimeType: 'image/png', size: 3, url: `blob:${hash}` });
+
+// Each is a quarter of the whole budget, in characters at four per token.
+const quarter = () => message(text(CONTEXT_TOKEN_BUDGET));
+
+beforeEach(() => {
+  summarize.mockClear();
+  stored.images.clear();
+});
+
+describe('contextService.buildContext', () => {
+  it('sends a history that fits the budget as it is', async () => {
+    const history = [message(text(400)), message(text(800))];
+    const context = await contextService.buildContext(history, null);
+
+    expect(context).toEqual({ messages: history, summary: null, estimatedTokens: 300 });
+    expect(summarize).not.toHaveBeenCalled();
+  });
+
+  it('folds the oldest messages into a summary once the budget is exceeded', async () => {
+    const history = [quarter(), quarter(), quarter(), quarter(), quarter()];
+    const context = await contextService.buildContext(history, null);
+
+    // The newest two fit in the part of the budget kept verbatim.
+    expect(context.messages).toEqual(history.slice(3));
+    expect(context.summary).toMatchObject({ text: expect.stringMatching(/^summary of/), throughMessageId: history[2].id });
+    expect(summarize).toHaveBeenCalledWith(null, expect.stringMatching(/^User: x+\n\nAssistant: x+\n\nUser: x+$/), undefined);
+    expect(context.estimatedTokens).toBeLessThan(CONTEXT_TOKEN_BUDGET);
+  });
+
+  it('only sends what came after an existing summary, and extends that summary', async () => {
+    const history = [quarter(), quarter(), quarter(), quarter(), quarter(), quarter()];
+    const summary: ContextSummary = { text: 'Earlier: greetings.', throughMessageId: history[0].id, updatedAt: 1 };
+
+    const context = await contextService.buildContext(history, summary);
+
+    expect(summarize).toHaveBeenCalledWith('Earlier: greetings.', expect.any(String), undefined);
+    expect(context.summary?.throughMessageId).toBe(history[3].id);
+    expect(context.messages).toEqual(history.slice(4));
+  });
+
+  it('drops a summary whose last message is no longer in the history', async () => {
+    const history = [message(text(40))];
+    const summary: ContextSummary = { text: 'Old branch.', throughMessageId: 'gone', updatedAt: 1 };
+    expect((await contextService.buildContext(history, summary)).summary).toBeNull();
+  });
+
+  it('sends the four newest images and notes the older ones', async () => {
+    const hashes = ['a', 'b', 'c', 'd', 'e'];
+    hashes.forEach(hash => stored.images.set(hash, new Blob([hash], { type: 'image/png' })));
+    const context = await contextService.buildContext(hashes.map(hash => message(image(hash))), null);
+
+    expect(context.messages.map(msg => msg.parts[0])).toEqual([
+      { type: 'text', text: '[An image was attached here but is no longer in context]' },
+      ...hashes.slice(1).map(hash => ({ ...image(hash), base64: btoa(hash) })),
+    ]);
+  });
+
+  it('notes images deleted from storage instead of failing the whole chat', async () => {
+    stored.images.set('kept', new Blob(['kept'], { type: 'image/png' }));
+    const history = [message(image('deleted-old')), message(image('kept'), text(40)), message(image('deleted-new'))];
+
+    const context = await contextService.buildContext(history, null);
+
+    const removed = { type: 'text', text: '[An image was attached here but has since been deleted]' };
+    expect(context.messages.map(msg => msg.parts[0])).toEqual([removed, { ...image('kept'), base64: btoa('kept') }, removed]);
+  });
+
+  it('looks again for an image that was missing on an earlier turn', async () => {
+    const history = [message(image('restored')), message(image('latest'))];
+    stored.images.set('latest', new Blob(['latest'], { type: 'image/png' }));
+    await contextService.buildContext(history, null);
+
+    stored.images.set('restored', new Blob(['restored'], { type: 'image/png' }));
+    const context = await contextService.buildContext(history, null);
+
+    expect(context.messages[0].parts[0]).toEqual({ ...image('restored'), base64: btoa('restored') });
+  });
+});
@@ -0,0 +1,177 @@
+import type { ChatMessage, ContextSummary, ImagePart, MessagePart } from '../types';
+import { Author } from '../types';
+import { dbService } from './dbService';
+import { fileToBase64 } from './attachments';
+import { geminiService } from './geminiService';
+
+// Budgets are deliberately far below the models' limits: long prompts are slow and billed on every turn.
+export const CONTEXT_TOKEN_BUDGET = 32000;
+// Once the budget is exceeded, the newest messages that fit in here are kept verbatim and the rest is summarized.
+const RECENT_TOKEN_BUDGET = 20000;
+// Gemini bills an image of up to 768x768 as a flat 258 tokens.
+const IMAGE_TOKENS = 258;
+const FULL_RESOLUTION_IMAGES = 1;
+const MAX_IMAGES = 4;
+const DOWNSAMPLED_SIZE = 384;
+const OMITTED_IMAGE_TEXT = '[An image was attached here but is no longer in context]';
+const REMOVED_IMAGE_TEXT = '[An image was attached here but has since been deleted]';
+
+export interface ChatContext {
+  messages: ChatMessage[];
+  summary: ContextSummary | null;
+  estimatedTokens: number;
+}
+
+// Roughly four characters per token for English text; close enough for budgeting without a round trip.
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const estimatePartTokens = (part: MessagePart): number => {
+  switch (part.type) {
+    case 'text':
+      return estimateTokens(part.text);
+    case 'image':
+      return IMAGE_TOKENS;
+    case 'attachment':
+      // Text costs about a token per four bytes; PDFs and audio are billed by page and second, which the size only hints at.
+      return Math.ceil(part.size / (part.mimeType.startsWith('text/') ? 4 : 100));
+    default:
+      // Generated images are shown in the chat but never sent back to the model.
+      return 0;
+  }
+};
+
+export const estimateMessageTokens = (message: ChatMessage): number =>
+  message.parts.reduce((sum, part) => sum + estimatePartTokens(part), 0);
+
+// Stored images carry no bytes; the provider needs them inline. One removed to free up storage becomes a note,
+// so the rest of the chat can still be sent.
+const withBase64 = async (part: ImagePart): Promise<MessagePart> => {
+  const blob = await dbService.getImageBlob(part.hash);
+  if (!blob) return { type: 'text', text: REMOVED_IMAGE_TEXT };
+  return { ...part, base64: await fileToBase64(blob) };
+};
+
+const downsampleImage = (part: ImagePart, maxSize: number): Promise<MessagePart> => {
+  return new Promise((resolve) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+      if (scale === 1) {
+        resolve(withBase64(part));
+        return;
+      }
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+      canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+      const dataUrl = canvas.toDataURL('image/jpeg', 0.85);
+      resolve({ ...part, mimeType: 'image/jpeg', base64: dataUrl.split(',')[1] });
+    };
+    // An image the browser cannot decode is sent as it is and left for the API to judge.
+    img.onerror = () => resolve(withBase64(part));
+    img.src = part.url;
+  });
+};
+
+const describePart = (part: MessagePart): string => {
+  switch (part.type) {
+    case 'text':
+      return part.text;
+    case 'image':
+      return '[image]';
+    case 'attachment':
+      return `[file: ${part.name}]`;
+    default:
+      return `[generated images: "${part.prompt}"]`;
+  }
+};
+
+// Flattens messages into a plain transcript for the summarizer.
+const toTranscript = (messages: ChatMessage[]): string =>
+  messages.map(msg => {
+    const text = msg.parts.map(describePart).join('\n');
+    return `${msg.author === Author.USER ? 'User' : 'Assistant'}: ${text}`;
+  }).join('\n\n');
+
+class ContextService {
+  // Old images are downsampled again on every turn otherwise. Keyed by content hash, so a repeated image is shrunk once.
+  private downsampled = new Map<string, Promise<MessagePart>>();
+
+  private getDownsampled(part: ImagePart): Promise<MessagePart> {
+    let result = this.downsampled.get(part.hash);
+    if (!result) {
+      result = downsampleImage(part, DOWNSAMPLED_SIZE);
+      this.downsampled.set(part.hash, result);
+      // Failures and removed images are not kept, so a later turn looks again.
+      const forget = () => this.downsampled.delete(part.hash);
+      result.then(reduced => { if (reduced.type !== 'image') forget(); }, forget);
+    }
+    return result;
+  }
+
+  // The newest image goes at full resolution, the next few are shrunk and anything older is replaced by a note.
+  private async reduceImages(messages: ChatMessage[]): Promise<ChatMessage[]> {
+    let imageCount = 0;
+    const reduced: ChatMessage[] = [];
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const message = messages[i];
+      const parts: MessagePart[] = [];
+      for (let j = message.parts.length - 1; j >= 0; j--) {
+        const part = message.parts[j];
+        if (part.type !== 'image') {
+          parts.unshift(part);
+          continue;
+        }
+        imageCount++;
+        if (imageCount <= FULL_RESOLUTION_IMAGES) {
+          parts.unshift(await withBase64(part));
+        } else if (imageCount <= MAX_IMAGES) {
+          parts.unshift(await this.getDownsampled(part));
+        } else {
+          parts.unshift({ type: 'text', text: OMITTED_IMAGE_TEXT });
+        }
+      }
+      reduced.unshift({ ...message, parts });
+    }
+    return reduced;
+  }
+
+  private estimateTotal(messages: ChatMessage[], summary: ContextSummary | null): number {
+    return messages.reduce((sum, msg) => sum + estimateMessageTokens(msg), summary ? estimateTokens(summary.text) : 0);
+  }
+
+  // Assembles what is actually sent for the next turn. When the history outgrows the budget the oldest
+  // messages are folded into the rolling summary, which callers should save back onto the conversation.
+  async buildContext(history: ChatMessage[], summary: ContextSummary | null, signal?: AbortSignal): Promise<ChatContext> {
+    const summarizedIndex = summary ? history.findIndex(msg => msg.id === summary.throughMessageId) : -1;
+    // A summary whose last message is gone from the history no longer describes it.
+    let currentSummary = summarizedIndex >= 0 ? summary : null;
+    let pending = history.slice(summarizedIndex + 1);
+
+    if (pending.length > 1 && this.estimateTotal(pending, currentSummary) > CONTEXT_TOKEN_BUDGET) {
+      // The newest message is always kept; older ones join it while they fit in the recent budget.
+      let splitIndex = pending.length - 1;
+      let recentTokens = estimateMessageTokens(pending[splitIndex]);
+      while (splitIndex > 0 && recentTokens + estimateMessageTokens(pending[splitIndex - 1]) <= RECENT_TOKEN_BUDGET) {
+        splitIndex--;
+        recentTokens += estimateMessageTokens(pending[splitIndex]);
+      }
+      const overflow = pending.slice(0, splitIndex);
+      if (overflow.length > 0) {
+        const text = await geminiService.summarizeConversation(currentSummary?.text ?? null, toTranscript(overflow), signal);
+        currentSummary = { text, throughMessageId: overflow[overflow.length - 1].id, updatedAt: Date.now() };
+        pending = pending.slice(splitIndex);
+      }
+    }
+
+    const messages = await this.reduceImages(pending);
+    return { messages, summary: currentSummary, estimatedTokens: this.estimateTotal(messages, currentSummary) };
+  }
+
+  withSummary(systemInstruction: string, summary: ContextSummary | null): string {
+    if (!summary) return systemInstruction;
+    return `${systemInstruction}\n\nSummary of the earlier part of this conversation, which is no longer shown to you in full:\n${summary.text}`;
+  }
+}
+
+export const contextService = new ContextService();
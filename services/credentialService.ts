@@ -0,0 +1,120 @@
+import type { CredentialStatus, GeminiCredentials } from '../types';
+import { validateGeminiCredentials } from './providers/geminiProvider';
+
+const STORAGE_KEY = 'geminiCredentials';
+const PBKDF2_ITERATIONS = 250000;
+
+// What lands in localStorage. With a passphrase only the encrypted form is kept.
+interface StoredCredentials {
+  plain?: GeminiCredentials;
+  encrypted?: { salt: string; iv: string; data: string };
+}
+
+const toBase64 = (buffer: ArrayBuffer | Uint8Array): string => {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const fromBase64 = (base64: string): Uint8Array => Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+};
+
+class CredentialService {
+  private credentials: GeminiCredentials | null = null;
+  private stored: StoredCredentials | null;
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    this.stored = this.readStorage();
+    this.credentials = this.stored?.plain ?? null;
+  }
+
+  private readStorage(): StoredCredentials | null {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      return saved ? JSON.parse(saved) : null;
+    } catch (error) {
+      console.error("Error loading credentials:", error);
+      return null;
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getStatus(): CredentialStatus {
+    if (this.credentials) return 'ready';
+    return this.stored?.encrypted ? 'locked' : 'missing';
+  }
+
+  getCredentials(): GeminiCredentials | null {
+    return this.credentials;
+  }
+
+  isPassphraseProtected(): boolean {
+    return !!this.stored?.encrypted;
+  }
+
+  validate(credentials: GeminiCredentials): Promise<void> {
+    return validateGeminiCredentials(credentials);
+  }
+
+  async save(credentials: GeminiCredentials, passphrase?: string): Promise<void> {
+    let stored: StoredCredentials;
+    if (passphrase) {
+      const salt = crypto.getRandomValues(new Uint8Array(16));
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const key = await deriveKey(passphrase, salt);
+      const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(credentials)));
+      stored = { encrypted: { salt: toBase64(salt), iv: toBase64(iv), data: toBase64(data) } };
+    } else {
+      stored = { plain: credentials };
+    }
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    this.stored = stored;
+    this.credentials = credentials;
+    this.notify();
+  }
+
+  // Rejects when the passphrase is wrong: AES-GCM authentication fails instead of returning garbage.
+  async unlock(passphrase: string): Promise<void> {
+    const encrypted = this.stored?.encrypted;
+    if (!encrypted) return;
+    const key = await deriveKey(passphrase, fromBase64(encrypted.salt));
+    try {
+      const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(encrypted.iv) }, key, fromBase64(encrypted.data));
+      this.credentials = JSON.parse(new TextDecoder().decode(data));
+    } catch {
+      throw new Error('Incorrect passphrase');
+    }
+    this.notify();
+  }
+
+  clear(): void {
+    localStorage.removeItem(STORAGE_KEY);
+    this.stored = null;
+    this.credentials = null;
+    this.notify();
+  }
+}
+
+export const credentialService = new CredentialService();
@@ -0,0 +1,75 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { afterAll, afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { dbService } from './dbService';
+import { Author, type ChatConversation, type ChatMessage, type SyncEvent } from '../types';
+
+// Another tab of the app, listening on the same channel.
+const otherTab = new BroadcastChannel('gemini-creative-suite-sync');
+let received: SyncEvent[] = [];
+otherTab.onmessage = (e: MessageEvent<SyncEvent>) => received.push(e.data);
+
+// Messages reach the other tab asynchronously.
+const settle = () => new Promise(resolve => setTimeout(resolve, 20));
+
+const message = (id: string, parentId: string | null): ChatMessage => ({ id, author: Author.USER, parentId, parts: [{ type: 'text', text: id }] });
+
+const chat = (id: string): ChatConversation => ({
+  id,
+  title: 'Chat',
+  createdAt: Number(id),
+  isFavorite: false,
+  type: 'chat',
+  modelUsed: 'gemini-2.5-flash',
+  messages: [message('1', null)],
+});
+
+const append = (id: string, msg: ChatMessage) =>
+  dbService.updateConversationRecord(id, record => record.type === 'chat' ? { ...record, messages: [...record.messages, msg] } : null);
+
+beforeEach(async () => {
+  await dbService.addOrUpdateConversation(chat('100'));
+  await settle();
+  received = [];
+});
+
+afterEach(async () => {
+  await dbService.deleteConversation('100');
+});
+
+afterAll(() => otherTab.close());
+
+describe('dbService.updateConversationRecord', () => {
+  it('keeps every message when two writers append at once', async () => {
+    await Promise.all([append('100', message('2', '1')), append('100', message('3', '1'))]);
+    const stored = await dbService.getConversationRecord('100');
+    expect(stored?.type === 'chat' && stored.messages.map(msg => msg.id)).toEqual(['1', '2', '3']);
+  });
+
+  it('stores image references without their page-lifetime urls', async () => {
+    const withImage: ChatMessage = { ...message('2', '1'), parts: [{ type: 'image', hash: 'abc', mimeType: 'image/png', size: 1, url: 'blob:http://localhost/1' }] };
+    const saved = await append('100', withImage);
+    expect(saved?.type === 'chat' && saved.messages[1].parts[0]).toMatchObject({ hash: 'abc', url: '' });
+  });
+
+  it('leaves the record and the other tabs alone when the update declines', async () => {
+    expect(await dbService.updateConversationRecord('100', () => null)).toBeNull();
+    expect(await dbService.updateConversationRecord('missing', record => record)).toBeNull();
+    await settle();
+    expect(received).toEqual([]);
+  });
+});
+
+describe('dbService sync events', () => {
+  it('tells other tabs which session changed or was deleted', async () => {
+    await append('100', message('2', '1'));
+    await dbService.addOrUpdateConversation(chat('200'));
+    await dbService.deleteConversation('200');
+    await settle();
+    expect(received).toEqual([
+      { type: 'conversationChanged', conversationId: '100' },
+      { type: 'conversationChanged', conversationId: '200' },
+      { type: 'conversationDeleted', conversationId: '200' },
+    ]);
+  });
+});
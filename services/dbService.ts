@@ -1,44 +1,284 @@
-import type { Conversation, ChatMessage } from '../types';
+import type { Conversation, ConversationSummary, ConversationType, Folder, ImageRecord, MigrationBackup, MigrationStatus, SearchEntry, SearchFilters, SearchResult, StoredImage } from '../types';
+import { clearImageUrls, mapImages } from './imageRefs';
+import { CONVERSATIONS_STORE, FOLDERS_STORE, IMAGES_STORE, LATEST_VERSION, MIGRATION_BACKUPS_STORE, SEARCH_INDEX_STORE, SUMMARIES_STORE, migrations } from './migrations';
+import { buildSearchEntry, findHits, matchesSearchFilters, tokenize } from './search';
+import { buildSummary } from './summaries';
+import { syncService } from './syncService';
 
 const DB_NAME = 'GeminiCreativeSuiteDB';
-const DB_VERSION = 1;
-const CONVERSATIONS_STORE = 'conversations';
+// The highest migration whose record step has finished for every stored session.
+const DATA_VERSION_KEY = 'dbDataVersion';
+const MIGRATION_BATCH_SIZE = 20;
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
 
 class DBService {
-  private db: IDBDatabase | null = null;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  // Object URLs are created once per image and kept for the page's lifetime, so re-opening a session is free.
+  private imageUrls = new Map<string, string>();
+  private dataVersion = Number(localStorage.getItem(DATA_VERSION_KEY) ?? 0);
+  private migrationStatus: MigrationStatus = { running: false, done: 0, total: 0, failures: [] };
+  private migrationListeners = new Set<(status: MigrationStatus) => void>();
 
-  private async getDB(): Promise<IDBDatabase> {
-    if (this.db) {
-      return this.db;
+  // Shared by every caller, so the database is opened and migrated once per page.
+  private getDB(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = this.openDB();
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
     }
+    return this.dbPromise;
+  }
+
+  private openDB(): Promise<IDBDatabase> {
     return new Promise((resolve, reject) => {
-      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      const request = indexedDB.open(DB_NAME, LATEST_VERSION);
       request.onerror = () => reject('Error opening DB');
-      request.onsuccess = (event) => {
-        this.db = (event.target as IDBOpenDBRequest).result;
-        resolve(this.db);
+      request.onblocked = () => this.updateMigrationStatus({
+        failures: [{ message: 'The database upgrade is waiting for other tabs of this app to close.' }],
+      });
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab is upgrading; step aside so it can, and reopen on the next call.
+        db.onversionchange = () => {
+          db.close();
+          this.dbPromise = null;
+        };
+        resolve(db);
+        if (this.dataVersion < LATEST_VERSION) {
+          this.runRecordMigrations().catch(error => this.updateMigrationStatus({
+            running: false,
+            failures: [...this.migrationStatus.failures, { message: `Upgrading stored sessions failed: ${errorMessage(error)}` }],
+          }));
+        }
       };
       request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        const store = db.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'id' });
-        store.createIndex('createdAt', 'createdAt', { unique: false });
-        store.createIndex('title', 'title', { unique: false });
+        const transaction = request.transaction!;
+        for (const migration of migrations) {
+          if (migration.version <= event.oldVersion || !migration.upgradeSchema) continue;
+          try {
+            migration.upgradeSchema(request.result, transaction);
+          } catch (error) {
+            this.updateMigrationStatus({
+              failures: [{ message: `Database upgrade to version ${migration.version} (${migration.description}) failed: ${errorMessage(error)}` }],
+            });
+            transaction.abort();
+            return;
+          }
+        }
       };
     });
   }
 
-  async addOrUpdateConversation(conversation: Conversation): Promise<void> {
+  getMigrationStatus(): MigrationStatus {
+    return this.migrationStatus;
+  }
+
+  subscribeMigrationStatus(listener: (status: MigrationStatus) => void): () => void {
+    this.migrationListeners.add(listener);
+    return () => {
+      this.migrationListeners.delete(listener);
+    };
+  }
+
+  private updateMigrationStatus(changes: Partial<MigrationStatus>): void {
+    this.migrationStatus = { ...this.migrationStatus, ...changes };
+    this.migrationListeners.forEach(listener => listener(this.migrationStatus));
+  }
+
+  // Applies every record step above `fromVersion`. The error names the step, since the caller only sees the record.
+  private async applyMigrations(record: Conversation, fromVersion: number): Promise<Conversation> {
+    let upgraded = record;
+    for (const migration of migrations) {
+      if (migration.version <= fromVersion || !migration.upgradeRecord) continue;
+      try {
+        upgraded = await migration.upgradeRecord(upgraded, { putImage: blob => this.putImage(blob) });
+      } catch (error) {
+        throw new Error(`${migration.description}: ${errorMessage(error)}`);
+      }
+    }
+    return upgraded;
+  }
+
+  // Rewrites every stored session in batches, in the background. Sessions that fail are left as they were
+  // and reported; the data version only moves forward once all of them succeed, so they are retried on the next start.
+  private async runRecordMigrations(): Promise<void> {
+    const fromVersion = this.dataVersion;
+    const ids = await this.getConversationIds();
+    const failures: MigrationStatus['failures'] = [];
+    this.updateMigrationStatus({ running: true, done: 0, total: ids.length, failures });
+    await this.deleteOldMigrationBackups();
+
+    for (let start = 0; start < ids.length; start += MIGRATION_BATCH_SIZE) {
+      const changed: { original: Conversation; upgraded: Conversation }[] = [];
+      for (const id of ids.slice(start, start + MIGRATION_BATCH_SIZE)) {
+        const original = await this.getRecord(id);
+        if (!original) continue;
+        try {
+          const upgraded = await this.dehydrate(await this.applyMigrations(original, fromVersion));
+          if (JSON.stringify(upgraded) !== JSON.stringify(original)) changed.push({ original, upgraded });
+        } catch (error) {
+          failures.push({ conversationId: id, title: original.title, message: errorMessage(error) });
+        }
+      }
+      await this.commitMigratedBatch(changed);
+      this.updateMigrationStatus({ done: Math.min(start + MIGRATION_BATCH_SIZE, ids.length), failures: [...failures] });
+      // Gives the page a turn between batches so a large history does not freeze the UI.
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    if (failures.length === 0) {
+      this.dataVersion = LATEST_VERSION;
+      localStorage.setItem(DATA_VERSION_KEY, String(LATEST_VERSION));
+    }
+    this.updateMigrationStatus({ running: false });
+  }
+
+  // The copy and the rewrite share one transaction, so a session is never changed without its backup.
+  private async commitMigratedBatch(changed: { original: Conversation; upgraded: Conversation }[]): Promise<void> {
+    if (changed.length === 0) return;
     const db = await this.getDB();
-    const transaction = db.transaction(CONVERSATIONS_STORE, 'readwrite');
+    const transaction = db.transaction([CONVERSATIONS_STORE, MIGRATION_BACKUPS_STORE, SEARCH_INDEX_STORE, SUMMARIES_STORE], 'readwrite');
     const store = transaction.objectStore(CONVERSATIONS_STORE);
-    store.put(conversation);
+    const backups = transaction.objectStore(MIGRATION_BACKUPS_STORE);
+    const searchIndex = transaction.objectStore(SEARCH_INDEX_STORE);
+    const summaries = transaction.objectStore(SUMMARIES_STORE);
+    changed.forEach(({ original, upgraded }) => {
+      const current = store.get(original.id);
+      current.onsuccess = () => {
+        // The app saved this session meanwhile, and saving writes the new shape already.
+        if (JSON.stringify(current.result) !== JSON.stringify(original)) return;
+        const backup: MigrationBackup = { version: LATEST_VERSION, id: original.id, record: original, createdAt: Date.now() };
+        backups.put(backup);
+        store.put(upgraded);
+        searchIndex.put(buildSearchEntry(upgraded));
+        summaries.put(buildSummary(upgraded));
+      };
+    });
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+    syncService.publish({ type: 'workspaceChanged' });
+  }
+
+  // Only the copies from the latest run are kept; older ones predate sessions that have been migrated since.
+  private async deleteOldMigrationBackups(): Promise<void> {
+    const db = await this.getDB();
+    const transaction = db.transaction(MIGRATION_BACKUPS_STORE, 'readwrite');
+    transaction.objectStore(MIGRATION_BACKUPS_STORE).delete(IDBKeyRange.upperBound([LATEST_VERSION], true));
     return new Promise((resolve, reject) => {
       transaction.oncomplete = () => resolve();
       transaction.onerror = () => reject(transaction.error);
     });
   }
 
-  async getConversation(id: string): Promise<Conversation | null> {
+  async getMigrationBackups(): Promise<MigrationBackup[]> {
+    const db = await this.getDB();
+    const transaction = db.transaction(MIGRATION_BACKUPS_STORE, 'readonly');
+    const request = transaction.objectStore(MIGRATION_BACKUPS_STORE).getAll();
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async clearMigrationBackups(): Promise<void> {
+    const db = await this.getDB();
+    const transaction = db.transaction(MIGRATION_BACKUPS_STORE, 'readwrite');
+    transaction.objectStore(MIGRATION_BACKUPS_STORE).clear();
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Stores the bytes once per distinct content. Returns a reference with a ready-to-use object URL.
+  async putImage(blob: Blob, mimeType = blob.type || 'image/png'): Promise<StoredImage> {
+    const hash = toHex(await crypto.subtle.digest('SHA-256', await blob.arrayBuffer()));
+    const db = await this.getDB();
+    const transaction = db.transaction(IMAGES_STORE, 'readwrite');
+    const store = transaction.objectStore(IMAGES_STORE);
+    const existing = store.getKey(hash);
+    existing.onsuccess = () => {
+      if (existing.result === undefined) {
+        const record: ImageRecord = { hash, blob, mimeType, size: blob.size, createdAt: Date.now() };
+        store.put(record);
+      }
+    };
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+    if (!this.imageUrls.has(hash)) this.imageUrls.set(hash, URL.createObjectURL(blob));
+    return { hash, mimeType, size: blob.size, url: this.imageUrls.get(hash)! };
+  }
+
+  async getImageBlob(hash: string): Promise<Blob | null> {
+    const db = await this.getDB();
+    const transaction = db.transaction(IMAGES_STORE, 'readonly');
+    const request = transaction.objectStore(IMAGES_STORE).get(hash);
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve((request.result as ImageRecord | undefined)?.blob ?? null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getAllImages(): Promise<ImageRecord[]> {
+    const db = await this.getDB();
+    const transaction = db.transaction(IMAGES_STORE, 'readonly');
+    const request = transaction.objectStore(IMAGES_STORE).getAll();
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Sessions that still point at a deleted image show it as removed.
+  async deleteImages(hashes: string[]): Promise<void> {
+    const db = await this.getDB();
+    const transaction = db.transaction(IMAGES_STORE, 'readwrite');
+    const store = transaction.objectStore(IMAGES_STORE);
+    hashes.forEach(hash => store.delete(hash));
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+    hashes.forEach(hash => {
+      const url = this.imageUrls.get(hash);
+      if (url) URL.revokeObjectURL(url);
+      this.imageUrls.delete(hash);
+    });
+  }
+
+  // Reading the record does not load the bytes; browsers back stored Blobs with files until they are used.
+  // Empty when the image is no longer in the store.
+  async getImageUrl(hash: string): Promise<string> {
+    let url = this.imageUrls.get(hash);
+    if (!url) {
+      const blob = await this.getImageBlob(hash);
+      url = blob ? URL.createObjectURL(blob) : '';
+      if (url) this.imageUrls.set(hash, url);
+    }
+    return url;
+  }
+
+  // Records keep only the hash; urls are per page and filled in on read.
+  private dehydrate = async (convo: Conversation): Promise<Conversation> => clearImageUrls(convo);
+
+  private hydrateImage = async (image: StoredImage): Promise<StoredImage> => ({ ...image, url: await this.getImageUrl(image.hash) });
+
+  private async getRecord(id: string): Promise<Conversation | null> {
     const db = await this.getDB();
     const transaction = db.transaction(CONVERSATIONS_STORE, 'readonly');
     const store = transaction.objectStore(CONVERSATIONS_STORE);
@@ -49,6 +289,39 @@ class DBService {
     });
   }
 
+  // The search entry and the summary are written in the same transaction, so neither lags behind a saved message.
+  private async putRecord(conversation: Conversation): Promise<void> {
+    const db = await this.getDB();
+    const transaction = db.transaction([CONVERSATIONS_STORE, SEARCH_INDEX_STORE, SUMMARIES_STORE], 'readwrite');
+    transaction.objectStore(CONVERSATIONS_STORE).put(conversation);
+    transaction.objectStore(SEARCH_INDEX_STORE).put(buildSearchEntry(conversation));
+    transaction.objectStore(SUMMARIES_STORE).put(buildSummary(conversation));
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+    syncService.publish({ type: 'conversationChanged', conversationId: conversation.id });
+  }
+
+  // Runs every record migration, not just the pending ones, so sessions restored from old backups are upgraded too.
+  async addOrUpdateConversation(conversation: Conversation): Promise<void> {
+    await this.putRecord(await this.dehydrate(await this.applyMigrations(conversation, 0)));
+  }
+
+  // Image urls are filled in; records from getAllConversations and getConversationRecord leave them empty.
+  // Until the background run has reached it, the record is upgraded here on the fly.
+  async getConversation(id: string): Promise<Conversation | null> {
+    const record = await this.getRecord(id);
+    if (!record) return null;
+    const upgraded = this.dataVersion < LATEST_VERSION ? await this.applyMigrations(record, this.dataVersion) : record;
+    return mapImages(upgraded, this.hydrateImage);
+  }
+
+  // The record exactly as stored, for comparing and copying without loading any images.
+  getConversationRecord(id: string): Promise<Conversation | null> {
+    return this.getRecord(id);
+  }
+
   async getAllConversations(): Promise<Conversation[]> {
     const db = await this.getDB();
     const transaction = db.transaction(CONVERSATIONS_STORE, 'readonly');
@@ -60,15 +333,243 @@ class DBService {
     });
   }
   
-  async deleteConversation(id: string): Promise<void> {
+  async getConversationIds(): Promise<string[]> {
     const db = await this.getDB();
-    const transaction = db.transaction(CONVERSATIONS_STORE, 'readwrite');
+    const transaction = db.transaction(CONVERSATIONS_STORE, 'readonly');
     const store = transaction.objectStore(CONVERSATIONS_STORE);
-    store.delete(id);
+    const request = store.getAllKeys();
     return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as string[]);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async clearConversations(): Promise<void> {
+    const db = await this.getDB();
+    const transaction = db.transaction([CONVERSATIONS_STORE, SEARCH_INDEX_STORE, SUMMARIES_STORE], 'readwrite');
+    transaction.objectStore(CONVERSATIONS_STORE).clear();
+    transaction.objectStore(SEARCH_INDEX_STORE).clear();
+    transaction.objectStore(SUMMARIES_STORE).clear();
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+    syncService.publish({ type: 'workspaceChanged' });
+  }
+
+  async deleteConversation(id: string): Promise<void> {
+    const db = await this.getDB();
+    const transaction = db.transaction([CONVERSATIONS_STORE, SEARCH_INDEX_STORE, SUMMARIES_STORE], 'readwrite');
+    transaction.objectStore(CONVERSATIONS_STORE).delete(id);
+    transaction.objectStore(SEARCH_INDEX_STORE).delete(id);
+    transaction.objectStore(SUMMARIES_STORE).delete(id);
+    await new Promise<void>((resolve, reject) => {
         transaction.oncomplete = () => resolve();
         transaction.onerror = () => reject(transaction.error);
     });
+    syncService.publish({ type: 'conversationDeleted', conversationId: id });
+  }
+
+  // Reads and writes in one transaction, so nothing saved in between is overwritten, not even from another tab.
+  // `update` gets the record as stored and returns the new one, or null to leave it alone. Image urls are cleared
+  // on the way in, so hydrated messages and images can be passed in as they are.
+  async updateConversationRecord(id: string, update: (record: Conversation) => Conversation | null): Promise<Conversation | null> {
+    const db = await this.getDB();
+    const transaction = db.transaction([CONVERSATIONS_STORE, SEARCH_INDEX_STORE, SUMMARIES_STORE], 'readwrite');
+    const store = transaction.objectStore(CONVERSATIONS_STORE);
+    const request = store.get(id);
+    let updated: Conversation | null = null;
+    request.onsuccess = () => {
+      const result = request.result ? update(request.result) : null;
+      if (!result) return;
+      updated = clearImageUrls(result);
+      store.put(updated);
+      transaction.objectStore(SEARCH_INDEX_STORE).put(buildSearchEntry(updated));
+      transaction.objectStore(SUMMARIES_STORE).put(buildSummary(updated));
+    };
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+    if (updated) syncService.publish({ type: 'conversationChanged', conversationId: id });
+    return updated;
+  }
+
+  // Newest first. Pass the last summary of the previous page as `after` to get the next page.
+  async getConversationSummaries(limit: number, after?: ConversationSummary): Promise<ConversationSummary[]> {
+    const db = await this.getDB();
+    const index = db.transaction(SUMMARIES_STORE, 'readonly').objectStore(SUMMARIES_STORE).index('recent');
+    const range = after ? IDBKeyRange.upperBound([after.createdAt, after.id], true) : null;
+    const cursor = index.openCursor(range, 'prev');
+    const page: ConversationSummary[] = [];
+    return new Promise((resolve, reject) => {
+      cursor.onsuccess = () => {
+        if (!cursor.result || page.length >= limit) {
+          resolve(page);
+          return;
+        }
+        page.push(cursor.result.value);
+        cursor.result.continue();
+      };
+      cursor.onerror = () => reject(cursor.error);
+    });
+  }
+
+  // Newest first; ids without a session are left out.
+  async getConversationSummariesByIds(ids: Iterable<string>): Promise<ConversationSummary[]> {
+    const db = await this.getDB();
+    const store = db.transaction(SUMMARIES_STORE, 'readonly').objectStore(SUMMARIES_STORE);
+    const summaries = await Promise.all([...ids].map(id => requestResult<ConversationSummary | undefined>(store.get(id))));
+    return summaries.flatMap(summary => summary ?? []).sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async getConversationCounts(): Promise<Record<ConversationType, number>> {
+    const db = await this.getDB();
+    const index = db.transaction(SUMMARIES_STORE, 'readonly').objectStore(SUMMARIES_STORE).index('type');
+    const [chat, imageEditing, imageGeneration] = await Promise.all(
+      (['chat', 'imageEditing', 'imageGeneration'] as const).map(type => requestResult(index.count(type)))
+    );
+    return { chat, imageEditing, imageGeneration };
+  }
+
+  // Every model any session used, read from the index keys alone.
+  async getUsedModels(): Promise<string[]> {
+    const db = await this.getDB();
+    const cursor = db.transaction(SUMMARIES_STORE, 'readonly').objectStore(SUMMARIES_STORE).index('models').openKeyCursor(null, 'nextunique');
+    const models: string[] = [];
+    return new Promise((resolve, reject) => {
+      cursor.onsuccess = () => {
+        if (!cursor.result) {
+          resolve(models);
+          return;
+        }
+        models.push(cursor.result.key as string);
+        cursor.result.continue();
+      };
+      cursor.onerror = () => reject(cursor.error);
+    });
+  }
+
+  async getFolders(): Promise<Folder[]> {
+    const db = await this.getDB();
+    return requestResult(db.transaction(FOLDERS_STORE, 'readonly').objectStore(FOLDERS_STORE).getAll());
+  }
+
+  async saveFolder(folder: Folder): Promise<void> {
+    const db = await this.getDB();
+    const transaction = db.transaction(FOLDERS_STORE, 'readwrite');
+    transaction.objectStore(FOLDERS_STORE).put(folder);
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+    syncService.publish({ type: 'workspaceChanged' });
+  }
+
+  // Subfolders and sessions move up to the deleted folder's parent rather than being deleted with it.
+  async deleteFolder(id: string): Promise<void> {
+    const db = await this.getDB();
+    const transaction = db.transaction([FOLDERS_STORE, CONVERSATIONS_STORE, SUMMARIES_STORE], 'readwrite');
+    const folders = transaction.objectStore(FOLDERS_STORE);
+    const folderRequest = folders.get(id);
+    folderRequest.onsuccess = () => {
+      const parentId = (folderRequest.result as Folder | undefined)?.parentId ?? null;
+      const children = folders.openCursor();
+      children.onsuccess = () => {
+        const cursor = children.result;
+        if (!cursor) return;
+        if ((cursor.value as Folder).parentId === id) cursor.update({ ...cursor.value, parentId });
+        cursor.continue();
+      };
+      const sessions = transaction.objectStore(CONVERSATIONS_STORE).index('folderId').openCursor(IDBKeyRange.only(id));
+      sessions.onsuccess = () => {
+        const cursor = sessions.result;
+        if (!cursor) return;
+        const { folderId: _removed, ...rest } = cursor.value as Conversation;
+        const convo: Conversation = parentId ? { ...rest, folderId: parentId } : rest;
+        cursor.update(convo);
+        transaction.objectStore(SUMMARIES_STORE).put(buildSummary(convo));
+        cursor.continue();
+      };
+      folders.delete(id);
+    };
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+    syncService.publish({ type: 'workspaceChanged' });
+  }
+
+  async clearFolders(): Promise<void> {
+    const db = await this.getDB();
+    const transaction = db.transaction(FOLDERS_STORE, 'readwrite');
+    transaction.objectStore(FOLDERS_STORE).clear();
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+    syncService.publish({ type: 'workspaceChanged' });
+  }
+
+  // Walks only the index keys, so counting never loads a session.
+  private async countIndexKeys(indexName: 'folderId' | 'tags'): Promise<Record<string, number>> {
+    const db = await this.getDB();
+    const request = db.transaction(CONVERSATIONS_STORE, 'readonly').objectStore(CONVERSATIONS_STORE).index(indexName).openKeyCursor();
+    const counts: Record<string, number> = {};
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve(counts);
+          return;
+        }
+        const key = cursor.key as string;
+        counts[key] = (counts[key] ?? 0) + 1;
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Sessions directly in each folder, not counting subfolders.
+  getFolderCounts(): Promise<Record<string, number>> {
+    return this.countIndexKeys('folderId');
+  }
+
+  getTagCounts(): Promise<Record<string, number>> {
+    return this.countIndexKeys('tags');
+  }
+
+  async getConversationIdsInFolders(folderIds: string[]): Promise<Set<string>> {
+    const db = await this.getDB();
+    const index = db.transaction(CONVERSATIONS_STORE, 'readonly').objectStore(CONVERSATIONS_STORE).index('folderId');
+    const keys = await Promise.all(folderIds.map(id => requestResult(index.getAllKeys(IDBKeyRange.only(id)))));
+    return new Set(keys.flat() as string[]);
+  }
+
+  // Sessions carrying every one of the tags.
+  async getConversationIdsWithTags(tags: string[]): Promise<Set<string>> {
+    const db = await this.getDB();
+    const index = db.transaction(CONVERSATIONS_STORE, 'readonly').objectStore(CONVERSATIONS_STORE).index('tags');
+    const keySets = await Promise.all(tags.map(tag => requestResult(index.getAllKeys(IDBKeyRange.only(tag))).then(keys => new Set(keys as string[]))));
+    return new Set([...(keySets[0] ?? [])].filter(id => keySets.every(set => set.has(id))));
+  }
+
+  // Every query word must appear in the session, as a whole word or the start of one. Newest sessions first.
+  async searchConversations(query: string, filters: SearchFilters = {}): Promise<SearchResult[]> {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0) return [];
+    const db = await this.getDB();
+    const termsIndex = db.transaction(SEARCH_INDEX_STORE, 'readonly').objectStore(SEARCH_INDEX_STORE).index('terms');
+    const matchingIds = await Promise.all(terms.map(term =>
+      requestResult(termsIndex.getAllKeys(IDBKeyRange.bound(term, `${term}\uffff`))).then(keys => new Set(keys as string[]))));
+    const ids = [...matchingIds[0]].filter(id => matchingIds.every(set => set.has(id)));
+    const store = db.transaction(SEARCH_INDEX_STORE, 'readonly').objectStore(SEARCH_INDEX_STORE);
+    const entries = await Promise.all(ids.map(id => requestResult<SearchEntry | undefined>(store.get(id))));
+    return entries
+      .filter((entry): entry is SearchEntry => !!entry && matchesSearchFilters(entry, filters))
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map(entry => ({ conversationId: entry.conversationId, createdAt: entry.createdAt, hits: findHits(entry, terms) }));
   }
 }
 
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { ApiError, type GenerateContentResponse } from '@google/genai';
+import { ModelError, modelErrorFromStatus, parseRetryAfterHeader, safetyErrorFromResponse, toModelError } from './errors';
+
+describe('modelErrorFromStatus', () => {
+  it('classifies failures by status', () => {
+    expect(modelErrorFromStatus(401, 'Unauthorized').kind).toBe('invalidKey');
+    expect(modelErrorFromStatus(403, 'Forbidden').kind).toBe('invalidKey');
+    expect(modelErrorFromStatus(429, 'Too many requests').kind).toBe('quota');
+    expect(modelErrorFromStatus(404, 'models/gemini-9 is not found').kind).toBe('modelUnavailable');
+    expect(modelErrorFromStatus(503, 'The model is overloaded').kind).toBe('modelUnavailable');
+    expect(modelErrorFromStatus(400, 'Invalid argument').kind).toBe('badInput');
+    expect(modelErrorFromStatus(302, 'Found').kind).toBe('unknown');
+  });
+
+  it('reads a quota error out of the message when the status does not say so', () => {
+    expect(modelErrorFromStatus(400, 'RESOURCE_EXHAUSTED: try later').kind).toBe('quota');
+  });
+
+  it('only treats a message naming the API key as a key problem on a 400', () => {
+    expect(modelErrorFromStatus(400, 'API key not valid. Please pass a valid API key.').kind).toBe('invalidKey');
+    expect(modelErrorFromStatus(500, 'Internal error while checking the api_key').kind).toBe('modelUnavailable');
+    expect(modelErrorFromStatus(429, 'Rate limit for this API key reached').kind).toBe('quota');
+  });
+
+  it('takes the retry hint from the response body', () => {
+    expect(modelErrorFromStatus(429, '{"retryDelay": "12.5s"}').retryAfterMs).toBe(12500);
+    expect(modelErrorFromStatus(429, '{"retryDelay": "12s"}', 3000).retryAfterMs).toBe(3000);
+  });
+});
+
+describe('parseRetryAfterHeader', () => {
+  it('accepts seconds or an HTTP date', () => {
+    expect(parseRetryAfterHeader('30')).toBe(30000);
+    expect(parseRetryAfterHeader(new Date(Date.now() - 1000).toUTCString())).toBe(0);
+    expect(parseRetryAfterHeader(null)).toBeUndefined();
+    expect(parseRetryAfterHeader('soon')).toBeUndefined();
+  });
+});
+
+describe('ModelError.isRetryable', () => {
+  it('retries transient failures only', () => {
+    expect(new ModelError('network', 'offline').isRetryable).toBe(true);
+    expect(new ModelError('quota', 'slow down').isRetryable).toBe(true);
+    expect(new ModelError('modelUnavailable', 'overloaded', { status: 503 }).isRetryable).toBe(true);
+    expect(new ModelError('modelUnavailable', 'no such model', { status: 404 }).isRetryable).toBe(false);
+    expect(new ModelError('invalidKey', 'bad key').isRetryable).toBe(false);
+    expect(new ModelError('safety', 'blocked').isRetryable).toBe(false);
+  });
+
+  it('lets an explicit flag override the kind, also after a round trip through JSON', () => {
+    const error = new ModelError('modelUnavailable', 'No fixture', { retryable: false });
+    expect(error.isRetryable).toBe(false);
+    expect(ModelError.fromJSON(JSON.parse(JSON.stringify(error))).isRetryable).toBe(false);
+  });
+});
+
+describe('toModelError', () => {
+  it('wraps API errors, network failures and anything else', () => {
+    expect(toModelError(new ApiError({ message: 'Unauthorized', status: 401 })).kind).toBe('invalidKey');
+    expect(toModelError(new TypeError('Failed to fetch')).kind).toBe('network');
+    expect(toModelError('weird').toJSON()).toMatchObject({ kind: 'unknown', message: 'weird' });
+    const existing = new ModelError('quota', 'slow down');
+    expect(toModelError(existing)).toBe(existing);
+  });
+
+  it('reports an aborted request as stopped', () => {
+    const controller = new AbortController();
+    controller.abort();
+    expect(toModelError(new Error('The user aborted a request'), controller.signal).kind).toBe('aborted');
+  });
+});
+
+describe('safetyErrorFromResponse', () => {
+  it('reports blocked prompts and responses with their category', () => {
+    const blockedPrompt = { promptFeedback: { blockReason: 'SAFETY', safetyRatings: [{ category: 'HARM_CATEGORY_HARASSMENT', blocked: true }] } };
+    expect(safetyErrorFromResponse(blockedPrompt as GenerateContentResponse)).toMatchObject({ kind: 'safety', safetyCategory: 'HARM_CATEGORY_HARASSMENT' });
+    const blockedReply = { candidates: [{ finishReason: 'RECITATION' }] };
+    expect(safetyErrorFromResponse(blockedReply as GenerateContentResponse)).toMatchObject({ kind: 'safety', safetyCategory: 'RECITATION' });
+    expect(safetyErrorFromResponse({ candidates: [{ finishReason: 'STOP' }] } as GenerateContentResponse)).toBeNull();
+  });
+});
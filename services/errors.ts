@@ -0,0 +1,131 @@
+import { ApiError, type GenerateContentResponse } from "@google/genai";
+import type { ModelErrorKind, SerializedModelError } from '../types';
+
+// Every provider failure is surfaced as a ModelError so the UI can tell failures apart
+// from model output and decide whether a retry makes sense.
+export class ModelError extends Error {
+  kind: ModelErrorKind;
+  status?: number;
+  safetyCategory?: string;
+  retryAfterMs?: number;
+  retryable?: boolean;
+
+  constructor(kind: ModelErrorKind, message: string, details: Omit<SerializedModelError, 'kind' | 'message'> = {}) {
+    super(message);
+    this.name = 'ModelError';
+    this.kind = kind;
+    this.status = details.status;
+    this.safetyCategory = details.safetyCategory;
+    this.retryAfterMs = details.retryAfterMs;
+    this.retryable = details.retryable;
+  }
+
+  // Transient failures worth retrying automatically. A 404 means the model name is wrong, not that it is busy.
+  // `retryable` overrides the kind for failures known not to go away on their own.
+  get isRetryable(): boolean {
+    if (this.retryable !== undefined) {
+      return this.retryable;
+    }
+    if (this.kind === 'modelUnavailable') {
+      return this.status !== 404;
+    }
+    return this.kind === 'quota' || this.kind === 'network';
+  }
+
+  toJSON(): SerializedModelError {
+    return {
+      kind: this.kind,
+      message: this.message,
+      status: this.status,
+      safetyCategory: this.safetyCategory,
+      retryAfterMs: this.retryAfterMs,
+      retryable: this.retryable,
+    };
+  }
+
+  static fromJSON(data: SerializedModelError): ModelError {
+    return new ModelError(data.kind || 'unknown', data.message, data);
+  }
+}
+
+export const modelErrorTitles: Record<ModelErrorKind, string> = {
+  invalidKey: 'Invalid API key',
+  quota: 'Quota or rate limit reached',
+  safety: 'Blocked by safety filters',
+  network: 'Network error',
+  badInput: 'The request was rejected',
+  modelUnavailable: 'Model unavailable',
+  aborted: 'Stopped',
+  unknown: 'Something went wrong',
+};
+
+// Google APIs put retry hints in the error body as `"retryDelay": "30s"`.
+const parseRetryDelay = (message: string): number | undefined => {
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+};
+
+// `Retry-After` is either a number of seconds or an HTTP date.
+export const parseRetryAfterHeader = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+export const modelErrorFromStatus = (status: number, message: string, retryAfterMs?: number): ModelError => {
+  const details = { status, retryAfterMs: retryAfterMs ?? parseRetryDelay(message) };
+  // Gemini rejects a malformed key with a 400 that names it; other statuses that mention a key are about something else.
+  if (status === 401 || status === 403 || (status === 400 && /api[ _]key/i.test(message))) {
+    return new ModelError('invalidKey', message, details);
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) {
+    return new ModelError('quota', message, details);
+  }
+  if (status === 404 || status === 500 || status === 502 || status === 503 || status === 504) {
+    return new ModelError('modelUnavailable', message, details);
+  }
+  if (status >= 400 && status < 500) {
+    return new ModelError('badInput', message, details);
+  }
+  return new ModelError('unknown', message, details);
+};
+
+// Pass the request's signal so that whatever the SDK throws on abort is reported as a stop, not a failure.
+export const toModelError = (error: unknown, signal?: AbortSignal): ModelError => {
+  if (error instanceof ModelError) {
+    return error;
+  }
+  if (signal?.aborted || (error instanceof Error && error.name === 'AbortError')) {
+    return new ModelError('aborted', 'The request was stopped');
+  }
+  if (error instanceof ApiError) {
+    return modelErrorFromStatus(error.status, error.message);
+  }
+  if (error instanceof TypeError || (typeof navigator !== 'undefined' && !navigator.onLine)) {
+    // fetch rejects with a TypeError when the request never reaches the server.
+    return new ModelError('network', error instanceof Error ? error.message : 'The network request failed');
+  }
+  return new ModelError('unknown', error instanceof Error ? error.message : String(error));
+};
+
+// Gemini reports blocked prompts and responses in the payload rather than as HTTP errors.
+export const safetyErrorFromResponse = (response: GenerateContentResponse): ModelError | null => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    const category = response.promptFeedback?.safetyRatings?.find(r => r.blocked)?.category;
+    return new ModelError('safety', response.promptFeedback?.blockReasonMessage || `The prompt was blocked (${blockReason})`, {
+      safetyCategory: category || blockReason,
+    });
+  }
+  const candidate = response.candidates?.[0];
+  const finishReason = candidate?.finishReason;
+  if (finishReason && /SAFETY|PROHIBITED|BLOCKLIST|SPII|RECITATION/.test(finishReason)) {
+    const category = candidate?.safetyRatings?.find(r => r.blocked)?.category;
+    return new ModelError('safety', candidate?.finishMessage || `The response was blocked (${finishReason})`, {
+      safetyCategory: category || finishReason,
+    });
+  }
+  return null;
+};
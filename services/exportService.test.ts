@@ -0,0 +1,118 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { exportService } from './exportService';
+import { Author, type ChatConversation, type Conversation, type ConversationExport, type ImageGenerationConversation, type StoredImage } from '../types';
+
+const stored = vi.hoisted(() => ({ records: new Map<string, unknown>(), images: new Map<string, Blob>() }));
+
+vi.mock('./dbService', () => ({
+  dbService: {
+    getConversationRecord: async (id: string) => stored.records.get(id) ?? null,
+    getImageBlob: async (hash: string) => stored.images.get(hash),
+  },
+}));
+
+const image = (hash: string, url = ''): StoredImage => ({ hash, mimeType: 'image/png', size: 3, url });
+
+const chat: ChatConversation = {
+  id: '100',
+  title: 'Fox <drawings>',
+  createdAt: 1_700_000_000_000,
+  isFavorite: false,
+  type: 'chat',
+  modelUsed: 'gemini-2.5-flash',
+  activeLeafId: '1700000000004',
+  messages: [
+    { id: '1700000000001', author: Author.USER, parentId: null, parts: [{ type: 'text', text: 'Draw a fox' }, { type: 'image', ...image('uploaded') }] },
+    { id: '1700000000002', author: Author.MODEL, parentId: '1700000000001', parts: [{ type: 'text', text: 'An abandoned branch' }] },
+    { id: '1700000000003', author: Author.MODEL, parentId: '1700000000001', parts: [{ type: 'text', text: 'Here is **a fox**' }] },
+    {
+      id: '1700000000004',
+      author: Author.MODEL,
+      parentId: '1700000000003',
+      parts: [{
+        type: 'imageGenerationResult',
+        images: [image('generated'), image('removed')],
+        prompt: 'a fox',
+        parameters: { model: 'imagen-4.0-fast-generate-001', aspectRatio: '16:9', numberOfImages: 2 },
+      }],
+    },
+  ],
+};
+
+const legacyGeneration: ImageGenerationConversation = {
+  id: '200',
+  title: 'Lighthouse',
+  createdAt: 1_700_000_000_000,
+  isFavorite: true,
+  type: 'imageGeneration',
+  history: [{
+    prompt: 'a lighthouse at dusk',
+    parameters: { model: 'imagen-4.0-generate-001', aspectRatio: '1:1', numberOfImages: 1, outputMimeType: 'image/jpeg' },
+    generatedImages: ['data:image/jpeg;base64,AAAA'],
+    timestamp: 1_700_000_000_500,
+  }],
+};
+
+// What the app passes in: image urls filled with page-lifetime object URLs.
+const hydrated = (convo: Conversation): Conversation =>
+  JSON.parse(JSON.stringify(convo).replace(/"url":""/g, '"url":"blob:http://localhost/1"'));
+
+beforeEach(() => {
+  stored.records.clear();
+  stored.images.clear();
+  stored.records.set(chat.id, chat);
+  stored.images.set('uploaded', new Blob(['abc'], { type: 'image/png' }));
+  stored.images.set('generated', new Blob(['xyz'], { type: 'image/png' }));
+});
+
+describe('exportService.toJson', () => {
+  it('writes the stored record with the bytes of the images it references', async () => {
+    const exported: ConversationExport = JSON.parse(await exportService.toJson(hydrated(chat)));
+    expect(exported.conversation).toEqual(chat);
+    expect(exported.images).toEqual([
+      { hash: 'uploaded', mimeType: 'image/png', base64: btoa('abc') },
+      { hash: 'generated', mimeType: 'image/png', base64: btoa('xyz') },
+    ]);
+  });
+
+  it('never writes object URLs', async () => {
+    expect(await exportService.toJson(hydrated(chat))).not.toContain('blob:');
+  });
+
+  it('keeps prompts, generation parameters and timestamps of legacy sessions exactly', async () => {
+    stored.records.set(legacyGeneration.id, legacyGeneration);
+    const exported: ConversationExport = JSON.parse(await exportService.toJson(legacyGeneration));
+    expect(exported).toEqual({ conversation: legacyGeneration, images: [] });
+  });
+});
+
+describe('exportService.toMarkdown', () => {
+  it('exports the branch being shown, with images inline and removed images noted', async () => {
+    const markdown = await exportService.toMarkdown(hydrated(chat));
+    expect(markdown).toMatch(/^# Fox <drawings>\n/);
+    expect(markdown).toContain('Draw a fox');
+    expect(markdown).toContain('Here is **a fox**');
+    expect(markdown).not.toContain('An abandoned branch');
+    expect(markdown).toContain(`![Uploaded image](data:image/png;base64,${btoa('abc')})`);
+    expect(markdown).toContain('Prompt: "a fox" (imagen-4.0-fast-generate-001 · 16:9 · 2 images)');
+    expect(markdown).toContain('(Image removed to free up storage.)');
+  });
+
+  it('lists the parameters of legacy image generation sessions', async () => {
+    const markdown = await exportService.toMarkdown(legacyGeneration);
+    expect(markdown).toContain('## "a lighthouse at dusk"');
+    expect(markdown).toContain('imagen-4.0-generate-001 · 1:1 · 1 image');
+    expect(markdown).toContain('![Generated image 1](data:image/jpeg;base64,AAAA)');
+  });
+});
+
+describe('exportService.toHtml', () => {
+  it('is a single file with embedded images and escaped text', async () => {
+    const html = await exportService.toHtml(hydrated(chat));
+    expect(html).toContain('<title>Fox &lt;drawings&gt;</title>');
+    expect(html).toContain(`<img src="data:image/png;base64,${btoa('xyz')}" alt="Generated image 1">`);
+    expect(html).toContain('<strong>a fox</strong>');
+    expect(html).not.toContain('blob:');
+  });
+});
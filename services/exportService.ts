@@ -0,0 +1,258 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import type { ArchivedImage, ChatConversation, Conversation, ConversationExport, ExportFormat, GenerationEvent, ImageEditingConversation, ImageGenerationConversation, MessagePart, StoredImage } from '../types';
+import { Author } from '../types';
+import { fileToBase64, formatBytes } from './attachments';
+import { dbService } from './dbService';
+import { getImageDataUrl } from './images';
+import { clearImageUrls, collectImages } from './imageRefs';
+import { getActivePath } from './messageTree';
+
+type ExportBlock =
+  | { kind: 'text'; text: string; isMarkdown: boolean }
+  | { kind: 'image'; url: string; alt: string }
+  | { kind: 'file'; name: string; url: string; size: number };
+
+// One message or event of a session, in the shape every document format is rendered from.
+interface ExportEntry {
+  heading: string;
+  timestamp?: number;
+  blocks: ExportBlock[];
+}
+
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.URL.revokeObjectURL(url);
+};
+
+// Legacy image-generation sessions keep their images inline as data URLs; anything else is fetched so the export stands on its own.
+const toDataUrl = async (url: string): Promise<string> => {
+  if (url.startsWith('data:')) return url;
+  const blob = await (await fetch(url)).blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+// Message ids are creation timestamps, which is the only time a chat message records.
+const timestampFromId = (id: string): number | undefined => {
+  const time = Number(id);
+  return Number.isFinite(time) && time > 0 ? time : undefined;
+};
+
+// Images removed to free storage are noted in place rather than failing the whole export.
+const imageBlock = async (image: StoredImage, alt: string): Promise<ExportBlock> => {
+  if (!(await dbService.getImageBlob(image.hash))) return { kind: 'text', text: '(Image removed to free up storage.)', isMarkdown: false };
+  return { kind: 'image', url: await getImageDataUrl(image), alt };
+};
+
+// Images removed to free storage are left out; the record still names them by hash.
+const archiveImages = async (convo: Conversation): Promise<ArchivedImage[]> => {
+  const images = new Map(collectImages(convo).map(image => [image.hash, image]));
+  const archived: ArchivedImage[] = [];
+  for (const image of images.values()) {
+    const blob = await dbService.getImageBlob(image.hash);
+    if (blob) archived.push({ hash: image.hash, mimeType: image.mimeType, base64: await fileToBase64(blob) });
+  }
+  return archived;
+};
+
+const describeParameters = (params: GenerationEvent['parameters']): string =>
+  `${params.model} · ${params.aspectRatio} · ${params.numberOfImages} image${params.numberOfImages === 1 ? '' : 's'}`;
+
+const partToBlocks = async (part: MessagePart, author: Author): Promise<ExportBlock[]> => {
+  switch (part.type) {
+    case 'text':
+      return [{ kind: 'text', text: part.text, isMarkdown: author === Author.MODEL }];
+    case 'image':
+      return [await imageBlock(part, 'Uploaded image')];
+    case 'attachment':
+      return [{ kind: 'file', name: part.name, url: `data:${part.mimeType};base64,${part.base64}`, size: part.size }];
+    case 'imageGenerationResult': {
+      const images = await Promise.all(part.images.map((image, i) => imageBlock(image, `Generated image ${i + 1}`)));
+      const caption: ExportBlock = { kind: 'text', text: `Prompt: "${part.prompt}" (${describeParameters(part.parameters)})`, isMarkdown: false };
+      return part.prompt && part.parameters ? [caption, ...images] : images;
+    }
+    default:
+      return [];
+  }
+};
+
+const chatEntries = async (convo: ChatConversation): Promise<ExportEntry[]> => {
+  const modelName = convo.persona?.name ?? 'Gemini';
+  const path = getActivePath(convo.messages, convo.activeLeafId);
+  return Promise.all(path.map(async msg => ({
+    heading: msg.author === Author.USER ? 'You' : modelName,
+    timestamp: timestampFromId(msg.id),
+    blocks: (await Promise.all(msg.parts.map(part => partToBlocks(part, msg.author)))).flat(),
+  })));
+};
+
+const editingEntries = async (convo: ImageEditingConversation): Promise<ExportEntry[]> => {
+  const entries: ExportEntry[] = [
+    { heading: 'Original image', timestamp: convo.createdAt, blocks: [await imageBlock(convo.baseImage, 'Original image')] },
+  ];
+  if (convo.analysisResult) {
+    entries.push({ heading: 'Analysis', blocks: [{ kind: 'text', text: convo.analysisResult, isMarkdown: true }] });
+  }
+  for (const event of convo.history) {
+    entries.push({
+      heading: `${event.mask ? 'Masked edit' : 'Edit'}: "${event.prompt}"`,
+      timestamp: event.timestamp,
+      blocks: [await imageBlock(event.editedImage, event.prompt)],
+    });
+  }
+  return entries;
+};
+
+const generationEntries = async (convo: ImageGenerationConversation): Promise<ExportEntry[]> =>
+  Promise.all(convo.history.map(async event => ({
+    heading: `"${event.prompt}"`,
+    timestamp: event.timestamp,
+    blocks: [
+      { kind: 'text', text: describeParameters(event.parameters), isMarkdown: false },
+      ...await Promise.all(event.generatedImages.map(async (url, i): Promise<ExportBlock> => ({ kind: 'image', url: await toDataUrl(url), alt: `Generated image ${i + 1}` }))),
+    ],
+  })));
+
+const toEntries = (convo: Conversation): Promise<ExportEntry[]> => {
+  switch (convo.type) {
+    case 'chat': return chatEntries(convo);
+    case 'imageEditing': return editingEntries(convo);
+    case 'imageGeneration': return generationEntries(convo);
+  }
+};
+
+const formatTime = (timestamp?: number): string => (timestamp ? new Date(timestamp).toLocaleString() : '');
+
+const toMarkdown = (convo: Conversation, entries: ExportEntry[]): string => {
+  const sections = entries.map(entry => {
+    const heading = `## ${entry.heading}${entry.timestamp ? ` · ${formatTime(entry.timestamp)}` : ''}`;
+    const body = entry.blocks.map(block => {
+      switch (block.kind) {
+        case 'text': return block.text;
+        case 'image': return `![${block.alt}](${block.url})`;
+        case 'file': return `[${block.name}](${block.url}) (${formatBytes(block.size)})`;
+      }
+    });
+    return [heading, ...body].join('\n\n');
+  });
+  return [`# ${convo.title}`, `_Created ${formatTime(convo.createdAt)}_`, ...sections].join('\n\n') + '\n';
+};
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Raw HTML inside the text is escaped by react-markdown, so the export cannot run scripts from a reply.
+const markdownToHtml = (text: string): string =>
+  renderToStaticMarkup(React.createElement(ReactMarkdown, { remarkPlugins: [remarkGfm] }, text));
+
+const HTML_STYLES = `
+  body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #1f2937; line-height: 1.5; }
+  header { border-bottom: 1px solid #d1d5db; margin-bottom: 1.5rem; }
+  section { margin-bottom: 1.5rem; page-break-inside: avoid; }
+  h2 { font-size: 1rem; margin-bottom: 0.5rem; }
+  time { color: #6b7280; font-weight: normal; font-size: 0.875rem; margin-left: 0.5rem; }
+  img { max-width: 100%; border-radius: 0.375rem; margin: 0.25rem 0; display: block; }
+  pre { background: #111827; color: #f3f4f6; padding: 0.75rem; border-radius: 0.375rem; overflow-x: auto; white-space: pre-wrap; }
+  code { font-family: ui-monospace, monospace; font-size: 0.9em; }
+  table { border-collapse: collapse; } th, td { border: 1px solid #d1d5db; padding: 0.25rem 0.5rem; }
+  .plain { white-space: pre-wrap; }
+  .file { display: inline-block; background: #f3f4f6; border-radius: 0.375rem; padding: 0.25rem 0.5rem; }
+`;
+
+const toHtml = (convo: Conversation, entries: ExportEntry[]): string => {
+  const sections = entries.map(entry => {
+    const body = entry.blocks.map(block => {
+      switch (block.kind) {
+        case 'text': return block.isMarkdown ? markdownToHtml(block.text) : `<p class="plain">${escapeHtml(block.text)}</p>`;
+        case 'image': return `<img src="${block.url}" alt="${escapeHtml(block.alt)}">`;
+        case 'file': return `<p><a class="file" href="${block.url}" download="${escapeHtml(block.name)}">${escapeHtml(block.name)} (${formatBytes(block.size)})</a></p>`;
+      }
+    }).join('\n');
+    const time = entry.timestamp ? `<time>${formatTime(entry.timestamp)}</time>` : '';
+    return `<section>\n<h2>${escapeHtml(entry.heading)}${time}</h2>\n${body}\n</section>`;
+  });
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(convo.title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<header><h1>${escapeHtml(convo.title)}</h1><p>Created ${formatTime(convo.createdAt)}</p></header>
+${sections.join('\n')}
+</body>
+</html>
+`;
+};
+
+// Browsers have no PDF writer, so the HTML export is printed from a hidden frame and the print dialog saves it.
+const printHtml = (html: string): Promise<void> =>
+  new Promise(resolve => {
+    const frame = document.createElement('iframe');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+    frame.onload = () => {
+      frame.contentWindow?.focus();
+      frame.contentWindow?.print();
+      // print() returns once the dialog closes; the delay covers browsers where it does not block.
+      setTimeout(() => {
+        frame.remove();
+        resolve();
+      }, 1000);
+    };
+    frame.srcdoc = html;
+    document.body.appendChild(frame);
+  });
+
+const fileNameFor = (convo: Conversation, extension: string): string => {
+  const slug = convo.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || convo.type;
+  return `gemini-creative-suite-${slug}.${extension}`;
+};
+
+export const exportService = {
+  // The stored record verbatim, with the image bytes it references alongside in the backup archive's format, so the
+  // file is complete on its own. It is for use outside the app, which only restores backups. Object URLs only live
+  // as long as the page and are never written.
+  toJson: async (convo: Conversation): Promise<string> => {
+    const record = (await dbService.getConversationRecord(convo.id)) ?? clearImageUrls(convo);
+    const exported: ConversationExport = { conversation: record, images: await archiveImages(record) };
+    return JSON.stringify(exported, null, 2);
+  },
+
+  toMarkdown: async (convo: Conversation): Promise<string> => toMarkdown(convo, await toEntries(convo)),
+
+  toHtml: async (convo: Conversation): Promise<string> => toHtml(convo, await toEntries(convo)),
+
+  exportConversation: async (convo: Conversation, format: ExportFormat): Promise<void> => {
+    switch (format) {
+      case 'json':
+        downloadBlob(new Blob([await exportService.toJson(convo)], { type: 'application/json' }), fileNameFor(convo, 'json'));
+        break;
+      case 'markdown':
+        downloadBlob(new Blob([await exportService.toMarkdown(convo)], { type: 'text/markdown' }), fileNameFor(convo, 'md'));
+        break;
+      case 'html':
+        downloadBlob(new Blob([await exportService.toHtml(convo)], { type: 'text/html' }), fileNameFor(convo, 'html'));
+        break;
+      case 'pdf':
+        await printHtml(await exportService.toHtml(convo));
+        break;
+    }
+  },
+};
@@ -0,0 +1,23 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { fixtureService } from './fixtureService';
+import { ModelError } from './errors';
+
+describe('fixtureService.findReplay', () => {
+  it('fails a missing fixture without asking for a retry', async () => {
+    const error = await fixtureService.findReplay('editImage', 'unknown-key').catch(e => e);
+    expect(error).toBeInstanceOf(ModelError);
+    expect(error.message).toBe('No editImage fixture has been recorded');
+    expect(error.kind).toBe('modelUnavailable');
+    expect(error.status).toBeUndefined();
+    expect(error.isRetryable).toBe(false);
+  });
+});
+
+describe('fixtureService.keyFor', () => {
+  it('ignores ids and object URLs when keying requests', () => {
+    const key = fixtureService.keyFor('analyzeImage', { id: '1', prompt: 'describe', image: { hash: 'h', url: 'blob:a' } });
+    expect(fixtureService.keyFor('analyzeImage', { id: '2', prompt: 'describe', image: { hash: 'h', url: 'blob:b' } })).toBe(key);
+    expect(fixtureService.keyFor('analyzeImage', { id: '1', prompt: 'other', image: { hash: 'h', url: 'blob:a' } })).not.toBe(key);
+  });
+});
@@ -0,0 +1,119 @@
+import type { FixtureEntry, FixtureFile, FixtureMode, ProviderMethod } from '../types';
+import { ModelError } from './errors';
+
+const MODE_KEY = 'fixtureMode';
+
+// cyrb53: a small, fast, non-cryptographic string hash. Collisions only matter between
+// requests to the same method, so 53 bits is plenty.
+const hashString = (str: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+};
+
+class FixtureService {
+  private mode: FixtureMode;
+  private entries: FixtureEntry[] = [];
+  private loading: Promise<void> | null = null;
+  // Replay bookkeeping: how many times each key was served, and a per-method cursor for unmatched requests.
+  private servedByKey = new Map<string, number>();
+  private cursorByMethod = new Map<ProviderMethod, number>();
+
+  constructor() {
+    const envMode = process.env.FIXTURE_MODE as FixtureMode | undefined;
+    this.mode = envMode || (localStorage.getItem(MODE_KEY) as FixtureMode | null) || 'off';
+    if (this.mode === 'replay' && process.env.FIXTURE_URL) {
+      this.loading = this.loadFromUrl(process.env.FIXTURE_URL);
+    }
+  }
+
+  private async loadFromUrl(url: string): Promise<void> {
+    try {
+      const response = await fetch(url);
+      this.load(await response.json());
+    } catch (error) {
+      console.error("Error loading fixture file:", error);
+    }
+  }
+
+  getMode(): FixtureMode {
+    return this.mode;
+  }
+
+  setMode(mode: FixtureMode): void {
+    this.mode = mode;
+    localStorage.setItem(MODE_KEY, mode);
+    this.resetReplay();
+  }
+
+  getEntryCount(): number {
+    return this.entries.length;
+  }
+
+  // Request objects are normalized before hashing: ids, parent links and object URLs change on every run,
+  // so only the content that reaches the model contributes to the key.
+  keyFor(method: ProviderMethod, request: unknown): string {
+    const normalized = JSON.stringify(request, (name, value) => (name === 'id' || name === 'parentId' || name === 'url' ? undefined : value));
+    return hashString(`${method}:${normalized}`);
+  }
+
+  record(entry: FixtureEntry): void {
+    this.entries.push(entry);
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.resetReplay();
+  }
+
+  toFile(): FixtureFile {
+    return { version: 1, recordedAt: Date.now(), entries: this.entries };
+  }
+
+  load(file: FixtureFile): void {
+    if (file.version !== 1 || !Array.isArray(file.entries)) {
+      throw new Error('Unsupported fixture file');
+    }
+    this.entries = file.entries;
+    this.resetReplay();
+  }
+
+  private resetReplay(): void {
+    this.servedByKey.clear();
+    this.cursorByMethod.clear();
+  }
+
+  // Identical requests are served their recorded responses in order (the last one repeats once they run out).
+  // A request that was never recorded falls back to the next recorded entry for the same method, so demos
+  // keep working when prompts differ slightly. Either way the result is deterministic for a given fixture file.
+  async findReplay(method: ProviderMethod, key: string): Promise<FixtureEntry> {
+    if (this.loading) {
+      await this.loading;
+    }
+    const matches = this.entries.filter(e => e.method === method && e.key === key);
+    if (matches.length > 0) {
+      const served = this.servedByKey.get(key) || 0;
+      this.servedByKey.set(key, served + 1);
+      return matches[Math.min(served, matches.length - 1)];
+    }
+
+    const forMethod = this.entries.filter(e => e.method === method);
+    if (forMethod.length === 0) {
+      // A missing fixture will not appear on the next attempt, so retrying it is pointless.
+      throw new ModelError('modelUnavailable', `No ${method} fixture has been recorded`, { retryable: false });
+    }
+    const cursor = this.cursorByMethod.get(method) || 0;
+    this.cursorByMethod.set(method, cursor + 1);
+    console.warn(`No exact fixture for ${method}; serving recorded entry ${cursor % forMethod.length}`);
+    return forMethod[cursor % forMethod.length];
+  }
+}
+
+export const fixtureService = new FixtureService();
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { canMoveFolder, getChildFolders, getFolderSubtree, parseTags } from './folders';
+import type { Folder } from '../types';
+
+const folder = (id: string, name: string, parentId: string | null): Folder => ({ id, name, parentId, createdAt: 0 });
+
+// Work ─ Clients ─ Acme
+//      └ Archive
+// Personal
+const folders = [folder('w', 'Work', null), folder('c', 'Clients', 'w'), folder('a', 'Acme', 'c'), folder('r', 'Archive', 'w'), folder('p', 'Personal', null)];
+
+describe('getChildFolders', () => {
+  it('lists the folders directly inside a parent by name', () => {
+    expect(getChildFolders(folders, null).map(f => f.name)).toEqual(['Personal', 'Work']);
+    expect(getChildFolders(folders, 'w').map(f => f.name)).toEqual(['Archive', 'Clients']);
+    expect(getChildFolders(folders, 'a')).toEqual([]);
+  });
+});
+
+describe('getFolderSubtree', () => {
+  it('includes the folder and everything nested below it', () => {
+    expect(getFolderSubtree(folders, 'w').sort()).toEqual(['a', 'c', 'r', 'w']);
+    expect(getFolderSubtree(folders, 'c')).toEqual(['c', 'a']);
+    expect(getFolderSubtree(folders, 'p')).toEqual(['p']);
+  });
+});
+
+describe('canMoveFolder', () => {
+  it('refuses to move a folder into itself or below it', () => {
+    expect(canMoveFolder(folders, 'w', 'w')).toBe(false);
+    expect(canMoveFolder(folders, 'w', 'a')).toBe(false);
+    expect(canMoveFolder(folders, 'c', 'p')).toBe(true);
+    expect(canMoveFolder(folders, 'a', null)).toBe(true);
+  });
+});
+
+describe('parseTags', () => {
+  it('trims tags and drops empty and repeated ones, keeping case', () => {
+    expect(parseTags(' Draft, client,, Draft ,Client ')).toEqual(['Draft', 'client', 'Client']);
+    expect(parseTags('')).toEqual([]);
+  });
+});
@@ -0,0 +1,22 @@
+import type { Folder } from '../types';
+
+export const getChildFolders = (folders: Folder[], parentId: string | null): Folder[] =>
+  folders.filter(folder => folder.parentId === parentId).sort((a, b) => a.name.localeCompare(b.name));
+
+// The folder itself and everything nested below it.
+export const getFolderSubtree = (folders: Folder[], folderId: string): string[] => [
+  folderId,
+  ...getChildFolders(folders, folderId).flatMap(child => getFolderSubtree(folders, child.id)),
+];
+
+// A folder cannot move into itself or anything below it.
+export const canMoveFolder = (folders: Folder[], folderId: string, newParentId: string | null): boolean =>
+  newParentId === null || !getFolderSubtree(folders, folderId).includes(newParentId);
+
+// Comma-separated input; surrounding spaces and repeats are dropped, case is kept.
+export const parseTags = (input: string): string[] =>
+  [...new Set(input.split(',').map(tag => tag.trim()).filter(Boolean))];
+
+// Drag payloads for moving sessions and folders around the sidebar.
+export const CONVERSATION_DRAG_TYPE = 'application/x-gcs-conversation';
+export const FOLDER_DRAG_TYPE = 'application/x-gcs-folder';
@@ -1,141 +1,65 @@
-import { GoogleGenAI, Modality, type Content, type Part } from "@google/genai";
-// Fix: Import GenerationEvent type.
-import { Author, type ChatMessage, type GenerationEvent } from '../types';
-
-if (!process.env.API_KEY) {
-  throw new Error("API_KEY environment variable is not set");
-}
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-const buildContents = (messages: ChatMessage[]): Content[] => {
-    return messages
-        .filter(msg => msg.parts.some(part => part.type === 'text' || part.type === 'image')) // We only send text and user images to the API
-        .map(msg => {
-            // Fix: Use Array.reduce for safer type handling when creating the parts array.
-            const parts: Part[] = msg.parts.reduce<Part[]>((acc, part) => {
-                if (part.type === 'text') {
-                    acc.push({ text: part.text });
-                } else if (part.type === 'image') {
-                    acc.push({
-                        inlineData: {
-                            mimeType: part.mimeType,
-                            data: part.base64,
-                        },
-                    });
-                }
-                return acc;
-            }, []);
-            return {
-                role: msg.author === Author.USER ? 'user' : 'model',
-                parts,
-            };
-        });
-};
+import type { ChatMessage, ChatRequestOptions, GenerationEvent, MaskedEditInput } from '../types';
+import { Author } from '../types';
+import { providerRegistry } from './providerRegistry';
+import { requestScheduler } from './requestScheduler';
+import { ANALYSIS_MODEL, EDIT_MODEL } from './providers/geminiProvider';
+import { defaultPersona } from './personaService';
 
+const TITLE_INSTRUCTION = 'You name conversations for a history list. Reply with a title of at most six words that says what the conversation is about. No quotes, no trailing punctuation, no preamble.';
+const SUMMARY_INSTRUCTION = 'You maintain a running summary of a conversation between a user and an AI assistant. Merge the existing summary and the new messages into one concise summary. Keep facts, decisions, names, code identifiers, user preferences and open questions; drop pleasantries. Reply with the summary only.';
 
+// Components talk to this facade only; each call is routed to whichever provider
+// is currently assigned to that capability in the provider settings, and queued
+// through the shared scheduler so retries and rate limits apply app-wide.
+// Every method takes an optional AbortSignal; aborting rejects with an 'aborted' ModelError.
 export const geminiService = {
-  getChatResponseStream: async function* (messages: ChatMessage[], model: string): AsyncGenerator<string> {
-    try {
-        const contents = buildContents(messages);
-        const responseStream = await ai.models.generateContentStream({
-            model,
-            contents,
-            config: {
-                systemInstruction: 'You are a helpful and creative AI assistant. Your name is Gemini.',
-            }
-        });
-
-        for await (const chunk of responseStream) {
-            yield chunk.text;
-        }
-    } catch (error) {
-        console.error("Error getting chat response stream:", error);
-        yield "Sorry, I encountered an error. Please try again.";
-    }
+  getChatResponseStream: async function* (messages: ChatMessage[], model: string, options: ChatRequestOptions = {}): AsyncGenerator<string> {
+    const { systemInstruction = defaultPersona.systemInstruction, generationConfig, signal } = options;
+    yield* requestScheduler.runStream({ label: 'Chat reply', model, capability: 'chat', signal }, () =>
+      providerRegistry.getProvider('chat').getChatResponseStream(messages, model, { systemInstruction, generationConfig, signal })
+    );
   },
 
-  generateImage: async (prompt: string, params: GenerationEvent['parameters']): Promise<string[] | null> => {
-    try {
-      const { model, numberOfImages, aspectRatio, outputMimeType } = params;
-      
-      const config: any = {
-          numberOfImages,
-          aspectRatio,
-          outputMimeType: outputMimeType || 'image/png',
-      };
-
-      const response = await ai.models.generateImages({
-        model,
-        prompt,
-        config,
-      });
+  summarizeConversation: (previousSummary: string | null, transcript: string, signal?: AbortSignal): Promise<string> => {
+    const prompt = `${previousSummary ? `Existing summary:\n${previousSummary}\n\n` : ''}New messages:\n${transcript}`;
+    const messages: ChatMessage[] = [{ id: 'summary-request', author: Author.USER, parts: [{ type: 'text', text: prompt }] }];
+    return requestScheduler.run({ label: 'Summarize earlier messages', model: ANALYSIS_MODEL, capability: 'chat', signal }, async () => {
+      let summary = '';
+      for await (const chunk of providerRegistry.getProvider('chat').getChatResponseStream(messages, ANALYSIS_MODEL, { systemInstruction: SUMMARY_INSTRUCTION, signal })) {
+        summary += chunk;
+      }
+      return summary.trim();
+    });
+  },
 
-      const mimeType = outputMimeType || 'image/png';
-      if (response.generatedImages && response.generatedImages.length > 0) {
-        return response.generatedImages.map(img => `data:${mimeType};base64,${img.image.imageBytes}`);
+  generateTitle: (content: string, signal?: AbortSignal): Promise<string> => {
+    const messages: ChatMessage[] = [{ id: 'title-request', author: Author.USER, parts: [{ type: 'text', text: content }] }];
+    return requestScheduler.run({ label: 'Generate title', model: ANALYSIS_MODEL, capability: 'chat', signal }, async () => {
+      let title = '';
+      for await (const chunk of providerRegistry.getProvider('chat').getChatResponseStream(messages, ANALYSIS_MODEL, { systemInstruction: TITLE_INSTRUCTION, signal })) {
+        title += chunk;
       }
-      return null;
-    } catch (error) {
-      console.error("Error generating image:", error);
-      return null;
-    }
+      return title.trim();
+    });
   },
 
-  analyzeImage: async (base64Image: string, mimeType: string, prompt: string): Promise<string> => {
-    try {
-      const imagePart = {
-        inlineData: {
-          mimeType,
-          data: base64Image,
-        },
-      };
-      const textPart = {
-        text: prompt,
-      };
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: { parts: [imagePart, textPart] },
-      });
-      return response.text;
-    } catch (error) {
-      console.error("Error analyzing image:", error);
-      return "Sorry, I couldn't analyze the image.";
-    }
+  generateImage: (prompt: string, params: GenerationEvent['parameters'], signal?: AbortSignal): Promise<string[]> => {
+    const label = `Generate ${params.numberOfImages} image${params.numberOfImages === 1 ? '' : 's'}`;
+    return requestScheduler.run({ label, model: params.model, capability: 'generation', signal }, () =>
+      providerRegistry.getProvider('generation').generateImage(prompt, params, signal)
+    );
   },
 
-  editImage: async (base64Image: string, mimeType: string, prompt: string): Promise<string | null> => {
-    try {
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: {
-          parts: [
-            {
-              inlineData: {
-                data: base64Image,
-                mimeType,
-              },
-            },
-            {
-              text: prompt,
-            },
-          ],
-        },
-        config: {
-          responseModalities: [Modality.IMAGE],
-        },
-      });
+  analyzeImage: (base64Image: string, mimeType: string, prompt: string, signal?: AbortSignal): Promise<string> => {
+    return requestScheduler.run({ label: 'Analyze image', model: ANALYSIS_MODEL, capability: 'analysis', signal }, () =>
+      providerRegistry.getProvider('analysis').analyzeImage(base64Image, mimeType, prompt, signal)
+    );
+  },
 
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) {
-          const base64ImageBytes: string = part.inlineData.data;
-          return `data:image/png;base64,${base64ImageBytes}`;
-        }
-      }
-      return null;
-    } catch (error) {
-      console.error("Error editing image:", error);
-      return null;
-    }
+  editImage: (base64Image: string, mimeType: string, prompt: string, mask?: MaskedEditInput, signal?: AbortSignal): Promise<string> => {
+    const label = `${mask ? 'Inpaint' : 'Edit'} image: "${prompt}"`;
+    return requestScheduler.run({ label, model: EDIT_MODEL, capability: 'editing', signal }, () =>
+      providerRegistry.getProvider('editing').editImage(base64Image, mimeType, prompt, mask, signal)
+    );
   },
 };
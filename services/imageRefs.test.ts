@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { clearImageUrls, collectImages, collectMasks, mapImages } from './imageRefs';
+import { Author, type ChatConversation, type ImageEditingConversation, type StoredImage } from '../types';
+
+const image = (hash: string): StoredImage => ({ hash, mimeType: 'image/png', size: 1, url: `blob:http://localhost/${hash}` });
+
+const chat: ChatConversation = {
+  id: '1',
+  title: 'Fox',
+  createdAt: 1,
+  isFavorite: false,
+  type: 'chat',
+  modelUsed: 'gemini-2.5-flash',
+  messages: [
+    { id: '10', author: Author.USER, parentId: null, parts: [{ type: 'text', text: 'Draw it' }, { type: 'image', ...image('upload') }] },
+    {
+      id: '11',
+      author: Author.MODEL,
+      parentId: '10',
+      parts: [{ type: 'imageGenerationResult', images: [image('a'), image('b')], prompt: 'fox', parameters: { model: 'imagen-4.0-generate-001', aspectRatio: '1:1', numberOfImages: 2 } }],
+    },
+  ],
+};
+
+const editing: ImageEditingConversation = {
+  id: '2',
+  title: 'Edit',
+  createdAt: 1,
+  isFavorite: false,
+  type: 'imageEditing',
+  baseImage: image('base'),
+  history: [
+    { prompt: 'sepia', editedImage: image('sepia'), timestamp: 2 },
+    { prompt: 'sky', editedImage: image('sky'), timestamp: 3, mask: { image: image('mask'), bounds: { x: 0, y: 0, width: 4, height: 2 } } },
+  ],
+};
+
+describe('collectImages', () => {
+  it('lists every image reference in document order, masks included', () => {
+    expect(collectImages(chat).map(i => i.hash)).toEqual(['upload', 'a', 'b']);
+    expect(collectImages(editing).map(i => i.hash)).toEqual(['base', 'sepia', 'sky', 'mask']);
+    expect(collectMasks(editing).map(i => i.hash)).toEqual(['mask']);
+  });
+});
+
+describe('clearImageUrls', () => {
+  it('drops the object URLs and keeps the references', () => {
+    const cleared = clearImageUrls(editing) as ImageEditingConversation;
+    expect(collectImages(cleared).every(i => i.url === '')).toBe(true);
+    expect(cleared.history[1].mask?.bounds).toEqual(editing.history[1].mask?.bounds);
+    expect(collectImages(clearImageUrls(chat)).map(i => i.hash)).toEqual(['upload', 'a', 'b']);
+  });
+});
+
+describe('mapImages', () => {
+  it('passes every reference through the mapper and leaves the rest untouched', async () => {
+    const mapped = await mapImages(chat, async i => ({ ...i, hash: i.hash.toUpperCase() })) as ChatConversation;
+    expect(collectImages(mapped).map(i => i.hash)).toEqual(['UPLOAD', 'A', 'B']);
+    expect(mapped.messages[0].parts[0]).toEqual({ type: 'text', text: 'Draw it' });
+    expect(mapped.messages[1].parts[0]).toMatchObject({ prompt: 'fox' });
+  });
+
+  it('skips chat messages stored before they had parts', async () => {
+    const legacy = { ...chat, messages: [{ id: '9', author: Author.USER, parentId: null, text: 'Hello' }] } as unknown as ChatConversation;
+    expect(collectImages(legacy)).toEqual([]);
+    expect(await mapImages(legacy, async i => i)).toEqual(legacy);
+  });
+});
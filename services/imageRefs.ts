@@ -0,0 +1,75 @@
+import type { Conversation, MessagePart, StoredImage } from '../types';
+
+// Both helpers also run on records older than migration 4, whose chat messages may have no parts yet.
+
+// Every image a conversation references, in document order.
+export const collectImages = (convo: Conversation): StoredImage[] => {
+  switch (convo.type) {
+    case 'chat':
+      return convo.messages.flatMap(msg => (msg.parts ?? []).flatMap(part => {
+        if (part.type === 'image') return [part];
+        if (part.type === 'imageGenerationResult') return part.images;
+        return [];
+      }));
+    case 'imageEditing':
+      return [convo.baseImage, ...convo.history.flatMap(event => (event.mask ? [event.editedImage, event.mask.image] : [event.editedImage]))];
+    default:
+      return [];
+  }
+};
+
+// Inpainting masks among those images; they rely on transparency and must stay PNG.
+export const collectMasks = (convo: Conversation): StoredImage[] =>
+  convo.type === 'imageEditing' ? convo.history.flatMap(event => (event.mask ? [event.mask.image] : [])) : [];
+
+// Object URLs only live as long as the page, so stored records keep just the reference.
+export const clearImageUrls = (convo: Conversation): Conversation => {
+  const clear = (image: StoredImage): StoredImage => ({ ...image, url: '' });
+  switch (convo.type) {
+    case 'chat': {
+      const clearPart = (part: MessagePart): MessagePart => {
+        if (part.type === 'image') return { ...part, url: '' };
+        if (part.type === 'imageGenerationResult') return { ...part, images: part.images.map(clear) };
+        return part;
+      };
+      return { ...convo, messages: convo.messages.map(msg => (msg.parts ? { ...msg, parts: msg.parts.map(clearPart) } : msg)) };
+    }
+    case 'imageEditing':
+      return {
+        ...convo,
+        baseImage: clear(convo.baseImage),
+        history: convo.history.map(event => ({
+          ...event,
+          editedImage: clear(event.editedImage),
+          ...(event.mask && { mask: { ...event.mask, image: clear(event.mask.image) } }),
+        })),
+      };
+    default:
+      return convo;
+  }
+};
+
+// Rebuilds the conversation with every image reference passed through `map`.
+export const mapImages = async (convo: Conversation, map: (image: StoredImage) => Promise<StoredImage>): Promise<Conversation> => {
+  switch (convo.type) {
+    case 'chat': {
+      const mapPart = async (part: MessagePart): Promise<MessagePart> => {
+        if (part.type === 'image') return { type: 'image', ...(await map(part)) };
+        if (part.type === 'imageGenerationResult') return { ...part, images: await Promise.all(part.images.map(map)) };
+        return part;
+      };
+      const messages = await Promise.all(convo.messages.map(async msg => (msg.parts ? { ...msg, parts: await Promise.all(msg.parts.map(mapPart)) } : msg)));
+      return { ...convo, messages };
+    }
+    case 'imageEditing': {
+      const history = await Promise.all(convo.history.map(async event => ({
+        ...event,
+        editedImage: await map(event.editedImage),
+        ...(event.mask && { mask: { ...event.mask, image: await map(event.mask.image) } }),
+      })));
+      return { ...convo, baseImage: await map(convo.baseImage), history };
+    }
+    default:
+      return convo;
+  }
+};
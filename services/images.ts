@@ -0,0 +1,34 @@
+import type { StoredImage } from '../types';
+import { dbService } from './dbService';
+import { fileToBase64 } from './attachments';
+import { storageService } from './storageService';
+
+// Helpers for moving images in and out of the image store. Providers still take base64, so the bytes
+// are read back only at the moment a request is made.
+
+// Images are what fills the quota, so every store re-checks it in the background.
+export const storeImageFile = async (file: Blob, mimeType?: string): Promise<StoredImage> => {
+  const image = await dbService.putImage(file, mimeType);
+  storageService.checkQuota().catch(error => console.error("Failed to check storage quota:", error));
+  return image;
+};
+
+// Model replies carry images as data URLs.
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+export const storeDataUrl = async (dataUrl: string): Promise<StoredImage> =>
+  storeImageFile(await dataUrlToBlob(dataUrl));
+
+export const getImageBlob = async (image: StoredImage): Promise<Blob> => {
+  const blob = await dbService.getImageBlob(image.hash);
+  if (!blob) {
+    throw new Error('This image is missing from the image store.');
+  }
+  return blob;
+};
+
+export const getImageBase64 = async (image: StoredImage): Promise<string> =>
+  fileToBase64(await getImageBlob(image));
+
+export const getImageDataUrl = async (image: StoredImage): Promise<string> =>
+  `data:${image.mimeType};base64,${await getImageBase64(image)}`;
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { splitBlocks } from './markdownBlocks';
+
+const lines = (...text: string[]) => text.join('\n');
+
+describe('splitBlocks', () => {
+  it('splits at blank lines between top-level blocks', () => {
+    expect(splitBlocks(lines('# Title', '', 'A paragraph', 'over two lines.', '', '- a list'))).toEqual([
+      '# Title',
+      lines('A paragraph', 'over two lines.'),
+      '- a list',
+    ]);
+  });
+
+  it('keeps indented continuations with the block they belong to', () => {
+    const item = lines('1. First step', '', '   More about it.');
+    expect(splitBlocks(lines(item, '', 'After.'))).toEqual([item, 'After.']);
+  });
+
+  it('never splits fenced code, even at blank lines', () => {
+    const code = lines('```python', 'def f():', '', '    return 1', '```');
+    const tilde = lines('~~~', 'a', '', 'b', '~~~');
+    expect(splitBlocks(lines('Code:', '', code, '', tilde))).toEqual(['Code:', code, tilde]);
+  });
+
+  it('never splits display math, even at blank lines', () => {
+    const math = lines('$$', 'a = b', '', '+ c', '$$');
+    expect(splitBlocks(lines(math, '', '$$x$$', '', 'Done.'))).toEqual([math, '$$x$$', 'Done.']);
+  });
+
+  it('treats an unclosed fence as running to the end, as it does while streaming', () => {
+    const open = lines('```js', 'const a = 1;', '', 'const b = 2;');
+    expect(splitBlocks(lines('Intro', '', open))).toEqual(['Intro', open]);
+  });
+
+  it('keeps footnotes and link references in one block with their definitions', () => {
+    const text = lines('Intro.', '', 'A claim[^1] and a [link][docs].', '', 'More text.', '', '[^1]: The source.', '[docs]: https://example.com', '', 'Outro.');
+    expect(splitBlocks(text)).toEqual([
+      'Intro.',
+      lines('A claim[^1] and a [link][docs].', '', 'More text.', '', '[^1]: The source.', '[docs]: https://example.com'),
+      'Outro.',
+    ]);
+  });
+
+  it('matches reference labels regardless of case', () => {
+    expect(splitBlocks(lines('See [the Docs].', '', '[the docs]: https://example.com'))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,46 @@
+// Link reference and footnote definitions: `[label]: https://…` and `[^1]: …`.
+const DEFINITION = /^ {0,3}\[([^\]]+)\]:/gm;
+
+// A reference only resolves when its definition is parsed with it, so the blocks from the first mention of a
+// defined label to the last are joined back together.
+const joinReferences = (blocks: string[]): string[] => {
+  const labels = [...blocks.join('\n').matchAll(DEFINITION)].map(match => `[${match[1].toLowerCase()}]`);
+  if (labels.length === 0) return blocks;
+  const mentions = blocks.map(block => labels.some(label => block.toLowerCase().includes(label)));
+  const first = mentions.indexOf(true);
+  const last = mentions.lastIndexOf(true);
+  return [...blocks.slice(0, first), blocks.slice(first, last + 1).join('\n\n'), ...blocks.slice(last + 1)];
+};
+
+// Splits markdown at blank lines between top-level blocks. Fenced code, $$ math and indented
+// continuations are never split, so each block parses the same on its own as it would in the whole text.
+export const splitBlocks = (markdown: string): string[] => {
+  const lines = markdown.split('\n');
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let fence: string | null = null;
+  let inMath = false;
+
+  lines.forEach((line, i) => {
+    const trimmed = line.trim();
+    if (fence) {
+      if (trimmed.startsWith(fence)) fence = null;
+    } else if (inMath) {
+      if (trimmed.endsWith('$$')) inMath = false;
+    } else if (/^(```|~~~)/.test(trimmed)) {
+      fence = trimmed.slice(0, 3);
+    } else if (trimmed.startsWith('$$') && !(trimmed.length > 2 && trimmed.endsWith('$$'))) {
+      inMath = true;
+    } else if (trimmed === '' && current.length > 0) {
+      const next = lines.slice(i + 1).find(l => l.trim() !== '');
+      if (next !== undefined && !/^\s/.test(next)) {
+        blocks.push(current.join('\n'));
+        current = [];
+        return;
+      }
+    }
+    current.push(line);
+  });
+  if (current.length > 0) blocks.push(current.join('\n'));
+  return joinReferences(blocks);
+};
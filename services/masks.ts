@@ -0,0 +1,121 @@
+import type { MaskBounds, MaskedEditInput } from '../types';
+import { base64ToBlob, fileToBase64 } from './attachments';
+
+// Canvas helpers for inpainting. A stored mask is a PNG the size of its source image: opaque white where the
+// edit applies and transparent elsewhere. The editor paints it in MASK_PAINT_COLOR and only the alpha counts.
+
+export const MASK_PAINT_COLOR = '#ef4444';
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Drawing is not supported in this browser.');
+  }
+  return { canvas, context };
+};
+
+// Scaled to `width` x `height` when given, otherwise at the image's own size.
+const drawBlob = async (blob: Blob, width?: number, height?: number) => {
+  const bitmap = await createImageBitmap(blob);
+  const drawn = createCanvas(width ?? bitmap.width, height ?? bitmap.height);
+  drawn.context.drawImage(bitmap, 0, 0, drawn.canvas.width, drawn.canvas.height);
+  bitmap.close();
+  return drawn;
+};
+
+const canvasToPng = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode the image.'))), 'image/png'));
+
+export const isMaskEmpty = (canvas: HTMLCanvasElement): boolean => {
+  const context = canvas.getContext('2d');
+  if (!context || canvas.width === 0 || canvas.height === 0) return true;
+  const pixels = context.getImageData(0, 0, canvas.width, canvas.height).data;
+  for (let i = 3; i < pixels.length; i += 4) {
+    if (pixels[i] !== 0) return false;
+  }
+  return true;
+};
+
+// Reads what is painted on the editor canvas as a stored mask, with the box around it. Null when nothing is painted.
+export const exportMask = async (canvas: HTMLCanvasElement): Promise<{ blob: Blob; bounds: MaskBounds } | null> => {
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+  const { width, height } = canvas;
+  const data = context.getImageData(0, 0, width, height);
+  const pixels = data.data;
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (pixels[i + 3] === 0) continue;
+      pixels[i] = pixels[i + 1] = pixels[i + 2] = 255;
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+    }
+  }
+  if (maxX < 0) return null;
+  const mask = createCanvas(width, height);
+  mask.context.putImageData(data, 0, 0);
+  return { blob: await canvasToPng(mask.canvas), bounds: { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 } };
+};
+
+// Replaces what is painted on the editor canvas with a stored mask, scaled to the canvas.
+export const drawMask = async (canvas: HTMLCanvasElement, mask: Blob): Promise<void> => {
+  const context = canvas.getContext('2d');
+  if (!context) return;
+  const tinted = await drawBlob(mask, canvas.width, canvas.height);
+  tinted.context.globalCompositeOperation = 'source-in';
+  tinted.context.fillStyle = MASK_PAINT_COLOR;
+  tinted.context.fillRect(0, 0, canvas.width, canvas.height);
+  context.globalCompositeOperation = 'source-over';
+  context.clearRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(tinted.canvas, 0, 0);
+};
+
+// What providers receive for an inpainting request: the mask flattened to white on black, and the source
+// cropped to the masked area.
+export const buildMaskedEditInput = async (source: Blob, mask: Blob, bounds: MaskBounds): Promise<MaskedEditInput> => {
+  const sourceBitmap = await createImageBitmap(source);
+  const flat = createCanvas(sourceBitmap.width, sourceBitmap.height);
+  flat.context.fillStyle = '#000000';
+  flat.context.fillRect(0, 0, flat.canvas.width, flat.canvas.height);
+  flat.context.drawImage((await drawBlob(mask, flat.canvas.width, flat.canvas.height)).canvas, 0, 0);
+
+  const region = createCanvas(bounds.width, bounds.height);
+  region.context.drawImage(sourceBitmap, bounds.x, bounds.y, bounds.width, bounds.height, 0, 0, bounds.width, bounds.height);
+  sourceBitmap.close();
+  return {
+    maskBase64: await fileToBase64(await canvasToPng(flat.canvas)),
+    regionBase64: await fileToBase64(await canvasToPng(region.canvas)),
+    bounds,
+  };
+};
+
+// OpenAI-style edit endpoints expect the opposite: transparent where the image may change, opaque elsewhere.
+export const toTransparentMask = async (maskBase64: string): Promise<Blob> => {
+  const { canvas, context } = await drawBlob(base64ToBlob(maskBase64, 'image/png'));
+  const data = context.getImageData(0, 0, canvas.width, canvas.height);
+  const pixels = data.data;
+  for (let i = 0; i < pixels.length; i += 4) {
+    pixels[i + 3] = 255 - pixels[i];
+    pixels[i] = pixels[i + 1] = pixels[i + 2] = 0;
+  }
+  context.putImageData(data, 0, 0);
+  return canvasToPng(canvas);
+};
+
+// Pastes the model's result into the source through the mask, so nothing outside it can change even if the model
+// redrew the whole picture. The result is scaled to the source first, since models do not always keep the size.
+export const compositeMasked = async (source: Blob, result: Blob, mask: Blob): Promise<Blob> => {
+  const { canvas, context } = await drawBlob(source);
+  const patch = await drawBlob(result, canvas.width, canvas.height);
+  patch.context.globalCompositeOperation = 'destination-in';
+  patch.context.drawImage((await drawBlob(mask, canvas.width, canvas.height)).canvas, 0, 0);
+  context.drawImage(patch.canvas, 0, 0);
+  return canvasToPng(canvas);
+};
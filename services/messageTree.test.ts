@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { findLatestLeaf, getActivePath, getSiblings, normalizeTree } from './messageTree';
+import { Author, type ChatMessage } from '../types';
+
+const message = (id: string, parentId: string | null): ChatMessage => ({ id, author: Author.USER, parentId, parts: [{ type: 'text', text: id }] });
+
+// 1 ─ 2 ─ 3 ─ 4        the first reply, continued
+//   └ 5 ─ 6            a regenerated reply, continued
+//     └ 7              a second continuation of it, newest
+const tree = [message('1', null), message('2', '1'), message('3', '2'), message('4', '3'), message('5', '1'), message('6', '5'), message('7', '5')];
+const ids = (messages: ChatMessage[]) => messages.map(msg => msg.id);
+
+describe('normalizeTree', () => {
+  it('links a chat saved before branching into a single line', () => {
+    const legacy = ['1', '2', '3'].map(id => ({ ...message(id, null), parentId: undefined }));
+    expect(normalizeTree(legacy).map(msg => msg.parentId)).toEqual([null, '1', '2']);
+  });
+
+  it('leaves a tree as it is', () => {
+    expect(normalizeTree(tree)).toBe(tree);
+  });
+});
+
+describe('getSiblings', () => {
+  it('lists the versions of a message in the order they were created', () => {
+    expect(ids(getSiblings(tree, tree[1]))).toEqual(['2', '5']);
+    expect(ids(getSiblings(tree, tree[0]))).toEqual(['1']);
+  });
+});
+
+describe('findLatestLeaf', () => {
+  it('follows the newest child down to the end of the branch', () => {
+    expect(findLatestLeaf(tree, '1')).toBe('7');
+    expect(findLatestLeaf(tree, '2')).toBe('4');
+    expect(findLatestLeaf(tree, '4')).toBe('4');
+  });
+});
+
+describe('getActivePath', () => {
+  it('walks from the leaf back to the root', () => {
+    expect(ids(getActivePath(tree, '4'))).toEqual(['1', '2', '3', '4']);
+    expect(ids(getActivePath(tree, '6'))).toEqual(['1', '5', '6']);
+  });
+
+  it('falls back to the last message when the leaf is unknown', () => {
+    expect(ids(getActivePath(tree, undefined))).toEqual(['1', '5', '7']);
+    expect(ids(getActivePath(tree, 'gone'))).toEqual(['1', '5', '7']);
+    expect(getActivePath([], null)).toEqual([]);
+  });
+});
@@ -0,0 +1,34 @@
+import type { ChatMessage } from '../types';
+
+// Chats saved before branching store a plain list; link each message to the one before it.
+export const normalizeTree = (messages: ChatMessage[]): ChatMessage[] => {
+  if (messages.every(msg => msg.parentId !== undefined)) return messages;
+  return messages.map((msg, i) => (msg.parentId !== undefined ? msg : { ...msg, parentId: i === 0 ? null : messages[i - 1].id }));
+};
+
+// Siblings are kept in creation order, which is the order they were appended in.
+export const getChildren = (messages: ChatMessage[], parentId: string | null): ChatMessage[] =>
+  messages.filter(msg => (msg.parentId ?? null) === parentId);
+
+export const getSiblings = (messages: ChatMessage[], message: ChatMessage): ChatMessage[] =>
+  getChildren(messages, message.parentId ?? null);
+
+// Follows the newest child at each level, so switching to a branch shows where it was last left off.
+export const findLatestLeaf = (messages: ChatMessage[], fromId: string): string => {
+  let leafId = fromId;
+  for (let children = getChildren(messages, leafId); children.length > 0; children = getChildren(messages, leafId)) {
+    leafId = children[children.length - 1].id;
+  }
+  return leafId;
+};
+
+export const getActivePath = (messages: ChatMessage[], leafId: string | null | undefined): ChatMessage[] => {
+  const byId = new Map(messages.map(msg => [msg.id, msg]));
+  let current = (leafId && byId.get(leafId)) || messages[messages.length - 1];
+  const path: ChatMessage[] = [];
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+};
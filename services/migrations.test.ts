@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { migrations } from './migrations';
+import { Author, type ChatConversation, type Conversation, type ImageEditingConversation, type StoredImage } from '../types';
+
+const moveImages = migrations.find(migration => migration.version === 2)!.upgradeRecord!;
+
+// Hashes by content, like the real image store, and remembers what was written.
+const fakeImageStore = () => {
+  const written = new Map<string, string>();
+  const putImage = async (blob: Blob): Promise<StoredImage> => {
+    const content = await blob.text();
+    const hash = `hash-of-${content}`;
+    written.set(hash, content);
+    return { hash, mimeType: blob.type, size: blob.size, url: '' };
+  };
+  return { written, putImage };
+};
+
+// Sessions as they were stored before the image store existed.
+const inlineChat = {
+  id: '1',
+  title: 'Fox',
+  createdAt: 1,
+  isFavorite: false,
+  type: 'chat',
+  modelUsed: 'gemini-2.5-flash',
+  messages: [
+    { id: '10', author: Author.USER, parentId: null, parts: [{ type: 'image', mimeType: 'image/png', base64: btoa('fox'), url: `data:image/png;base64,${btoa('fox')}` }] },
+    {
+      id: '11',
+      author: Author.MODEL,
+      parentId: '10',
+      parts: [{
+        type: 'imageGenerationResult',
+        images: [{ url: `data:image/jpeg;base64,${btoa('generated')}` }, { url: `data:image/jpeg;base64,${btoa('fox')}` }],
+        prompt: 'a fox',
+        parameters: { model: 'imagen-4.0-generate-001', aspectRatio: '1:1', numberOfImages: 2 },
+      }],
+    },
+  ],
+} as unknown as Conversation;
+
+const inlineEdit = {
+  id: '2',
+  title: 'Edit',
+  createdAt: 1,
+  isFavorite: false,
+  type: 'imageEditing',
+  baseImage: { mimeType: 'image/png', base64: btoa('base') },
+  history: [{ prompt: 'sepia', editedImage: { url: `data:image/png;base64,${btoa('sepia')}` }, timestamp: 5 }],
+} as unknown as Conversation;
+
+describe('migration 2: move inline images into the image store', () => {
+  it('stores inline chat images and keeps only their hash references', async () => {
+    const { written, putImage } = fakeImageStore();
+    const upgraded = await moveImages(inlineChat, { putImage }) as ChatConversation;
+
+    expect(upgraded.messages[0].parts).toEqual([{ type: 'image', hash: 'hash-of-fox', mimeType: 'image/png', size: 3, url: '' }]);
+    expect(upgraded.messages[1].parts[0]).toMatchObject({
+      prompt: 'a fox',
+      images: [{ hash: 'hash-of-generated', mimeType: 'image/jpeg' }, { hash: 'hash-of-fox' }],
+    });
+    expect(JSON.stringify(upgraded)).not.toContain('base64');
+    // The picture that was both uploaded and generated ends up under a single hash.
+    expect([...written.keys()].sort()).toEqual(['hash-of-fox', 'hash-of-generated']);
+  });
+
+  it('moves the base image and every edit step of an editing session', async () => {
+    const { written, putImage } = fakeImageStore();
+    const upgraded = await moveImages(inlineEdit, { putImage }) as ImageEditingConversation;
+
+    expect(upgraded.baseImage).toEqual({ hash: 'hash-of-base', mimeType: 'image/png', size: 4, url: '' });
+    expect(upgraded.history).toEqual([{ prompt: 'sepia', editedImage: { hash: 'hash-of-sepia', mimeType: 'image/png', size: 5, url: '' }, timestamp: 5 }]);
+    expect(written.get('hash-of-sepia')).toBe('sepia');
+  });
+
+  it('returns records that are already migrated as they are', async () => {
+    const { written, putImage } = fakeImageStore();
+    const upgraded = await moveImages(inlineEdit, { putImage });
+    written.clear();
+
+    expect(await moveImages(upgraded, { putImage })).toBe(upgraded);
+    expect(written.size).toBe(0);
+  });
+});
+
+describe('migrations', () => {
+  it('are numbered in order without gaps', () => {
+    expect(migrations.map(migration => migration.version)).toEqual(migrations.map((_, i) => i + 1));
+  });
+});
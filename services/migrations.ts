@@ -0,0 +1,127 @@
+import type { ChatMessage, Conversation, StoredImage } from '../types';
+import { base64ToBlob } from './attachments';
+import { collectImages, mapImages } from './imageRefs';
+import { normalizeTree } from './messageTree';
+import { buildSearchEntry } from './search';
+import { buildSummary } from './summaries';
+
+export const CONVERSATIONS_STORE = 'conversations';
+export const IMAGES_STORE = 'images';
+export const MIGRATION_BACKUPS_STORE = 'migrationBackups';
+export const SEARCH_INDEX_STORE = 'searchIndex';
+export const FOLDERS_STORE = 'folders';
+export const SUMMARIES_STORE = 'conversationSummaries';
+
+export interface MigrationContext {
+  putImage: (blob: Blob) => Promise<StoredImage>;
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  // Runs in onupgradeneeded, inside the version-change transaction, so it must not await anything.
+  // Throwing aborts that transaction and the database stays at its previous version.
+  upgradeSchema?: (db: IDBDatabase, transaction: IDBTransaction) => void;
+  // Rewrites one stored session. Runs in background batches after the database opens, and on every read
+  // and write until then, so it must return records that are already in the new shape as they are.
+  upgradeRecord?: (record: Conversation, context: MigrationContext) => Promise<Conversation>;
+}
+
+// Before the image store, images were kept inline: base64 plus a data URL, or just a data URL for generated images.
+type InlineImage = Partial<StoredImage> & { base64?: string };
+
+// Chats from before multimodal messages stored a single `content` string instead of parts.
+type LegacyMessage = Omit<ChatMessage, 'parts'> & { parts?: ChatMessage['parts']; content?: string };
+
+// Append only. A released migration must never change, because some browsers have already run it.
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Create the conversations store',
+    upgradeSchema: db => {
+      const store = db.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'id' });
+      store.createIndex('createdAt', 'createdAt', { unique: false });
+      store.createIndex('title', 'title', { unique: false });
+    },
+  },
+  {
+    version: 2,
+    description: 'Move inline images into the image store',
+    upgradeSchema: db => {
+      db.createObjectStore(IMAGES_STORE, { keyPath: 'hash' });
+    },
+    upgradeRecord: async (record, { putImage }) => {
+      if (collectImages(record).every(image => image.hash)) return record;
+      return mapImages(record, async (image: InlineImage) => {
+        if (image.hash) return image as StoredImage;
+        const blob = image.base64
+          ? base64ToBlob(image.base64, image.mimeType ?? 'image/png')
+          : await (await fetch(image.url ?? '')).blob();
+        return putImage(blob);
+      });
+    },
+  },
+  {
+    version: 3,
+    description: 'Keep a copy of each session a migration rewrites',
+    upgradeSchema: db => {
+      db.createObjectStore(MIGRATION_BACKUPS_STORE, { keyPath: ['version', 'id'] });
+    },
+  },
+  {
+    version: 4,
+    description: 'Convert old chat messages to parts and link them into a tree',
+    upgradeRecord: async record => {
+      if (record.type !== 'chat') return record;
+      const messages = record.messages as LegacyMessage[];
+      if (messages.every(msg => msg.parts && msg.parentId !== undefined)) return record;
+      const withParts = messages.map(({ content, ...msg }): ChatMessage =>
+        msg.parts ? { ...msg, parts: msg.parts } : { ...msg, parts: [{ type: 'text', text: content ?? '' }] });
+      return { ...record, messages: normalizeTree(withParts) };
+    },
+  },
+  {
+    version: 5,
+    description: 'Build the full-text search index',
+    upgradeSchema: (db, transaction) => {
+      const index = db.createObjectStore(SEARCH_INDEX_STORE, { keyPath: 'conversationId' });
+      index.createIndex('terms', 'terms', { unique: false, multiEntry: true });
+      const cursor = transaction.objectStore(CONVERSATIONS_STORE).openCursor();
+      cursor.onsuccess = () => {
+        if (!cursor.result) return;
+        index.put(buildSearchEntry(cursor.result.value));
+        cursor.result.continue();
+      };
+    },
+  },
+  {
+    version: 6,
+    description: 'Add folders and tags',
+    upgradeSchema: (db, transaction) => {
+      db.createObjectStore(FOLDERS_STORE, { keyPath: 'id' });
+      const conversations = transaction.objectStore(CONVERSATIONS_STORE);
+      // Sessions outside any folder have no folderId, so they are simply not in this index.
+      conversations.createIndex('folderId', 'folderId', { unique: false });
+      conversations.createIndex('tags', 'tags', { unique: false, multiEntry: true });
+    },
+  },
+  {
+    version: 7,
+    description: 'Build the session summaries for the history list',
+    upgradeSchema: (db, transaction) => {
+      const summaries = db.createObjectStore(SUMMARIES_STORE, { keyPath: 'id' });
+      // The id breaks ties, so paging by position never skips sessions created in the same millisecond.
+      summaries.createIndex('recent', ['createdAt', 'id'], { unique: true });
+      summaries.createIndex('type', 'type', { unique: false });
+      summaries.createIndex('models', 'models', { unique: false, multiEntry: true });
+      const cursor = transaction.objectStore(CONVERSATIONS_STORE).openCursor();
+      cursor.onsuccess = () => {
+        if (!cursor.result) return;
+        summaries.put(buildSummary(cursor.result.value));
+        cursor.result.continue();
+      };
+    },
+  },
+];
+
+export const LATEST_VERSION = migrations[migrations.length - 1].version;
@@ -0,0 +1,67 @@
+import type { Persona } from '../types';
+
+const PERSONAS_KEY = 'personas';
+
+export const defaultPersona: Persona = {
+  id: 'default',
+  name: 'Gemini',
+  systemInstruction: 'You are a helpful and creative AI assistant. Your name is Gemini.',
+  model: 'gemini-2.5-flash',
+  generationConfig: {},
+};
+
+class PersonaService {
+  private personas: Persona[];
+  private listeners = new Set<(personas: Persona[]) => void>();
+
+  constructor() {
+    this.personas = this.loadPersonas();
+  }
+
+  private loadPersonas(): Persona[] {
+    try {
+      const saved = localStorage.getItem(PERSONAS_KEY);
+      if (saved) {
+        const parsed = JSON.parse(saved) as Persona[];
+        // The default persona can be edited but never goes missing.
+        return parsed.some(p => p.id === defaultPersona.id) ? parsed : [defaultPersona, ...parsed];
+      }
+    } catch (error) {
+      console.error("Error loading personas:", error);
+    }
+    return [defaultPersona];
+  }
+
+  private persist(personas: Persona[]): void {
+    this.personas = personas;
+    localStorage.setItem(PERSONAS_KEY, JSON.stringify(personas));
+    this.listeners.forEach(listener => listener(personas));
+  }
+
+  subscribe(listener: (personas: Persona[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getPersonas(): Persona[] {
+    return this.personas;
+  }
+
+  getDefault(): Persona {
+    return this.personas.find(p => p.id === defaultPersona.id) ?? defaultPersona;
+  }
+
+  savePersona(persona: Persona): void {
+    const exists = this.personas.some(p => p.id === persona.id);
+    this.persist(exists ? this.personas.map(p => (p.id === persona.id ? persona : p)) : [...this.personas, persona]);
+  }
+
+  deletePersona(id: string): void {
+    if (id === defaultPersona.id) return;
+    this.persist(this.personas.filter(p => p.id !== id));
+  }
+}
+
+export const personaService = new PersonaService();
@@ -0,0 +1,110 @@
+import type { ModelProvider, ProviderCapability, ProviderId, ProviderSettings } from '../types';
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createOpenAICompatibleProvider } from './providers/openAICompatibleProvider';
+import { createRecordingProvider, createReplayProvider } from './providers/fixtureProvider';
+import { fixtureService } from './fixtureService';
+import { credentialService } from './credentialService';
+
+const SETTINGS_KEY = 'providerSettings';
+
+export const providerNames: Record<ProviderId, string> = {
+  gemini: 'Google Gemini',
+  openaiCompatible: 'Local (OpenAI-compatible)',
+};
+
+export const defaultProviderSettings: ProviderSettings = {
+  assignments: {
+    chat: 'gemini',
+    generation: 'gemini',
+    analysis: 'gemini',
+    editing: 'gemini',
+  },
+  openAICompatible: {
+    baseUrl: 'http://localhost:11434/v1',
+    apiKey: '',
+    chatModel: 'llama3.2',
+    imageModel: '',
+  },
+};
+
+class ProviderRegistry {
+  private settings: ProviderSettings;
+  private providers = new Map<ProviderId, ModelProvider>();
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    this.settings = this.loadSettings();
+    // The Gemini client is bound to one key and base URL, so rebuild it when they change.
+    credentialService.subscribe(() => this.providers.delete('gemini'));
+  }
+
+  private loadSettings(): ProviderSettings {
+    try {
+      const saved = localStorage.getItem(SETTINGS_KEY);
+      if (saved) {
+        const parsed = JSON.parse(saved) as Partial<ProviderSettings>;
+        return {
+          assignments: { ...defaultProviderSettings.assignments, ...parsed.assignments },
+          openAICompatible: { ...defaultProviderSettings.openAICompatible, ...parsed.openAICompatible },
+        };
+      }
+    } catch (error) {
+      console.error("Error loading provider settings:", error);
+    }
+    return defaultProviderSettings;
+  }
+
+  private createProvider(id: ProviderId): ModelProvider {
+    switch (id) {
+      case 'openaiCompatible':
+        return createOpenAICompatibleProvider(this.settings.openAICompatible);
+      case 'gemini':
+      default:
+        return createGeminiProvider(credentialService.getCredentials());
+    }
+  }
+
+  getSettings(): ProviderSettings {
+    return this.settings;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // A Gemini key is only required when some capability actually goes to Gemini.
+  needsGeminiKey(): boolean {
+    if (fixtureService.getMode() === 'replay') {
+      return false;
+    }
+    return Object.values(this.settings.assignments).includes('gemini');
+  }
+
+  updateSettings(settings: ProviderSettings): void {
+    this.settings = settings;
+    // Providers capture their settings when created, so drop them and rebuild lazily.
+    this.providers.clear();
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    this.listeners.forEach(listener => listener());
+  }
+
+  getProvider(capability: ProviderCapability): ModelProvider {
+    // In replay mode no real provider is touched, whatever the assignments say.
+    const fixtureMode = fixtureService.getMode();
+    if (fixtureMode === 'replay') {
+      return createReplayProvider();
+    }
+    const id = this.settings.assignments[capability];
+    let provider = this.providers.get(id);
+    if (!provider) {
+      provider = this.createProvider(id);
+      this.providers.set(id, provider);
+    }
+    return fixtureMode === 'record' ? createRecordingProvider(provider) : provider;
+  }
+}
+
+export const providerRegistry = new ProviderRegistry();
@@ -0,0 +1,92 @@
+import type { ChatMessage, ChatRequestOptions, GenerationEvent, MaskedEditInput, ModelProvider, ProviderMethod, SerializedModelError } from '../../types';
+import { fixtureService } from '../fixtureService';
+import { ModelError, toModelError } from '../errors';
+import { delay } from '../timing';
+
+// The signal is not part of the request: it is stripped from chat options before keying and recording.
+const chatRequest = (messages: ChatMessage[], model: string, options?: ChatRequestOptions) => ({
+  messages,
+  model,
+  options: options && { systemInstruction: options.systemInstruction, generationConfig: options.generationConfig },
+});
+
+const recordCall = async <T>(method: ProviderMethod, request: unknown, call: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  const key = fixtureService.keyFor(method, request);
+  const start = Date.now();
+  try {
+    const value = await call();
+    fixtureService.record({ method, key, request, value, durationMs: Date.now() - start });
+    return value;
+  } catch (error) {
+    fixtureService.record({ method, key, request, durationMs: Date.now() - start, error: toModelError(error, signal).toJSON() });
+    throw error;
+  }
+};
+
+const replayCall = async <T>(method: ProviderMethod, request: unknown, signal?: AbortSignal): Promise<T> => {
+  const entry = await fixtureService.findReplay(method, fixtureService.keyFor(method, request));
+  await delay(entry.durationMs, signal);
+  if (entry.error) {
+    throw ModelError.fromJSON(entry.error);
+  }
+  return entry.value as T;
+};
+
+// Passes every call through to `inner` and saves the request and response as a fixture entry.
+export const createRecordingProvider = (inner: ModelProvider): ModelProvider => ({
+  getChatResponseStream: async function* (messages: ChatMessage[], model: string, options?: ChatRequestOptions): AsyncGenerator<string> {
+    const request = chatRequest(messages, model, options);
+    const key = fixtureService.keyFor('getChatResponseStream', request);
+    const chunks: { text: string; delayMs: number }[] = [];
+    const start = Date.now();
+    let last = start;
+    let error: SerializedModelError | undefined;
+    try {
+      for await (const text of inner.getChatResponseStream(messages, model, options)) {
+        const now = Date.now();
+        chunks.push({ text, delayMs: now - last });
+        last = now;
+        yield text;
+      }
+    } catch (e) {
+      error = toModelError(e, options?.signal).toJSON();
+      throw e;
+    } finally {
+      // Runs for completed, failed and abandoned streams alike, so partial responses are kept too.
+      fixtureService.record({ method: 'getChatResponseStream', key, request, chunks, durationMs: Date.now() - start, error });
+    }
+  },
+
+  generateImage: (prompt: string, params: GenerationEvent['parameters'], signal?: AbortSignal) =>
+    recordCall('generateImage', { prompt, params }, () => inner.generateImage(prompt, params, signal), signal),
+
+  analyzeImage: (base64Image: string, mimeType: string, prompt: string, signal?: AbortSignal) =>
+    recordCall('analyzeImage', { base64Image, mimeType, prompt }, () => inner.analyzeImage(base64Image, mimeType, prompt, signal), signal),
+
+  editImage: (base64Image: string, mimeType: string, prompt: string, mask?: MaskedEditInput, signal?: AbortSignal) =>
+    recordCall('editImage', { base64Image, mimeType, prompt, mask }, () => inner.editImage(base64Image, mimeType, prompt, mask, signal), signal),
+});
+
+// Serves previously recorded fixtures without touching the network, reproducing chunk timing and failures.
+export const createReplayProvider = (): ModelProvider => ({
+  getChatResponseStream: async function* (messages: ChatMessage[], model: string, options?: ChatRequestOptions): AsyncGenerator<string> {
+    const request = chatRequest(messages, model, options);
+    const entry = await fixtureService.findReplay('getChatResponseStream', fixtureService.keyFor('getChatResponseStream', request));
+    for (const chunk of entry.chunks || []) {
+      await delay(chunk.delayMs, options?.signal);
+      yield chunk.text;
+    }
+    if (entry.error) {
+      throw ModelError.fromJSON(entry.error);
+    }
+  },
+
+  generateImage: (prompt: string, params: GenerationEvent['parameters'], signal?: AbortSignal) =>
+    replayCall<string[]>('generateImage', { prompt, params }, signal),
+
+  analyzeImage: (base64Image: string, mimeType: string, prompt: string, signal?: AbortSignal) =>
+    replayCall<string>('analyzeImage', { base64Image, mimeType, prompt }, signal),
+
+  editImage: (base64Image: string, mimeType: string, prompt: string, mask?: MaskedEditInput, signal?: AbortSignal) =>
+    replayCall<string>('editImage', { base64Image, mimeType, prompt, mask }, signal),
+});
@@ -0,0 +1,200 @@
+import { GoogleGenAI, Modality, type Content, type Part } from "@google/genai";
+import { Author, type ChatMessage, type ChatGenerationConfig, type GenerationEvent, type GeminiCredentials, type MaskedEditInput, type ModelProvider } from '../../types';
+import { ModelError, toModelError, safetyErrorFromResponse } from '../errors';
+
+export const ANALYSIS_MODEL = 'gemini-2.5-flash';
+export const EDIT_MODEL = 'gemini-2.5-flash-image';
+
+// The model has no mask input of its own, so the mask and the close-up travel as extra images explained in text.
+const maskedEditPrompt = (prompt: string, { bounds }: MaskedEditInput): string =>
+  `${prompt}\n\nOnly change the area that is white in the second image, a mask the same size as the first image, and keep everything else exactly as it is. ` +
+  `The third image is a close-up of that area: ${bounds.width}x${bounds.height} pixels starting at (${bounds.x}, ${bounds.y}). Return the whole first image with the edit applied.`;
+
+const buildContents = (messages: ChatMessage[]): Content[] => {
+    return messages
+        .filter(msg => msg.parts.some(part => part.type !== 'imageGenerationResult')) // Generated images are shown in the chat but never sent back
+        .map(msg => {
+            // Fix: Use Array.reduce for safer type handling when creating the parts array.
+            const parts: Part[] = msg.parts.reduce<Part[]>((acc, part) => {
+                if (part.type === 'text') {
+                    acc.push({ text: part.text });
+                } else if (part.type === 'image' || part.type === 'attachment') {
+                    acc.push({
+                        inlineData: {
+                            mimeType: part.mimeType,
+                            data: part.base64,
+                        },
+                    });
+                }
+                return acc;
+            }, []);
+            return {
+                role: msg.author === Author.USER ? 'user' : 'model',
+                parts,
+            };
+        });
+};
+
+const toGenerateContentConfig = ({ stopSequences, thinkingBudget, ...sampling }: ChatGenerationConfig = {}) => {
+  const stops = stopSequences?.filter(Boolean);
+  return {
+    ...sampling,
+    stopSequences: stops?.length ? stops : undefined,
+    thinkingConfig: thinkingBudget !== undefined ? { thinkingBudget } : undefined,
+  };
+};
+
+const createClient = ({ apiKey, baseUrl }: GeminiCredentials): GoogleGenAI => {
+  return new GoogleGenAI({ apiKey, httpOptions: baseUrl ? { baseUrl } : undefined });
+};
+
+// Fetching model metadata is free and fails fast with the same errors a real request would.
+export const validateGeminiCredentials = async (credentials: GeminiCredentials): Promise<void> => {
+  try {
+    await createClient(credentials).models.get({ model: ANALYSIS_MODEL });
+  } catch (error) {
+    throw toModelError(error);
+  }
+};
+
+export const createGeminiProvider = (credentials: GeminiCredentials | null): ModelProvider => {
+  let ai: GoogleGenAI | null = null;
+
+  // The client is created on first use so that the provider can exist before a key is configured.
+  const getClient = (): GoogleGenAI => {
+    if (!ai) {
+      if (!credentials?.apiKey) {
+        throw new ModelError('invalidKey', "No Gemini API key is configured. Add one in the API key settings.");
+      }
+      ai = createClient(credentials);
+    }
+    return ai;
+  };
+
+  return {
+    getChatResponseStream: async function* (messages: ChatMessage[], model: string, options = {}): AsyncGenerator<string> {
+      try {
+          const contents = buildContents(messages);
+          const responseStream = await getClient().models.generateContentStream({
+              model,
+              contents,
+              config: {
+                  systemInstruction: options.systemInstruction,
+                  ...toGenerateContentConfig(options.generationConfig),
+                  abortSignal: options.signal,
+              }
+          });
+
+          for await (const chunk of responseStream) {
+              options.signal?.throwIfAborted();
+              const safetyError = safetyErrorFromResponse(chunk);
+              if (safetyError) throw safetyError;
+              if (chunk.text) yield chunk.text;
+          }
+      } catch (error) {
+          console.error("Error getting chat response stream:", error);
+          throw toModelError(error, options.signal);
+      }
+    },
+
+    generateImage: async (prompt: string, params: GenerationEvent['parameters'], signal?: AbortSignal): Promise<string[]> => {
+      try {
+        const { model, numberOfImages, aspectRatio, outputMimeType } = params;
+
+        const config: any = {
+            numberOfImages,
+            aspectRatio,
+            outputMimeType: outputMimeType || 'image/png',
+            includeRaiReason: true,
+            abortSignal: signal,
+        };
+
+        const response = await getClient().models.generateImages({
+          model,
+          prompt,
+          config,
+        });
+
+        const mimeType = outputMimeType || 'image/png';
+        const images = (response.generatedImages || []).filter(img => img.image?.imageBytes);
+        if (images.length > 0) {
+          return images.map(img => `data:${mimeType};base64,${img.image.imageBytes}`);
+        }
+        // Imagen drops filtered images from the result and explains why in raiFilteredReason.
+        const reason = response.generatedImages?.find(img => img.raiFilteredReason)?.raiFilteredReason;
+        throw new ModelError('safety', reason || 'No images were returned for this prompt', { safetyCategory: reason ? 'RAI_FILTERED' : undefined });
+      } catch (error) {
+        console.error("Error generating image:", error);
+        throw toModelError(error, signal);
+      }
+    },
+
+    analyzeImage: async (base64Image: string, mimeType: string, prompt: string, signal?: AbortSignal): Promise<string> => {
+      try {
+        const imagePart = {
+          inlineData: {
+            mimeType,
+            data: base64Image,
+          },
+        };
+        const textPart = {
+          text: prompt,
+        };
+        const response = await getClient().models.generateContent({
+          model: ANALYSIS_MODEL,
+          contents: { parts: [imagePart, textPart] },
+          config: { abortSignal: signal },
+        });
+        const safetyError = safetyErrorFromResponse(response);
+        if (safetyError) throw safetyError;
+        return response.text || '';
+      } catch (error) {
+        console.error("Error analyzing image:", error);
+        throw toModelError(error, signal);
+      }
+    },
+
+    editImage: async (base64Image: string, mimeType: string, prompt: string, mask?: MaskedEditInput, signal?: AbortSignal): Promise<string> => {
+      try {
+        const maskParts: Part[] = mask ? [
+          { inlineData: { data: mask.maskBase64, mimeType: 'image/png' } },
+          { inlineData: { data: mask.regionBase64, mimeType: 'image/png' } },
+        ] : [];
+        const response = await getClient().models.generateContent({
+          model: EDIT_MODEL,
+          contents: {
+            parts: [
+              {
+                inlineData: {
+                  data: base64Image,
+                  mimeType,
+                },
+              },
+              ...maskParts,
+              {
+                text: mask ? maskedEditPrompt(prompt, mask) : prompt,
+              },
+            ],
+          },
+          config: {
+            responseModalities: [Modality.IMAGE],
+            abortSignal: signal,
+          },
+        });
+        const safetyError = safetyErrorFromResponse(response);
+        if (safetyError) throw safetyError;
+
+        for (const part of response.candidates?.[0]?.content?.parts || []) {
+          if (part.inlineData) {
+            const base64ImageBytes: string = part.inlineData.data;
+            return `data:image/png;base64,${base64ImageBytes}`;
+          }
+        }
+        throw new ModelError('unknown', response.text || 'The model did not return an image');
+      } catch (error) {
+        console.error("Error editing image:", error);
+        throw toModelError(error, signal);
+      }
+    },
+  };
+};
@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import { Author } from '../../types';
+
+const provider = createOpenAICompatibleProvider({ baseUrl: 'http://localhost:11434/v1', apiKey: '', chatModel: 'llama3', imageModel: '' });
+
+const event = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}`;
+
+// Serves the body in the given pieces, the way it may arrive over the network.
+const streamReply = (...pieces: string[]) => {
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      pieces.forEach(piece => controller.enqueue(new TextEncoder().encode(piece)));
+      controller.close();
+    },
+  });
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(body, { status: 200 })));
+};
+
+const collect = async () => {
+  const chunks: string[] = [];
+  const messages = [{ id: '1', author: Author.USER, parentId: null, parts: [{ type: 'text' as const, text: 'Hi' }] }];
+  for await (const chunk of provider.getChatResponseStream(messages, 'gemini-2.5-flash')) chunks.push(chunk);
+  return chunks;
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('openAICompatibleProvider.getChatResponseStream', () => {
+  it('yields the content of each event, also when an event is split across reads', async () => {
+    const body = `${event('Hel')}\n\n${event('lo')}\n\ndata: [DONE]\n\n`;
+    streamReply(body.slice(0, 20), body.slice(20, 50), body.slice(50));
+    expect(await collect()).toEqual(['Hel', 'lo']);
+  });
+
+  it('keeps a last event that has no newline after it', async () => {
+    streamReply(`${event('Hello')}\n\n`, event(' there'));
+    expect(await collect()).toEqual(['Hello', ' there']);
+  });
+
+  it('fails with a safety error when the content filter stops the reply', async () => {
+    streamReply(`${event('Once')}\n\ndata: ${JSON.stringify({ choices: [{ delta: {}, finish_reason: 'content_filter' }] })}\n\n`);
+    await expect(collect()).rejects.toMatchObject({ kind: 'safety', safetyCategory: 'content_filter' });
+  });
+});
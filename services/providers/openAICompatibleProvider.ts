@@ -0,0 +1,225 @@
+import { Author, type AttachmentPart, type ChatMessage, type ChatGenerationConfig, type GenerationEvent, type MaskedEditInput, type ModelProvider, type OpenAICompatibleSettings, type AspectRatio } from '../../types';
+import { ModelError, toModelError, modelErrorFromStatus, parseRetryAfterHeader } from '../errors';
+import { toTransparentMask } from '../masks';
+
+// Targets servers that speak the OpenAI REST dialect, e.g. Ollama (`http://localhost:11434/v1`)
+// or llama.cpp's `llama-server` (`http://localhost:8080/v1`).
+
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } }
+  | { type: 'input_audio'; input_audio: { data: string; format: 'wav' | 'mp3' } };
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | OpenAIContentPart[];
+}
+
+// OpenAI-style image endpoints take pixel sizes rather than aspect ratios.
+const aspectRatioSizes: Record<AspectRatio, string> = {
+  '1:1': '1024x1024',
+  '16:9': '1792x1024',
+  '9:16': '1024x1792',
+  '4:3': '1024x768',
+  '3:4': '768x1024',
+};
+
+const isTextMimeType = (mimeType: string) => mimeType.startsWith('text/') || mimeType === 'application/json';
+
+// The chat completions API has no generic file part: text files are inlined, wav and mp3 go as
+// input_audio, and anything else is refused up front rather than silently dropped.
+const attachmentToContent = (part: AttachmentPart): OpenAIContentPart => {
+  if (isTextMimeType(part.mimeType)) {
+    const text = new TextDecoder().decode(Uint8Array.from(atob(part.base64), c => c.charCodeAt(0)));
+    return { type: 'text', text: `File "${part.name}":\n${text}` };
+  }
+  if (part.mimeType === 'audio/wav' || part.mimeType === 'audio/mp3' || part.mimeType === 'audio/mpeg') {
+    return { type: 'input_audio', input_audio: { data: part.base64, format: part.mimeType === 'audio/wav' ? 'wav' : 'mp3' } };
+  }
+  throw new ModelError('badInput', `"${part.name}" (${part.mimeType}) can't be sent to the local provider; only images, text and wav/mp3 audio are supported.`);
+};
+
+// One line of a chat completions stream: the reply text it carries, if any.
+const readStreamLine = (line: string): string | undefined => {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('data:')) return undefined;
+  const data = trimmed.slice('data:'.length).trim();
+  if (!data || data === '[DONE]') return undefined;
+  const choice = JSON.parse(data).choices?.[0];
+  if (choice?.finish_reason === 'content_filter') {
+    throw new ModelError('safety', 'The response was blocked by the content filter', { safetyCategory: 'content_filter' });
+  }
+  return choice?.delta?.content || undefined;
+};
+
+const buildMessages = (messages: ChatMessage[], systemInstruction?: string): OpenAIMessage[] => {
+  const result: OpenAIMessage[] = [];
+  if (systemInstruction) {
+    result.push({ role: 'system', content: systemInstruction });
+  }
+  for (const msg of messages) {
+    const content = msg.parts.reduce<OpenAIContentPart[]>((acc, part) => {
+      if (part.type === 'text') {
+        acc.push({ type: 'text', text: part.text });
+      } else if (part.type === 'image') {
+        acc.push({ type: 'image_url', image_url: { url: `data:${part.mimeType};base64,${part.base64}` } });
+      } else if (part.type === 'attachment') {
+        acc.push(attachmentToContent(part));
+      }
+      return acc;
+    }, []);
+    if (content.length === 0) continue;
+    result.push({
+      role: msg.author === Author.USER ? 'user' : 'assistant',
+      // Plain strings are the most widely supported form for text-only turns.
+      content: content.every(p => p.type === 'text') ? content.map(p => (p as { text: string }).text).join('\n') : content,
+    });
+  }
+  return result;
+};
+
+// top_k is not part of the OpenAI API, but llama.cpp and vLLM accept it and others ignore it.
+// There is no portable equivalent of a thinking budget, so it is not sent.
+const samplingParams = (config: ChatGenerationConfig = {}) => {
+  const stops = config.stopSequences?.filter(Boolean);
+  return {
+    temperature: config.temperature,
+    top_p: config.topP,
+    top_k: config.topK,
+    max_tokens: config.maxOutputTokens,
+    stop: stops?.length ? stops : undefined,
+  };
+};
+
+const base64ToBlob = (base64: string, mimeType: string): Blob => {
+  const bytes = atob(base64);
+  const buffer = new Uint8Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) {
+    buffer[i] = bytes.charCodeAt(i);
+  }
+  return new Blob([buffer], { type: mimeType });
+};
+
+export const createOpenAICompatibleProvider = (settings: OpenAICompatibleSettings): ModelProvider => {
+  const baseUrl = settings.baseUrl.replace(/\/+$/, '');
+
+  const headers = (json = true): Record<string, string> => {
+    const result: Record<string, string> = {};
+    if (json) result['Content-Type'] = 'application/json';
+    if (settings.apiKey) result['Authorization'] = `Bearer ${settings.apiKey}`;
+    return result;
+  };
+
+  const post = async (path: string, body: BodyInit, signal?: AbortSignal, json = true): Promise<Response> => {
+    const response = await fetch(`${baseUrl}${path}`, { method: 'POST', headers: headers(json), body, signal });
+    if (!response.ok) {
+      throw modelErrorFromStatus(response.status, `${path} failed with status ${response.status}: ${await response.text()}`, parseRetryAfterHeader(response.headers.get('Retry-After')));
+    }
+    return response;
+  };
+
+  return {
+    // The requested Gemini model name is meaningless to a local server, so the configured model is used instead.
+    getChatResponseStream: async function* (messages: ChatMessage[], _model: string, options = {}): AsyncGenerator<string> {
+      try {
+        const response = await post('/chat/completions', JSON.stringify({
+          model: settings.chatModel,
+          messages: buildMessages(messages, options.systemInstruction),
+          ...samplingParams(options.generationConfig),
+          stream: true,
+        }), options.signal);
+        if (!response.body) {
+          throw new ModelError('modelUnavailable', 'Streaming is not supported by this endpoint');
+        }
+
+        const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+        let buffer = '';
+        while (true) {
+          const { value, done } = await reader.read();
+          if (done) break;
+          buffer += value;
+          // Server-sent events are newline delimited; keep the trailing partial line for the next read.
+          const lines = buffer.split('\n');
+          buffer = lines.pop() ?? '';
+          for (const line of lines) {
+            const text = readStreamLine(line);
+            if (text) yield text;
+          }
+        }
+        // Some servers end the stream without a newline after the last event.
+        const text = readStreamLine(buffer);
+        if (text) yield text;
+      } catch (error) {
+        console.error("Error getting chat response stream:", error);
+        throw toModelError(error, options.signal);
+      }
+    },
+
+    generateImage: async (prompt: string, params: GenerationEvent['parameters'], signal?: AbortSignal): Promise<string[]> => {
+      try {
+        const response = await post('/images/generations', JSON.stringify({
+          model: settings.imageModel || params.model,
+          prompt,
+          n: params.numberOfImages,
+          size: aspectRatioSizes[params.aspectRatio],
+          response_format: 'b64_json',
+        }), signal);
+        const json = await response.json();
+        const mimeType = params.outputMimeType || 'image/png';
+        const images: string[] = (json.data || [])
+          .filter((img: { b64_json?: string }) => img.b64_json)
+          .map((img: { b64_json: string }) => `data:${mimeType};base64,${img.b64_json}`);
+        if (images.length === 0) {
+          throw new ModelError('unknown', 'No images were returned for this prompt');
+        }
+        return images;
+      } catch (error) {
+        console.error("Error generating image:", error);
+        throw toModelError(error, signal);
+      }
+    },
+
+    analyzeImage: async (base64Image: string, mimeType: string, prompt: string, signal?: AbortSignal): Promise<string> => {
+      try {
+        const response = await post('/chat/completions', JSON.stringify({
+          model: settings.chatModel,
+          messages: [{
+            role: 'user',
+            content: [
+              { type: 'image_url', image_url: { url: `data:${mimeType};base64,${base64Image}` } },
+              { type: 'text', text: prompt },
+            ],
+          }],
+        }), signal);
+        const json = await response.json();
+        return json.choices?.[0]?.message?.content ?? '';
+      } catch (error) {
+        console.error("Error analyzing image:", error);
+        throw toModelError(error, signal);
+      }
+    },
+
+    editImage: async (base64Image: string, mimeType: string, prompt: string, mask?: MaskedEditInput, signal?: AbortSignal): Promise<string> => {
+      try {
+        const form = new FormData();
+        form.append('image', base64ToBlob(base64Image, mimeType), 'image.png');
+        // The endpoint takes the mask itself and has no place for the close-up of the region.
+        if (mask) form.append('mask', await toTransparentMask(mask.maskBase64), 'mask.png');
+        form.append('prompt', prompt);
+        form.append('response_format', 'b64_json');
+        if (settings.imageModel) form.append('model', settings.imageModel);
+
+        const response = await post('/images/edits', form, signal, false);
+        const json = await response.json();
+        const b64 = json.data?.[0]?.b64_json;
+        if (!b64) {
+          throw new ModelError('unknown', 'The endpoint did not return an image');
+        }
+        return `data:image/png;base64,${b64}`;
+      } catch (error) {
+        console.error("Error editing image:", error);
+        throw toModelError(error, signal);
+      }
+    },
+  };
+};
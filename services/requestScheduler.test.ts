@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { requestScheduler } from './requestScheduler';
+import { ModelError } from './errors';
+
+// The scheduler is a singleton, so every test uses its own model and never shares slots or cool-downs.
+let modelCount = 0;
+const job = () => ({ label: 'Test request', model: `test-model-${++modelCount}`, capability: 'chat' as const });
+
+// Fails with each given error in turn, then succeeds.
+const failingTask = (...errors: ModelError[]) => {
+  const calls: number[] = [];
+  const task = vi.fn(async () => {
+    calls.push(Date.now());
+    const error = errors[calls.length - 1];
+    if (error) throw error;
+    return 'done';
+  });
+  return { task, calls };
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  // No jitter: each retry waits half its exponential step, 500ms, 1s, 2s…
+  vi.spyOn(Math, 'random').mockReturnValue(0);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('requestScheduler.run', () => {
+  it('retries transient failures with exponential backoff', async () => {
+    const { task, calls } = failingTask(new ModelError('network', 'offline'), new ModelError('modelUnavailable', 'busy', { status: 503 }));
+    const result = requestScheduler.run(job(), task);
+    await vi.runAllTimersAsync();
+
+    expect(await result).toBe('done');
+    expect(calls.map(at => at - calls[0])).toEqual([0, 500, 1500]);
+  });
+
+  it('waits as long as the server asks before retrying', async () => {
+    const { task, calls } = failingTask(new ModelError('quota', 'slow down', { status: 429, retryAfterMs: 7000 }));
+    const result = requestScheduler.run(job(), task);
+    await vi.runAllTimersAsync();
+
+    expect(await result).toBe('done');
+    expect(calls[1] - calls[0]).toBe(7000);
+  });
+
+  it('holds back other requests for a model that hit its quota', async () => {
+    const options = job();
+    const { task, calls } = failingTask(new ModelError('quota', 'slow down', { status: 429, retryAfterMs: 7000 }));
+    const first = requestScheduler.run(options, task);
+    await vi.advanceTimersByTimeAsync(0);
+    const second = failingTask();
+    const queued = requestScheduler.run(options, second.task);
+    await vi.runAllTimersAsync();
+
+    await Promise.all([first, queued]);
+    expect(second.calls[0] - calls[0]).toBeGreaterThanOrEqual(7000);
+  });
+
+  it('fails at once on errors a retry cannot fix', async () => {
+    const { task } = failingTask(new ModelError('badInput', 'bad prompt', { status: 400 }));
+    const result = requestScheduler.run(job(), task).catch(error => error);
+    await vi.runAllTimersAsync();
+
+    expect(await result).toMatchObject({ kind: 'badInput' });
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after four attempts and reports the last error', async () => {
+    const errors = [1, 2, 3, 4].map(n => new ModelError('network', `offline ${n}`));
+    const { task } = failingTask(...errors);
+    const result = requestScheduler.run(job(), task).catch(error => error);
+    await vi.runAllTimersAsync();
+
+    expect(await result).toBe(errors[3]);
+    expect(task).toHaveBeenCalledTimes(4);
+  });
+
+  it('shows retrying jobs with their attempt and next try, and drops them when done', async () => {
+    const seen: string[] = [];
+    const unsubscribe = requestScheduler.subscribe(jobs => jobs.forEach(j => seen.push(`${j.status} ${j.attempt}`)));
+    const { task } = failingTask(new ModelError('network', 'offline'));
+    const result = requestScheduler.run(job(), task);
+    await vi.runAllTimersAsync();
+    await result;
+    unsubscribe();
+
+    expect(seen).toEqual(expect.arrayContaining(['pending 1', 'running 1', 'retrying 2', 'running 2']));
+    expect(requestScheduler.getJobs()).toEqual([]);
+  });
+
+  it('stops waiting for a retry as soon as the request is aborted', async () => {
+    const controller = new AbortController();
+    const { task } = failingTask(new ModelError('network', 'offline'));
+    const result = requestScheduler.run({ ...job(), signal: controller.signal }, task).catch(error => error);
+    await vi.advanceTimersByTimeAsync(100);
+    controller.abort();
+    await vi.runAllTimersAsync();
+
+    expect(await result).toMatchObject({ kind: 'aborted' });
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('requestScheduler.runStream', () => {
+  it('retries a stream that fails before its first chunk but not after', async () => {
+    let attempts = 0;
+    const collect = async (stream: AsyncGenerator<string>) => {
+      const chunks: string[] = [];
+      try {
+        for await (const chunk of stream) chunks.push(chunk);
+      } catch (error) {
+        chunks.push(`error: ${(error as Error).message}`);
+      }
+      return chunks;
+    };
+    const result = collect(requestScheduler.runStream(job(), async function* () {
+      attempts++;
+      if (attempts === 1) throw new ModelError('network', 'offline');
+      yield 'Hello';
+      throw new ModelError('network', 'dropped');
+    }));
+    await vi.runAllTimersAsync();
+
+    expect(await result).toEqual(['Hello', 'error: dropped']);
+    expect(attempts).toBe(2);
+  });
+});
@@ -0,0 +1,196 @@
+import type { ProviderCapability, RequestJob } from '../types';
+import { toModelError, type ModelError } from './errors';
+import { abortedError, delay } from './timing';
+
+const MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+const DEFAULT_CONCURRENCY = 2;
+
+// Heavier models get a single slot so a burst of requests queues up instead of tripping 429s.
+const concurrencyLimits: Record<string, number> = {
+  'gemini-2.5-pro': 1,
+  'gemini-2.5-flash-image': 1,
+  'imagen-4.0-ultra-generate-001': 1,
+  'imagen-4.0-generate-001': 1,
+  'imagen-3.0-generate-002': 1,
+};
+
+interface JobOptions {
+  label: string;
+  model: string;
+  capability: ProviderCapability;
+  signal?: AbortSignal;
+}
+
+class RequestScheduler {
+  private jobs: RequestJob[] = [];
+  private waiting: { id: string; model: string; start: () => void }[] = [];
+  private running = new Map<string, number>();
+  // A quota error pauses every job for that model, not just the one that hit it.
+  private blockedUntil = new Map<string, number>();
+  private wakeTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<(jobs: RequestJob[]) => void>();
+  private nextId = 0;
+
+  getJobs(): RequestJob[] {
+    return this.jobs;
+  }
+
+  subscribe(listener: (jobs: RequestJob[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.jobs));
+  }
+
+  private addJob(options: JobOptions): string {
+    const id = `job-${++this.nextId}`;
+    const { label, model, capability } = options;
+    this.jobs = [...this.jobs, { id, label, model, capability, status: 'pending', attempt: 1, createdAt: Date.now() }];
+    this.notify();
+    return id;
+  }
+
+  private updateJob(id: string, changes: Partial<RequestJob>): void {
+    this.jobs = this.jobs.map(job => (job.id === id ? { ...job, ...changes } : job));
+    this.notify();
+  }
+
+  private removeJob(id: string): void {
+    this.jobs = this.jobs.filter(job => job.id !== id);
+    this.notify();
+  }
+
+  // Waits for a free slot. Aborting while queued gives the place up without ever calling the provider.
+  private acquire(id: string, model: string, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortedError());
+        return;
+      }
+      const onAbort = () => {
+        this.waiting = this.waiting.filter(entry => entry.id !== id);
+        reject(abortedError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.waiting.push({
+        id,
+        model,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+      });
+      this.pump();
+    });
+  }
+
+  private release(model: string): void {
+    this.running.set(model, Math.max(0, (this.running.get(model) || 1) - 1));
+    this.pump();
+  }
+
+  // Starts waiting jobs in FIFO order wherever their model has a free slot and is not cooling down.
+  private pump(): void {
+    const now = Date.now();
+    let nextWake = Infinity;
+    this.waiting = this.waiting.filter(entry => {
+      const blockedUntil = this.blockedUntil.get(entry.model) || 0;
+      if (blockedUntil > now) {
+        nextWake = Math.min(nextWake, blockedUntil);
+        return true;
+      }
+      const running = this.running.get(entry.model) || 0;
+      if (running >= (concurrencyLimits[entry.model] ?? DEFAULT_CONCURRENCY)) {
+        return true;
+      }
+      this.running.set(entry.model, running + 1);
+      this.updateJob(entry.id, { status: 'running', nextAttemptAt: undefined });
+      entry.start();
+      return false;
+    });
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = null;
+    }
+    if (nextWake < Infinity) {
+      this.wakeTimer = setTimeout(() => this.pump(), nextWake - now);
+    }
+  }
+
+  // Server hints win; otherwise exponential backoff with "equal jitter" so parallel retries spread out.
+  private backoffFor(attempt: number, error: ModelError): number {
+    if (error.retryAfterMs !== undefined) {
+      return error.retryAfterMs;
+    }
+    const exponential = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+    return exponential / 2 + Math.random() * (exponential / 2);
+  }
+
+  // Returns the delay before the next attempt, or rethrows when the error is final.
+  private planRetry(id: string, model: string, attempt: number, error: ModelError): number {
+    if (!error.isRetryable || attempt >= MAX_ATTEMPTS) {
+      throw error;
+    }
+    const wait = this.backoffFor(attempt, error);
+    if (error.kind === 'quota') {
+      this.blockedUntil.set(model, Math.max(this.blockedUntil.get(model) || 0, Date.now() + wait));
+    }
+    this.updateJob(id, { status: 'retrying', attempt: attempt + 1, nextAttemptAt: Date.now() + wait, lastError: error.message });
+    return wait;
+  }
+
+  async run<T>(options: JobOptions, task: () => Promise<T>): Promise<T> {
+    const id = this.addJob(options);
+    try {
+      for (let attempt = 1; ; attempt++) {
+        await this.acquire(id, options.model, options.signal);
+        let failure: ModelError;
+        try {
+          return await task();
+        } catch (error) {
+          failure = toModelError(error, options.signal);
+        } finally {
+          this.release(options.model);
+        }
+        await delay(this.planRetry(id, options.model, attempt, failure), options.signal);
+      }
+    } finally {
+      this.removeJob(id);
+    }
+  }
+
+  async *runStream(options: JobOptions, createStream: () => AsyncGenerator<string>): AsyncGenerator<string> {
+    const id = this.addJob(options);
+    try {
+      for (let attempt = 1; ; attempt++) {
+        await this.acquire(id, options.model, options.signal);
+        let failure: ModelError;
+        let hasYielded = false;
+        try {
+          for await (const chunk of createStream()) {
+            hasYielded = true;
+            yield chunk;
+          }
+          return;
+        } catch (error) {
+          failure = toModelError(error, options.signal);
+          // Text already shown to the user cannot be taken back, so only failures before the first chunk are retried.
+          if (hasYielded) throw failure;
+        } finally {
+          this.release(options.model);
+        }
+        await delay(this.planRetry(id, options.model, attempt, failure), options.signal);
+      }
+    } finally {
+      this.removeJob(id);
+    }
+  }
+}
+
+export const requestScheduler = new RequestScheduler();
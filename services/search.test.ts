@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { buildSearchEntry, findHits, matchesSearchFilters, tokenize } from './search';
+import { Author, type ChatConversation, type ImageEditingConversation, type StoredImage } from '../types';
+
+const image: StoredImage = { hash: 'h', mimeType: 'image/png', size: 1, url: '' };
+
+const chat: ChatConversation = {
+  id: '1',
+  title: 'Trip planning',
+  createdAt: 1_000,
+  isFavorite: false,
+  type: 'chat',
+  modelUsed: 'gemini-2.5-flash',
+  tags: ['Travel'],
+  messages: [
+    { id: 'm1', author: Author.USER, parentId: null, parts: [{ type: 'text', text: 'Plan a weekend in Lisbon' }] },
+    { id: 'm2', author: Author.MODEL, parentId: 'm1', parts: [{ type: 'text', text: 'Day one: the Alfama district and a tram ride to Belém.' }] },
+    // A branch that is not on screen is still searchable.
+    { id: 'm3', author: Author.MODEL, parentId: 'm1', parts: [{ type: 'text', text: 'Start with pastries in Belém.' }] },
+    {
+      id: 'm4',
+      author: Author.MODEL,
+      parentId: 'm2',
+      parts: [{ type: 'imageGenerationResult', images: [image], prompt: 'a yellow tram', parameters: { model: 'imagen-4.0-generate-001', aspectRatio: '1:1', numberOfImages: 1 } }],
+    },
+  ],
+};
+
+const editing: ImageEditingConversation = {
+  id: '2',
+  title: 'Portrait',
+  createdAt: 5_000,
+  isFavorite: false,
+  type: 'imageEditing',
+  baseImage: image,
+  analysisResult: 'A woman in a red coat.',
+  history: [{ prompt: 'make the coat blue', editedImage: image, timestamp: 6_000 }],
+};
+
+describe('tokenize', () => {
+  it('splits on anything that is not a letter or digit, in any script', () => {
+    expect(tokenize('Belém, day-1: Café!')).toEqual(['belém', 'day', '1', 'café']);
+  });
+});
+
+describe('buildSearchEntry', () => {
+  it('indexes the title, tags and every branch of a chat', () => {
+    const entry = buildSearchEntry(chat);
+    expect(entry.terms).toEqual(expect.arrayContaining(['trip', 'travel', 'lisbon', 'alfama', 'pastries', 'yellow']));
+    expect(entry.fields.map(field => field.location)).toEqual([
+      { kind: 'message', messageId: 'm1' },
+      { kind: 'message', messageId: 'm2' },
+      { kind: 'message', messageId: 'm3' },
+      { kind: 'message', messageId: 'm4' },
+    ]);
+    expect(entry.models).toEqual(['gemini-2.5-flash', 'imagen-4.0-generate-001']);
+  });
+
+  it('indexes the analysis and edit prompts of an editing session', () => {
+    expect(buildSearchEntry(editing).fields).toEqual([
+      { location: { kind: 'analysis' }, text: 'A woman in a red coat.' },
+      { location: { kind: 'editStep', index: 0 }, text: 'make the coat blue' },
+    ]);
+  });
+});
+
+describe('matchesSearchFilters', () => {
+  it('checks type, model and an inclusive date range', () => {
+    const entry = buildSearchEntry(chat);
+    expect(matchesSearchFilters(entry, {})).toBe(true);
+    expect(matchesSearchFilters(entry, { type: 'imageEditing' })).toBe(false);
+    expect(matchesSearchFilters(entry, { model: 'imagen-4.0-generate-001' })).toBe(true);
+    expect(matchesSearchFilters(entry, { from: 1_000, to: 1_000 })).toBe(true);
+    expect(matchesSearchFilters(entry, { from: 1_001 })).toBe(false);
+  });
+});
+
+describe('findHits', () => {
+  it('matches word prefixes and puts the fields matching most of the query first', () => {
+    const hits = findHits(buildSearchEntry(chat), ['bel', 'tram']);
+    expect(hits.map(hit => hit.location)).toEqual([{ kind: 'message', messageId: 'm2' }, { kind: 'message', messageId: 'm3' }, { kind: 'message', messageId: 'm4' }]);
+    expect(hits[0].snippet).toEqual([
+      { text: 'Day one: the Alfama district and a ', highlight: false },
+      { text: 'tram', highlight: true },
+      { text: ' ride to ', highlight: false },
+      { text: 'Belém', highlight: true },
+      { text: '.', highlight: false },
+    ]);
+  });
+
+  it('cuts long fields down to a window around the first match', () => {
+    const long = { ...editing, analysisResult: `${'word '.repeat(40)}needle ${'word '.repeat(40)}` };
+    const [hit] = findHits(buildSearchEntry(long), ['needle']);
+    expect(hit.snippet[0]).toEqual({ text: '…', highlight: false });
+    expect(hit.snippet.at(-1)).toEqual({ text: '…', highlight: false });
+    expect(hit.snippet.find(segment => segment.highlight)?.text).toBe('needle');
+  });
+});
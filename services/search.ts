@@ -0,0 +1,101 @@
+import type { Conversation, SearchEntry, SearchField, SearchFilters, SearchHit, SnippetSegment } from '../types';
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+const SNIPPET_CONTEXT = 40;
+const SNIPPET_LENGTH = 160;
+const MAX_HITS_PER_RESULT = 3;
+
+export const tokenize = (text: string): string[] => text.toLowerCase().match(TOKEN_PATTERN) ?? [];
+
+// Query words match any indexed word they start, so results appear while the last word is still being typed.
+const matchesTerm = (token: string, terms: string[]): boolean => terms.some(term => token.toLowerCase().startsWith(term));
+
+// The chat model plus any image models used inside the session.
+export const conversationModels = (convo: Conversation): string[] => {
+  switch (convo.type) {
+    case 'chat': {
+      const imageModels = convo.messages.flatMap(msg => (msg.parts ?? []).flatMap(part => (part.type === 'imageGenerationResult' && part.parameters ? [part.parameters.model] : [])));
+      return [...new Set([convo.modelUsed, ...imageModels])];
+    }
+    case 'imageGeneration':
+      return [...new Set(convo.history.map(event => event.parameters.model))];
+    default:
+      return [];
+  }
+};
+
+// Every branch of a chat is indexed, not just the one on screen. Records older than migration 4 may have
+// messages without parts; they are indexed again once that migration rewrites them.
+const searchFields = (convo: Conversation): SearchField[] => {
+  switch (convo.type) {
+    case 'chat':
+      return convo.messages.map(msg => ({
+        location: { kind: 'message' as const, messageId: msg.id },
+        text: (msg.parts ?? []).map(part => {
+          switch (part.type) {
+            case 'text': return part.text;
+            case 'attachment': return part.name;
+            case 'imageGenerationResult': return part.prompt ?? '';
+            default: return '';
+          }
+        }).filter(Boolean).join('\n'),
+      })).filter(field => field.text);
+    case 'imageEditing': {
+      const steps = convo.history.map((event, index): SearchField => ({ location: { kind: 'editStep', index }, text: event.prompt }));
+      return convo.analysisResult ? [{ location: { kind: 'analysis' }, text: convo.analysisResult }, ...steps] : steps;
+    }
+    case 'imageGeneration':
+      return convo.history.map((event, index) => ({ location: { kind: 'generation', index }, text: event.prompt }));
+  }
+};
+
+export const buildSearchEntry = (convo: Conversation): SearchEntry => {
+  const fields = searchFields(convo);
+  return {
+    conversationId: convo.id,
+    type: convo.type,
+    createdAt: convo.createdAt,
+    models: conversationModels(convo),
+    terms: [...new Set([convo.title, ...(convo.tags ?? []), ...fields.map(field => field.text)].flatMap(tokenize))],
+    fields,
+  };
+};
+
+export const matchesSearchFilters = (entry: Pick<SearchEntry, 'type' | 'createdAt' | 'models'>, filters: SearchFilters): boolean =>
+  (!filters.type || entry.type === filters.type)
+  && (!filters.model || entry.models.includes(filters.model))
+  && (filters.from === undefined || entry.createdAt >= filters.from)
+  && (filters.to === undefined || entry.createdAt <= filters.to);
+
+// A window of the text around the first match, with every matching word marked.
+const buildSnippet = (text: string, terms: string[]): SnippetSegment[] => {
+  const matches = [...text.matchAll(TOKEN_PATTERN)].filter(match => matchesTerm(match[0], terms));
+  const start = Math.max(0, (matches[0]?.index ?? 0) - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const segments: SnippetSegment[] = [];
+  const push = (part: string, highlight: boolean) => part && segments.push({ text: part.replace(/\s+/g, ' '), highlight });
+
+  let cursor = start;
+  for (const match of matches) {
+    const matchStart = match.index!;
+    const matchEnd = matchStart + match[0].length;
+    if (matchStart < start) continue;
+    if (matchEnd > end) break;
+    push(text.slice(cursor, matchStart), false);
+    push(match[0], true);
+    cursor = matchEnd;
+  }
+  push(text.slice(cursor, end), false);
+  if (start > 0) segments.unshift({ text: '…', highlight: false });
+  if (end < text.length) segments.push({ text: '…', highlight: false });
+  return segments;
+};
+
+// The fields that match most of the query come first.
+export const findHits = (entry: SearchEntry, terms: string[]): SearchHit[] =>
+  entry.fields
+    .map(field => ({ field, matched: terms.filter(term => tokenize(field.text).some(token => token.startsWith(term))).length }))
+    .filter(({ matched }) => matched > 0)
+    .sort((a, b) => b.matched - a.matched)
+    .slice(0, MAX_HITS_PER_RESULT)
+    .map(({ field }) => ({ location: field.location, snippet: buildSnippet(field.text, terms) }));
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { getSlashSuggestions, parseSlashCommand, unescapeSlash } from './slashCommands';
+import type { GenerationEvent } from '../types';
+
+const defaults: GenerationEvent['parameters'] = {
+  model: 'imagen-4.0-generate-001',
+  aspectRatio: '1:1',
+  numberOfImages: 1,
+};
+
+describe('parseSlashCommand', () => {
+  it('leaves ordinary and escaped messages alone', () => {
+    expect(parseSlashCommand('hello there', defaults)).toBeNull();
+    expect(parseSlashCommand('//imagine is a word', defaults)).toBeNull();
+    expect(unescapeSlash('//imagine is a word')).toBe('/imagine is a word');
+  });
+
+  it('parses /imagine flags around the prompt', () => {
+    expect(parseSlashCommand('/imagine a fox --ar 16:9 --n 2 --model fast at dusk', defaults)).toEqual({
+      name: 'imagine',
+      prompt: 'a fox at dusk',
+      parameters: { model: 'imagen-4.0-fast-generate-001', aspectRatio: '16:9', numberOfImages: 2 },
+    });
+  });
+
+  it('keeps the defaults for flags that are not given', () => {
+    expect(parseSlashCommand('/imagine a lighthouse', defaults)).toEqual({ name: 'imagine', prompt: 'a lighthouse', parameters: defaults });
+  });
+
+  it('accepts full model ids as well as aliases', () => {
+    const command = parseSlashCommand('/imagine a fox --model imagen-3.0-generate-002', defaults);
+    expect(command).toMatchObject({ parameters: { model: 'imagen-3.0-generate-002' } });
+  });
+
+  it('rejects invalid options with a message for the user', () => {
+    expect(() => parseSlashCommand('/imagine', defaults)).toThrow('/imagine needs a prompt');
+    expect(() => parseSlashCommand('/imagine a fox --ar 2:1', defaults)).toThrow('Unsupported aspect ratio 2:1');
+    expect(() => parseSlashCommand('/imagine a fox --n 5', defaults)).toThrow('--n must be a whole number from 1 to 4');
+    expect(() => parseSlashCommand('/imagine a fox --n', defaults)).toThrow('--n needs a value');
+    expect(() => parseSlashCommand('/imagine a fox --model turbo', defaults)).toThrow('Unknown image model turbo');
+    expect(() => parseSlashCommand('/imagine a fox --size big', defaults)).toThrow('Unknown option --size');
+    expect(() => parseSlashCommand('/dance', defaults)).toThrow('Unknown command /dance');
+  });
+
+  it('does not treat inherited object keys as flags or values', () => {
+    expect(() => parseSlashCommand('/imagine a fox --ar constructor', defaults)).toThrow('Unsupported aspect ratio constructor');
+    expect(() => parseSlashCommand('/imagine a fox --ar toString', defaults)).toThrow('Unsupported aspect ratio toString');
+  });
+
+  it('parses the other commands', () => {
+    expect(parseSlashCommand('/model pro', defaults)).toEqual({ name: 'model', model: 'gemini-2.5-pro' });
+    expect(parseSlashCommand('/persona  Code Reviewer', defaults)).toEqual({ name: 'persona', query: 'Code Reviewer' });
+    expect(parseSlashCommand('/export', defaults)).toEqual({ name: 'export', format: 'markdown' });
+    expect(parseSlashCommand('/export json', defaults)).toEqual({ name: 'export', format: 'json' });
+    expect(parseSlashCommand('/EDIT', defaults)).toEqual({ name: 'edit' });
+    expect(parseSlashCommand('/clear', defaults)).toEqual({ name: 'clear' });
+    expect(() => parseSlashCommand('/model ultra', defaults)).toThrow('Usage: /model <flash|pro>');
+    expect(() => parseSlashCommand('/export docx', defaults)).toThrow('Usage: /export [md|html|json|pdf]');
+  });
+});
+
+describe('getSlashSuggestions', () => {
+  const labels = (input: string, personas: string[] = []) => getSlashSuggestions(input, personas).map(s => s.label);
+
+  it('completes command names', () => {
+    expect(getSlashSuggestions('/im', [])).toEqual([
+      { label: '/imagine <prompt> [--ar 16:9] [--n 2] [--model fast]', description: 'Generate images from a prompt', completion: '/imagine ' },
+    ]);
+    expect(labels('hello')).toEqual([]);
+    expect(labels('//im')).toEqual([]);
+  });
+
+  it('completes /imagine flags that are not used yet, and their values', () => {
+    expect(labels('/imagine a fox --')).toEqual(['--ar', '--n', '--model']);
+    expect(labels('/imagine a fox --ar 16:9 --')).toEqual(['--n', '--model']);
+    expect(labels('/imagine a fox --ar 1')).toEqual(['1:1', '16:9']);
+    expect(getSlashSuggestions('/imagine a fox --model f', [])[0].completion).toBe('/imagine a fox --model fast ');
+  });
+
+  it('treats prompt words that name inherited object keys as plain text', () => {
+    expect(labels('/imagine a constructor ')).toEqual([]);
+    expect(labels('/imagine tell toString x')).toEqual([]);
+    expect(labels('/imagine a __proto__ ')).toEqual([]);
+  });
+
+  it('completes models, export formats and persona names', () => {
+    expect(labels('/model p')).toEqual(['pro']);
+    expect(labels('/export ')).toEqual(['md', 'html', 'json', 'pdf']);
+    expect(labels('/persona co', ['Code Reviewer', 'Storyteller'])).toEqual(['Code Reviewer']);
+  });
+});
@@ -0,0 +1,175 @@
+import type { AspectRatio, ExportFormat, GeminiChatModel, GenerationEvent, ImagenModel, SlashCommand, SlashSuggestion } from '../types';
+
+// Keyed by the union types, so a new model or ratio fails to compile until the commands know about it.
+const imagenModelAliases: Record<ImagenModel, string> = {
+  'imagen-4.0-generate-001': 'standard',
+  'imagen-4.0-fast-generate-001': 'fast',
+  'imagen-4.0-ultra-generate-001': 'ultra',
+  'imagen-3.0-generate-002': 'v3',
+};
+
+const chatModelAliases: Record<GeminiChatModel, string> = {
+  'gemini-2.5-flash': 'flash',
+  'gemini-2.5-pro': 'pro',
+};
+
+const exportFormatAliases: Record<ExportFormat, string> = {
+  markdown: 'md',
+  html: 'html',
+  json: 'json',
+  pdf: 'pdf',
+};
+
+const aspectRatioValues: Record<AspectRatio, string> = {
+  '1:1': 'Square',
+  '16:9': 'Landscape',
+  '9:16': 'Portrait',
+  '4:3': 'Landscape',
+  '3:4': 'Portrait',
+};
+
+const MAX_IMAGES = 4;
+
+const commands: { name: SlashCommand['name']; usage: string; description: string }[] = [
+  { name: 'imagine', usage: '/imagine <prompt> [--ar 16:9] [--n 2] [--model fast]', description: 'Generate images from a prompt' },
+  { name: 'edit', usage: '/edit', description: 'Open the last image of this chat in the editor' },
+  { name: 'model', usage: '/model <flash|pro>', description: 'Switch the chat model before the first message' },
+  { name: 'persona', usage: '/persona [name]', description: 'Switch persona, or edit the current one' },
+  { name: 'clear', usage: '/clear', description: 'Start a new chat' },
+  { name: 'export', usage: '/export [md|html|json|pdf]', description: 'Download this chat, as Markdown by default' },
+];
+
+// Looked up with Object.hasOwn, so prompt words such as "constructor" do not match inherited keys.
+const imagineFlags: Record<string, { description: string; values: [string, string][] }> = {
+  '--ar': { description: 'Aspect ratio', values: Object.entries(aspectRatioValues) },
+  '--n': { description: `Number of images (1-${MAX_IMAGES})`, values: Array.from({ length: MAX_IMAGES }, (_, i) => [`${i + 1}`, `${i + 1} image${i === 0 ? '' : 's'}`]) },
+  '--model': { description: 'Imagen model', values: Object.entries(imagenModelAliases).map(([model, alias]) => [alias, model]) },
+};
+
+// Accepts either the short alias or the full model id.
+const resolveAlias = <T extends string>(aliases: Record<T, string>, value: string): T | undefined =>
+  (Object.keys(aliases) as T[]).find(key => key === value || aliases[key] === value.toLowerCase());
+
+const parseImagine = (args: string[], defaults: GenerationEvent['parameters']): SlashCommand => {
+  const parameters = { ...defaults };
+  const promptWords: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    if (!flag.startsWith('--')) {
+      promptWords.push(flag);
+      continue;
+    }
+    const value = args[++i];
+    if (!Object.hasOwn(imagineFlags, flag)) {
+      throw new Error(`Unknown option ${flag}. Use --ar, --n or --model.`);
+    }
+    if (value === undefined) {
+      throw new Error(`${flag} needs a value.`);
+    }
+    if (flag === '--ar') {
+      if (!Object.hasOwn(aspectRatioValues, value)) {
+        throw new Error(`Unsupported aspect ratio ${value}. Use ${Object.keys(aspectRatioValues).join(', ')}.`);
+      }
+      parameters.aspectRatio = value as AspectRatio;
+    } else if (flag === '--n') {
+      const count = Number(value);
+      if (!Number.isInteger(count) || count < 1 || count > MAX_IMAGES) {
+        throw new Error(`--n must be a whole number from 1 to ${MAX_IMAGES}.`);
+      }
+      parameters.numberOfImages = count;
+    } else {
+      const model = resolveAlias(imagenModelAliases, value);
+      if (!model) {
+        throw new Error(`Unknown image model ${value}. Use ${Object.values(imagenModelAliases).join(', ')}.`);
+      }
+      parameters.model = model;
+    }
+  }
+  if (promptWords.length === 0) {
+    throw new Error('/imagine needs a prompt, e.g. /imagine a lighthouse at dusk --ar 16:9');
+  }
+  return { name: 'imagine', prompt: promptWords.join(' '), parameters };
+};
+
+// Returns null when the text is an ordinary message. Messages that really start with a slash are written with two.
+// Throws with a user-facing message when the command or its options are invalid.
+export const parseSlashCommand = (input: string, imageDefaults: GenerationEvent['parameters']): SlashCommand | null => {
+  const text = input.trim();
+  if (!text.startsWith('/') || text.startsWith('//')) return null;
+
+  const [head, ...args] = text.split(/\s+/);
+  const name = head.slice(1).toLowerCase();
+  switch (name) {
+    case 'imagine':
+      return parseImagine(args, imageDefaults);
+    case 'model': {
+      const model = args[0] && resolveAlias(chatModelAliases, args[0]);
+      if (!model) {
+        throw new Error(`Usage: /model <${Object.values(chatModelAliases).join('|')}>`);
+      }
+      return { name: 'model', model };
+    }
+    case 'persona':
+      return { name: 'persona', query: args.join(' ') };
+    case 'export': {
+      const format = args[0] ? resolveAlias(exportFormatAliases, args[0]) : 'markdown';
+      if (!format) {
+        throw new Error(`Usage: /export [${Object.values(exportFormatAliases).join('|')}]`);
+      }
+      return { name: 'export', format };
+    }
+    case 'edit':
+    case 'clear':
+      return { name };
+    default:
+      throw new Error(`Unknown command ${head}. Available: ${commands.map(c => `/${c.name}`).join(', ')}. Start with // to send a message beginning with a slash.`);
+  }
+};
+
+// Strips the slash escape so `//etc` is sent as `/etc`.
+export const unescapeSlash = (input: string): string => (input.trimStart().startsWith('//') ? input.trimStart().slice(1) : input);
+
+const matching = (candidates: [string, string][], partial: string, before: string): SlashSuggestion[] =>
+  candidates
+    .filter(([value]) => value.toLowerCase().startsWith(partial.toLowerCase()) && value !== partial)
+    .map(([value, description]) => ({ label: value, description, completion: `${before}${value} ` }));
+
+// Suggestions for whatever is being typed at the end of the composer: a command name, an /imagine option
+// or its value, a chat model or a persona name.
+export const getSlashSuggestions = (input: string, personaNames: string[]): SlashSuggestion[] => {
+  if (!input.startsWith('/') || input.startsWith('//')) return [];
+
+  const firstSpace = input.search(/\s/);
+  if (firstSpace === -1) {
+    return commands
+      .filter(c => `/${c.name}`.startsWith(input.toLowerCase()) && `/${c.name}` !== input)
+      .map(c => ({ label: c.usage, description: c.description, completion: `/${c.name} ` }));
+  }
+
+  const name = input.slice(1, firstSpace).toLowerCase();
+  const lastSpace = input.search(/\s\S*$/);
+  const before = input.slice(0, lastSpace + 1);
+  const partial = input.slice(lastSpace + 1);
+
+  if (name === 'model') {
+    return before.trim() === '/model' ? matching(Object.entries(chatModelAliases).map(([model, alias]) => [alias, model]), partial, before) : [];
+  }
+  if (name === 'export') {
+    return before.trim() === '/export' ? matching(Object.entries(exportFormatAliases).map(([format, alias]) => [alias, format]), partial, before) : [];
+  }
+  if (name === 'persona') {
+    const query = input.slice(firstSpace + 1).trimStart();
+    return matching(personaNames.map(n => [n, 'Persona']), query, `${input.slice(0, firstSpace)} `);
+  }
+  if (name !== 'imagine') return [];
+
+  const previous = before.trim().split(/\s+/).pop() ?? '';
+  if (Object.hasOwn(imagineFlags, previous)) {
+    return matching(imagineFlags[previous].values, partial, before);
+  }
+  if (partial.startsWith('-')) {
+    const used = new Set(before.split(/\s+/));
+    return matching(Object.entries(imagineFlags).filter(([flag]) => !used.has(flag)).map(([flag, { description }]) => [flag, description]), partial, before);
+  }
+  return [];
+};
@@ -0,0 +1,202 @@
+import type { BackupProgress, CleanupResult, Conversation, ImageRecord, ImageUsage, SessionUsage, StorageEstimate, StorageReport, StoredImage } from '../types';
+import { dbService } from './dbService';
+import { collectImages, collectMasks, mapImages } from './imageRefs';
+import { getActivePath } from './messageTree';
+
+// The warning shows from here on; browsers start refusing writes at the quota without asking.
+export const QUOTA_WARNING_RATIO = 0.8;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Images stored in the last hour may belong to a message or edit that has not been saved yet.
+const UNUSED_IMAGE_GRACE_MS = 60 * 60 * 1000;
+const JPEG_QUALITY = 0.85;
+
+export const isNearQuota = (estimate: StorageEstimate | null): boolean =>
+  !!estimate && estimate.quota > 0 && estimate.usage / estimate.quota >= QUOTA_WARNING_RATIO;
+
+const jsonBytes = (value: unknown): number => new Blob([JSON.stringify(value)]).size;
+
+// Which sessions point at each image hash.
+const referencesByHash = (conversations: Conversation[]): Map<string, string[]> => {
+  const refs = new Map<string, string[]>();
+  for (const convo of conversations) {
+    for (const hash of new Set(collectImages(convo).map(image => image.hash))) {
+      refs.set(hash, [...(refs.get(hash) ?? []), convo.id]);
+    }
+  }
+  return refs;
+};
+
+// JPEG has no alpha channel, so transparent areas are painted white rather than left to turn black.
+const toJpeg = async (blob: Blob): Promise<Blob | null> => {
+  const bitmap = await createImageBitmap(blob);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+};
+
+class StorageService {
+  private estimate: StorageEstimate | null = null;
+  private listeners = new Set<(estimate: StorageEstimate | null) => void>();
+
+  getEstimate(): StorageEstimate | null {
+    return this.estimate;
+  }
+
+  subscribe(listener: (estimate: StorageEstimate | null) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Cheap enough to call after every save that may have grown the database.
+  async checkQuota(): Promise<StorageEstimate | null> {
+    if (!navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    this.estimate = { usage, quota };
+    this.listeners.forEach(listener => listener(this.estimate));
+    return this.estimate;
+  }
+
+  async getReport(): Promise<StorageReport> {
+    const estimate = await this.checkQuota();
+    const conversations = await dbService.getAllConversations();
+    const images = await dbService.getAllImages();
+    const backups = await dbService.getMigrationBackups();
+    const refs = referencesByHash(conversations);
+    const backupHashes = new Set(backups.flatMap(backup => collectImages(backup.record)).map(image => image.hash));
+    const sizes = new Map(images.map(image => [image.hash, image.size]));
+
+    const sessions: SessionUsage[] = conversations.map(convo => ({
+      conversationId: convo.id,
+      title: convo.title,
+      type: convo.type,
+      recordBytes: jsonBytes(convo),
+      imageBytes: [...new Set(collectImages(convo).map(image => image.hash))].reduce((sum, hash) => sum + (sizes.get(hash) ?? 0), 0),
+    }));
+    const unused = images.filter(image => !refs.has(image.hash) && !backupHashes.has(image.hash));
+    const imageUsage: ImageUsage[] = images
+      .filter(image => refs.has(image.hash))
+      .map(image => ({ hash: image.hash, mimeType: image.mimeType, size: image.size, createdAt: image.createdAt, conversationIds: refs.get(image.hash)! }));
+
+    return {
+      estimate,
+      sessions: sessions.sort((a, b) => b.recordBytes + b.imageBytes - (a.recordBytes + a.imageBytes)),
+      images: imageUsage.sort((a, b) => b.size - a.size),
+      unusedImageBytes: unused.reduce((sum, image) => sum + image.size, 0),
+      unusedImageCount: unused.length,
+      migrationBackupBytes: jsonBytes(backups),
+      migrationBackupCount: backups.length,
+    };
+  }
+
+  // Deletes images no session or pre-upgrade copy points at. `retired` are known to be replaced and skip the grace period.
+  async removeUnusedImages(retired: Set<string> = new Set()): Promise<CleanupResult> {
+    const images = await dbService.getAllImages();
+    const conversations = await dbService.getAllConversations();
+    const backups = await dbService.getMigrationBackups();
+    const used = new Set([...conversations, ...backups.map(backup => backup.record)].flatMap(collectImages).map(image => image.hash));
+    const cutoff = Date.now() - UNUSED_IMAGE_GRACE_MS;
+    const unused = images.filter(image => !used.has(image.hash) && (image.createdAt < cutoff || retired.has(image.hash)));
+    await dbService.deleteImages(unused.map(image => image.hash));
+    return { changedSessions: 0, removedImages: unused.length, freedBytes: unused.reduce((sum, image) => sum + image.size, 0) };
+  }
+
+  // Keeps only the active path of every chat. Branches left by edited or regenerated messages are dropped, along
+  // with the images only they used.
+  async pruneBranches(): Promise<CleanupResult> {
+    let changedSessions = 0;
+    let freedBytes = 0;
+    for (const convo of await dbService.getAllConversations()) {
+      // Chats not yet upgraded to the message tree have no parent links to follow.
+      if (convo.type !== 'chat' || convo.messages.some(msg => msg.parentId === undefined)) continue;
+      const path = getActivePath(convo.messages, convo.activeLeafId);
+      if (path.length === convo.messages.length) continue;
+      const pruned = { ...convo, messages: path };
+      if (await this.replaceRecord(convo, pruned)) {
+        changedSessions++;
+        freedBytes += jsonBytes(convo) - jsonBytes(pruned);
+      }
+    }
+    const images = await this.removeUnusedImages();
+    return { changedSessions, removedImages: images.removedImages, freedBytes: freedBytes + images.freedBytes };
+  }
+
+  // Removes the bytes of images stored more than `days` ago. Sessions keep their prompts and text and show the
+  // images as removed. An image still used by a session created within the window is kept.
+  async removeImagesOlderThan(days: number): Promise<CleanupResult> {
+    const cutoff = Date.now() - days * DAY_MS;
+    const conversations = await dbService.getAllConversations();
+    const recent = new Set(conversations.filter(convo => convo.createdAt >= cutoff).flatMap(collectImages).map(image => image.hash));
+    const refs = referencesByHash(conversations);
+    const old = (await dbService.getAllImages()).filter(image => image.createdAt < cutoff && !recent.has(image.hash));
+    await dbService.deleteImages(old.map(image => image.hash));
+    return {
+      changedSessions: new Set(old.flatMap(image => refs.get(image.hash) ?? [])).size,
+      removedImages: old.length,
+      freedBytes: old.reduce((sum, image) => sum + image.size, 0),
+    };
+  }
+
+  // Re-encodes every PNG a session uses as JPEG and points the sessions at the smaller copy. Images that would
+  // not get smaller are left alone.
+  async compressPngs(onProgress: (progress: BackupProgress) => void = () => {}): Promise<CleanupResult> {
+    const conversations = await dbService.getAllConversations();
+    const refs = referencesByHash(conversations);
+    const masks = new Set(conversations.flatMap(collectMasks).map(image => image.hash));
+    const pngs = (await dbService.getAllImages()).filter(image => image.mimeType === 'image/png' && refs.has(image.hash) && !masks.has(image.hash));
+    const replacements = new Map<string, StoredImage>();
+    let freedBytes = 0;
+    for (const [i, image] of pngs.entries()) {
+      onProgress({ label: `Compressing images (${i + 1}/${pngs.length})`, fraction: (i / pngs.length) * 0.9 });
+      const jpeg = await this.compressImage(image);
+      if (!jpeg) continue;
+      replacements.set(image.hash, { ...(await dbService.putImage(jpeg, 'image/jpeg')), url: '' });
+      freedBytes += image.size - jpeg.size;
+    }
+
+    onProgress({ label: 'Updating sessions', fraction: 0.9 });
+    let changedSessions = 0;
+    for (const convo of conversations) {
+      if (!collectImages(convo).some(image => replacements.has(image.hash))) continue;
+      const updated = await mapImages(convo, async image => replacements.get(image.hash) ?? image);
+      if (await this.replaceRecord(convo, updated)) changedSessions++;
+    }
+    const removed = await this.removeUnusedImages(new Set(replacements.keys()));
+    onProgress({ label: 'Done', fraction: 1 });
+    return { changedSessions, removedImages: removed.removedImages, freedBytes };
+  }
+
+  async clearMigrationBackups(): Promise<CleanupResult> {
+    const backups = await dbService.getMigrationBackups();
+    await dbService.clearMigrationBackups();
+    const images = await this.removeUnusedImages();
+    return { changedSessions: 0, removedImages: images.removedImages, freedBytes: jsonBytes(backups) + images.freedBytes };
+  }
+
+  private async compressImage(image: ImageRecord): Promise<Blob | null> {
+    try {
+      const jpeg = await toJpeg(image.blob);
+      return jpeg && jpeg.size < image.size ? jpeg : null;
+    } catch (error) {
+      console.error(`Failed to compress image ${image.hash}:`, error);
+      return null;
+    }
+  }
+
+  // Writes `updated` only if the session is still exactly as it was read, so a message saved meanwhile is not lost.
+  private async replaceRecord(original: Conversation, updated: Conversation): Promise<boolean> {
+    const expected = JSON.stringify(original);
+    const result = await dbService.updateConversationRecord(original.id, current => (JSON.stringify(current) === expected ? updated : null));
+    return result !== null;
+  }
+}
+
+export const storageService = new StorageService();
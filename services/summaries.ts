@@ -0,0 +1,14 @@
+import type { Conversation, ConversationSummary } from '../types';
+import { conversationModels } from './search';
+
+// Everything the history list shows or filters on, without messages or images.
+export const buildSummary = (convo: Conversation): ConversationSummary => ({
+  id: convo.id,
+  type: convo.type,
+  title: convo.title,
+  createdAt: convo.createdAt,
+  isFavorite: convo.isFavorite,
+  ...(convo.folderId && { folderId: convo.folderId }),
+  ...(convo.tags && { tags: convo.tags }),
+  models: conversationModels(convo),
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it, vi } from 'vitest';
+import { syncService } from './syncService';
+import type { SyncEvent } from '../types';
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 20));
+
+describe('syncService', () => {
+  it('passes on events from other tabs but not its own', async () => {
+    const otherTab = new BroadcastChannel('gemini-creative-suite-sync');
+    const listener = vi.fn();
+    const unsubscribe = syncService.subscribe(listener);
+
+    syncService.publish({ type: 'workspaceChanged' });
+    const fromOtherTab: SyncEvent = { type: 'conversationChanged', conversationId: '1' };
+    otherTab.postMessage(fromOtherTab);
+    await settle();
+    unsubscribe();
+    otherTab.postMessage({ type: 'workspaceChanged' });
+    await settle();
+    otherTab.close();
+
+    expect(listener.mock.calls).toEqual([[fromOtherTab]]);
+  });
+});
@@ -0,0 +1,29 @@
+import type { SyncEvent } from '../types';
+
+const CHANNEL_NAME = 'gemini-creative-suite-sync';
+
+// Tells the app's other tabs about database writes. A channel never receives its own messages, so listeners
+// only hear about changes made in another tab.
+class SyncService {
+  private channel: BroadcastChannel | null = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(CHANNEL_NAME);
+  private listeners = new Set<(event: SyncEvent) => void>();
+
+  constructor() {
+    if (this.channel) {
+      this.channel.onmessage = (e: MessageEvent<SyncEvent>) => this.listeners.forEach(listener => listener(e.data));
+    }
+  }
+
+  publish(event: SyncEvent): void {
+    this.channel?.postMessage(event);
+  }
+
+  subscribe(listener: (event: SyncEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const syncService = new SyncService();
@@ -0,0 +1,22 @@
+import { ModelError } from './errors';
+
+export const abortedError = () => new ModelError('aborted', 'The request was stopped');
+
+// Resolves after `ms`, or rejects with an aborted ModelError as soon as `signal` fires.
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortedError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortedError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
@@ -0,0 +1,61 @@
+import type { ChatMessage, Conversation } from '../types';
+import { Author } from '../types';
+import { dbService } from './dbService';
+import { geminiService } from './geminiService';
+import { getActivePath } from './messageTree';
+
+// Enough for the model to tell what a session is about without paying for the whole transcript.
+const MAX_SOURCE_CHARS = 1500;
+const MAX_TITLE_LENGTH = 60;
+
+const messageText = (msg: ChatMessage): string =>
+  msg.parts.map(part => (part.type === 'text' ? part.text : part.type === 'imageGenerationResult' ? part.prompt ?? '' : '')).filter(Boolean).join('\n');
+
+// What the model is shown to name the session. Null when there is not enough yet: a chat needs its first
+// exchange and an edit session its analysis, unless the user asked for a title anyway.
+const titleSource = (convo: Conversation, force: boolean): string | null => {
+  switch (convo.type) {
+    case 'chat': {
+      const path = getActivePath(convo.messages, convo.activeLeafId);
+      const question = path.find(msg => msg.author === Author.USER);
+      const answer = path.find(msg => msg.author === Author.MODEL);
+      if (!question || (!answer && !force)) return null;
+      return [`User: ${messageText(question)}`, answer && `Assistant: ${messageText(answer)}`].filter(Boolean).join('\n\n').slice(0, MAX_SOURCE_CHARS);
+    }
+    case 'imageEditing': {
+      const prompts = convo.history.map(event => event.prompt);
+      if (!convo.analysisResult && (!force || prompts.length === 0)) return null;
+      return [convo.analysisResult && `Image analysis: ${convo.analysisResult}`, prompts.length > 0 && `Edits: ${prompts.join('; ')}`]
+        .filter(Boolean).join('\n\n').slice(0, MAX_SOURCE_CHARS);
+    }
+    case 'imageGeneration':
+      return convo.history.length > 0 ? `Image prompts: ${convo.history.map(event => event.prompt).join('; ')}`.slice(0, MAX_SOURCE_CHARS) : null;
+  }
+};
+
+// Models like to wrap titles in quotes or markdown, or to answer with more than one line.
+const cleanTitle = (raw: string): string => {
+  const line = raw.split('\n').find(l => l.trim())?.trim() ?? '';
+  const title = line.replace(/^(title:\s*)/i, '').replace(/^[#*"'`\s]+|[*"'`.\s]+$/g, '');
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH).trimEnd()}...` : title;
+};
+
+export const titleService = {
+  // Names the session from its content if it still has its placeholder title. `force` replaces any title,
+  // including one the user typed. Resolves to whether the title changed.
+  generateTitle: async (conversationId: string, force = false, signal?: AbortSignal): Promise<boolean> => {
+    const convo = await dbService.getConversationRecord(conversationId);
+    const source = convo && (force || !convo.titleSource) ? titleSource(convo, force) : null;
+    if (!source) return false;
+    const title = cleanTitle(await geminiService.generateTitle(source, signal));
+    if (!title) return false;
+    // The user may have renamed the session while the model was answering.
+    const updated = await dbService.updateConversationRecord(conversationId, record =>
+      force || !record.titleSource ? { ...record, title, titleSource: 'generated' } : null);
+    return !!updated;
+  },
+
+  renameConversation: async (conversationId: string, title: string): Promise<void> => {
+    await dbService.updateConversationRecord(conversationId, record => ({ ...record, title, titleSource: 'user' }));
+  },
+};
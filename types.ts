@@ -5,21 +5,48 @@ export enum Author {
   MODEL = 'model',
 }
 
+// Image bytes live in the image store, keyed by the SHA-256 of their content, so a picture used in
+// several places is stored once. `url` is an object URL filled in when a conversation is loaded; it is
+// stored empty and is only valid for the current page.
+export interface StoredImage {
+  hash: string;
+  mimeType: string;
+  size: number;
+  url: string;
+}
+
+// One entry of the image store.
+export interface ImageRecord {
+  hash: string;
+  blob: Blob;
+  mimeType: string;
+  size: number;
+  createdAt: number;
+}
+
 export type TextPart = { type: 'text'; text: string };
-export type ImagePart = { type: 'image'; url: string; mimeType: string; base64: string };
+// `base64` is only set on the copies sent to a provider, never on stored messages.
+export type ImagePart = { type: 'image'; base64?: string } & StoredImage;
 export type ImageGenerationResultPart = {
   type: 'imageGenerationResult';
-  images: { url: string }[];
+  images: StoredImage[];
   prompt: string;
   parameters: GenerationEvent['parameters'];
 };
-export type MessagePart = TextPart | ImagePart | ImageGenerationResultPart;
+// Any non-image file sent with a message: PDFs, plain text, CSV, audio and so on.
+export type AttachmentPart = { type: 'attachment'; name: string; mimeType: string; base64: string; size: number };
+export type MessagePart = TextPart | ImagePart | AttachmentPart | ImageGenerationResultPart;
 
 
 export interface ChatMessage {
   id: string;
   author: Author;
   parts: MessagePart[];
+  // Set when the user stopped the reply before it finished; the parts hold whatever had streamed in.
+  status?: 'stopped';
+  // Messages form a tree: edits and regenerations are siblings sharing a parent. null marks a root;
+  // undefined only appears on chats saved before branching existed, whose messages are linear.
+  parentId?: string | null;
 }
 
 
@@ -52,12 +79,59 @@ interface BaseConversation {
   createdAt: number;
   isFavorite: boolean;
   type: ConversationType;
+  // Unset while the session is not in any folder.
+  folderId?: string;
+  tags?: string[];
+  // How the title was set. Unset while it is still the placeholder the session started with.
+  titleSource?: 'generated' | 'user';
+}
+
+// Folders nest through `parentId`; a top-level folder serves as a project.
+export interface Folder {
+  id: string;
+  name: string;
+  parentId: string | null;
+  createdAt: number;
+}
+
+// Sampling settings passed to the model. Unset fields fall back to the API defaults.
+export interface ChatGenerationConfig {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  stopSequences?: string[];
+  // Tokens the model may spend reasoning before it answers; 0 turns thinking off where the model allows it, -1 lets the model decide.
+  thinkingBudget?: number;
+}
+
+export interface Persona {
+  id: string;
+  name: string;
+  systemInstruction: string;
+  model: GeminiChatModel;
+  generationConfig: ChatGenerationConfig;
 }
 
 export interface ChatConversation extends BaseConversation {
   type: 'chat';
   messages: ChatMessage[];
   modelUsed: GeminiChatModel;
+  // Starts as the persona's settings and can then be tuned for this chat alone. Missing on older chats.
+  generationConfig?: ChatGenerationConfig;
+  // A copy of the persona, so later edits to the saved persona do not change old chats. Missing on older chats.
+  persona?: Persona;
+  contextSummary?: ContextSummary;
+  // The branch being shown is the path from the root to this message. Defaults to the newest message.
+  activeLeafId?: string;
+}
+
+// A rolling summary that stands in for older messages once the history outgrows the context budget.
+export interface ContextSummary {
+  text: string;
+  // Every message up to and including this one is covered by the summary and no longer sent verbatim.
+  throughMessageId: string;
+  updatedAt: number;
 }
 
 export interface GenerationEvent {
@@ -72,30 +146,334 @@ export interface GenerationEvent {
   timestamp: number;
 }
 
+// A parsed chat composer command such as `/imagine a fox --ar 16:9`.
+export type SlashCommand =
+  | { name: 'imagine'; prompt: string; parameters: GenerationEvent['parameters'] }
+  | { name: 'edit' }
+  | { name: 'model'; model: GeminiChatModel }
+  | { name: 'persona'; query: string }
+  | { name: 'clear' }
+  | { name: 'export'; format: ExportFormat };
+
+export interface SlashSuggestion {
+  label: string;
+  description: string;
+  // The whole composer text after picking this suggestion.
+  completion: string;
+}
+
 export interface ImageGenerationConversation extends BaseConversation {
   type: 'imageGeneration';
   history: GenerationEvent[];
 }
 
+export type MaskTool = 'brush' | 'eraser' | 'lasso' | 'rectangle';
+
+// A rectangle in the pixels of the image it was drawn on.
+export interface MaskBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// The area an edit was allowed to change. The mask is a PNG the size of the source image: opaque white where
+// the edit applies, transparent elsewhere.
+export interface EditMask {
+  image: StoredImage;
+  bounds: MaskBounds;
+}
+
 export interface EditEvent {
   prompt: string;
-  editedImage: {
-    url: string;
-    base64: string;
-    mimeType: string;
-  };
+  editedImage: StoredImage;
   timestamp: number;
+  // Set for inpainting edits; everything outside the mask was kept from the source image.
+  mask?: EditMask;
+}
+
+// What an inpainting request sends next to the whole image. Both images are base64 PNGs.
+export interface MaskedEditInput {
+  // White on black, the size of the source image; white marks the area to change.
+  maskBase64: string;
+  // The source image cropped to `bounds`, so the model gets a close look at the area.
+  regionBase64: string;
+  bounds: MaskBounds;
 }
 
 export interface ImageEditingConversation extends BaseConversation {
     type: 'imageEditing';
-    baseImage: {
-      url: string;
-      base64: string;
-      mimeType: string;
-    };
+    baseImage: StoredImage;
     history: EditEvent[];
     analysisResult?: string;
 }
 
-export type Conversation = ChatConversation | ImageGenerationConversation | ImageEditingConversation;
\ No newline at end of file
+export type Conversation = ChatConversation | ImageGenerationConversation | ImageEditingConversation;
+
+export interface BackupManifest {
+  format: 'gemini-creative-suite-backup';
+  // Bumped whenever the archive layout changes; restores refuse archives newer than they understand.
+  schemaVersion: number;
+  createdAt: number;
+  conversationCount: number;
+  imageCount: number;
+  folderCount: number;
+  settingsKeys: string[];
+}
+
+// An image carried inside an archive or export file, keyed like the image store.
+export interface ArchivedImage {
+  hash: string;
+  mimeType: string;
+  base64: string;
+}
+
+// A whole workspace in one file: every stored session, the image store and the settings kept in localStorage.
+// Schema 1 archives have no `images`; their sessions still hold images inline. Folders arrived in schema 3.
+export interface WorkspaceBackup {
+  manifest: BackupManifest;
+  settings: Record<string, string>;
+  folders?: Folder[];
+  images?: ArchivedImage[];
+  conversations: Conversation[];
+}
+
+// The JSON export of one session: its stored record plus the bytes of every image it references.
+export interface ConversationExport {
+  conversation: Conversation;
+  images: ArchivedImage[];
+}
+
+// Merge keeps current sessions and adds the archived ones; replace wipes the workspace first.
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreReport {
+  added: number;
+  // Archived sessions whose id was taken by a different local session; they were saved under a new id.
+  renamed: number;
+  // Archived sessions identical to one already stored.
+  skipped: number;
+  settingsRestored: string[];
+}
+
+export interface BackupProgress {
+  label: string;
+  fraction: number;
+}
+
+// A stored session exactly as it was before a background migration rewrote it.
+export interface MigrationBackup {
+  version: number;
+  id: string;
+  record: Conversation;
+  createdAt: number;
+}
+
+export interface MigrationFailure {
+  // Missing when the database upgrade itself failed rather than a single session.
+  conversationId?: string;
+  title?: string;
+  message: string;
+}
+
+export interface MigrationStatus {
+  running: boolean;
+  done: number;
+  total: number;
+  failures: MigrationFailure[];
+}
+
+// One row of the history list, kept in its own store so listing sessions never loads their messages or images.
+export interface ConversationSummary {
+  id: string;
+  type: ConversationType;
+  title: string;
+  createdAt: number;
+  isFavorite: boolean;
+  folderId?: string;
+  tags?: string[];
+  models: string[];
+}
+
+// Sent to the app's other tabs after a write. `workspaceChanged` covers writes that touch many sessions or the folders.
+export type SyncEvent =
+  | { type: 'conversationChanged'; conversationId: string }
+  | { type: 'conversationDeleted'; conversationId: string }
+  | { type: 'workspaceChanged' };
+
+// What navigator.storage.estimate() reports for this origin, in bytes.
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+export interface SessionUsage {
+  conversationId: string;
+  title: string;
+  type: ConversationType;
+  // The stored record, including inline attachments.
+  recordBytes: number;
+  // Every distinct image the session points at, counted in full even when other sessions share it.
+  imageBytes: number;
+}
+
+export interface ImageUsage {
+  hash: string;
+  mimeType: string;
+  size: number;
+  createdAt: number;
+  conversationIds: string[];
+}
+
+export interface StorageReport {
+  // Null where the browser does not support estimates.
+  estimate: StorageEstimate | null;
+  // Both sorted largest first.
+  sessions: SessionUsage[];
+  images: ImageUsage[];
+  unusedImageBytes: number;
+  unusedImageCount: number;
+  migrationBackupBytes: number;
+  migrationBackupCount: number;
+}
+
+export interface CleanupResult {
+  changedSessions: number;
+  removedImages: number;
+  freedBytes: number;
+}
+
+// Where a piece of searchable text lives, so a result can open the session right at it.
+export type SearchLocation =
+  | { kind: 'message'; messageId: string }
+  | { kind: 'analysis' }
+  | { kind: 'editStep'; index: number }
+  | { kind: 'generation'; index: number };
+
+export interface SearchField {
+  location: SearchLocation;
+  text: string;
+}
+
+// One session's row in the search index. `terms` carries a multi-entry index, which is the inverted index itself.
+export interface SearchEntry {
+  conversationId: string;
+  type: ConversationType;
+  createdAt: number;
+  models: string[];
+  terms: string[];
+  fields: SearchField[];
+}
+
+export interface SearchFilters {
+  type?: ConversationType;
+  model?: string;
+  // Inclusive bounds on the session's creation time.
+  from?: number;
+  to?: number;
+}
+
+export interface SnippetSegment {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchHit {
+  location: SearchLocation;
+  snippet: SnippetSegment[];
+}
+
+export interface SearchResult {
+  conversationId: string;
+  createdAt: number;
+  // Empty when only the title matched.
+  hits: SearchHit[];
+}
+
+// JSON is the stored record verbatim; the other formats render what the session shows.
+export type ExportFormat = 'markdown' | 'html' | 'json' | 'pdf';
+
+export type ProviderId = 'gemini' | 'openaiCompatible';
+export type ProviderCapability = 'chat' | 'generation' | 'analysis' | 'editing';
+
+export type ModelErrorKind = 'invalidKey' | 'quota' | 'safety' | 'network' | 'badInput' | 'modelUnavailable' | 'aborted' | 'unknown';
+
+export interface SerializedModelError {
+  kind: ModelErrorKind;
+  message: string;
+  status?: number;
+  safetyCategory?: string;
+  retryAfterMs?: number;
+  retryable?: boolean;
+}
+
+export interface ChatRequestOptions {
+  systemInstruction?: string;
+  generationConfig?: ChatGenerationConfig;
+  signal?: AbortSignal;
+}
+
+// Every model backend implements the same surface so that each capability can be
+// routed to a different provider (e.g. chat on a local server, images on Gemini).
+// Failures are thrown as ModelError (see services/errors.ts), never returned as content.
+export interface ModelProvider {
+  getChatResponseStream: (messages: ChatMessage[], model: string, options?: ChatRequestOptions) => AsyncGenerator<string>;
+  generateImage: (prompt: string, params: GenerationEvent['parameters'], signal?: AbortSignal) => Promise<string[]>;
+  analyzeImage: (base64Image: string, mimeType: string, prompt: string, signal?: AbortSignal) => Promise<string>;
+  editImage: (base64Image: string, mimeType: string, prompt: string, mask?: MaskedEditInput, signal?: AbortSignal) => Promise<string>;
+}
+
+export interface OpenAICompatibleSettings {
+  baseUrl: string;
+  apiKey: string;
+  chatModel: string;
+  imageModel: string;
+}
+
+export interface ProviderSettings {
+  assignments: Record<ProviderCapability, ProviderId>;
+  openAICompatible: OpenAICompatibleSettings;
+}
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+export type ProviderMethod = 'getChatResponseStream' | 'generateImage' | 'analyzeImage' | 'editImage';
+
+export interface FixtureEntry {
+  method: ProviderMethod;
+  // Hash of the normalized request, used to find the matching response on replay.
+  key: string;
+  request: unknown;
+  // Streams record each chunk with the delay since the previous one; other calls record a single value.
+  chunks?: { text: string; delayMs: number }[];
+  value?: unknown;
+  durationMs: number;
+  error?: SerializedModelError;
+}
+
+export interface FixtureFile {
+  version: 1;
+  recordedAt: number;
+  entries: FixtureEntry[];
+}
+
+export type RequestJobStatus = 'pending' | 'running' | 'retrying';
+
+export interface RequestJob {
+  id: string;
+  label: string;
+  model: string;
+  capability: ProviderCapability;
+  status: RequestJobStatus;
+  attempt: number;
+  createdAt: number;
+  nextAttemptAt?: number;
+  lastError?: string;
+}
+
+export type CredentialStatus = 'missing' | 'locked' | 'ready';
+
+export interface GeminiCredentials {
+  apiKey: string;
+  // Optional proxy or gateway URL; leave empty to call Google directly.
+  baseUrl?: string;
+}
@@ -11,8 +11,8 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.FIXTURE_MODE': JSON.stringify(env.FIXTURE_MODE),
+        'process.env.FIXTURE_URL': JSON.stringify(env.FIXTURE_URL)
       },
       resolve: {
         alias: {